@@ -1,49 +1,113 @@
 
-import React, { useState } from 'react';
-import { AppConfig, BlogPost, AppStep, SitemapState } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppConfig, BlogPost, AppStep, SitemapState, SiteProfile } from './types';
+import { DEFAULT_CONFIG } from './constants';
+import { ProfileStore, Vault } from './utils';
 import { ConfigPanel } from './components/ConfigPanel';
 import { SitemapScanner } from './components/SitemapScanner';
 import { PostEditor } from './components/PostEditor';
 import { LandingPage } from './components/LandingPage';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { VaultGate } from './components/VaultGate';
+import Toastify from 'toastify-js';
 
 const App: React.FC = () => {
   const [hasEntered, setHasEntered] = useState(false);
-  const [config, setConfig] = useState<AppConfig>({
-    amazonTag: '',
-    amazonAccessKey: '',
-    amazonSecretKey: '',
-    amazonRegion: 'us-east-1',
-    wpUrl: '',
-    wpUser: '',
-    wpAppPassword: '',
-    autoPublishThreshold: 85,
-    concurrencyLimit: 3,
-    enableSchema: true,
-    enableStickyBar: true,
-    aiProvider: 'gemini',
-    aiApiKey: '',
-    aiModel: 'gemini-2.5-flash'
-  });
+  const [config, setConfig] = useState<AppConfig>(DEFAULT_CONFIG);
 
   const [currentStep, setCurrentStep] = useState<AppStep>(AppStep.SITEMAP);
   const [selectedPost, setSelectedPost] = useState<BlogPost | null>(null);
   const [sitemapData, setSitemapData] = useState<SitemapState>({ url: '', posts: [] });
+  const [profile, setProfile] = useState<SiteProfile | null>(null);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+
+  // Restore the last active site profile from IndexedDB; its credentials need the unlocked vault
+  useEffect(() => {
+      if (!isUnlocked) return;
+      ProfileStore.loadActive()
+          .then(loaded => {
+              setProfile(loaded);
+              setConfig(loaded.config);
+              setSitemapData(loaded.sitemap);
+          })
+          .catch(e => {
+              console.warn("Profile storage unavailable", e);
+              Toastify({ text: e.message, duration: 10000, backgroundColor: "#ef4444" }).showToast();
+          });
+  }, [isUnlocked]);
+
+  // On lock: flush the pending save while the key is still there, then drop plain credentials from state
+  const latest = useRef({ profile, config, sitemapData });
+  latest.current = { profile, config, sitemapData };
+  useEffect(() => Vault.onLock(async () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      const { profile: current, config: currentConfig, sitemapData: currentSitemap } = latest.current;
+      if (current) await ProfileStore.save({ ...current, config: currentConfig, sitemap: currentSitemap });
+      setIsUnlocked(false);
+      setProfile(null);
+      setConfig(DEFAULT_CONFIG);
+      setSitemapData({ url: '', posts: [] });
+      setSelectedPost(null);
+      setCurrentStep(AppStep.SITEMAP);
+  }), []);
+
+  useEffect(() => {
+      if (!isUnlocked) return;
+      const onActivity = () => Vault.touch();
+      window.addEventListener('pointerdown', onActivity);
+      window.addEventListener('keydown', onActivity);
+      return () => {
+          window.removeEventListener('pointerdown', onActivity);
+          window.removeEventListener('keydown', onActivity);
+      };
+  }, [isUnlocked]);
+
+  // Debounced autosave: scans of thousands of URLs update state in bursts
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+      if (!profile) return;
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(() => {
+          ProfileStore.save({ ...profile, config, sitemap: sitemapData }).catch(e => console.warn("Profile save failed", e));
+      }, 1000);
+      return () => { if (saveTimer.current) clearTimeout(saveTimer.current); };
+  }, [profile, config, sitemapData]);
+
+  const handleSwitchProfile = async (next: SiteProfile) => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      if (profile) await ProfileStore.save({ ...profile, config, sitemap: sitemapData });
+      await ProfileStore.setActiveId(next.id);
+      setProfile(next);
+      setConfig(next.config);
+      setSitemapData(next.sitemap);
+      setSelectedPost(null);
+      setCurrentStep(AppStep.SITEMAP);
+  };
 
   if (!hasEntered) {
     return <LandingPage onEnter={() => setHasEntered(true)} />;
   }
 
+  if (!isUnlocked) {
+    return <VaultGate onUnlocked={() => setIsUnlocked(true)} />;
+  }
+
   return (
     // SOTA v18: Use h-dvh for mobile browsers to handle address bars correctly
     <div className="h-dvh w-screen bg-dark-950 text-slate-200 font-sans selection:bg-brand-500 selection:text-white overflow-hidden flex flex-col animate-fade-in">
       
-      {/* Config Modal */}
-      <ConfigPanel initialConfig={config} onSave={setConfig} />
+      {/* Config Modal (re-mounted per profile so its form state follows the active site) */}
+      <ConfigPanel key={profile?.id} initialConfig={config} onSave={setConfig} posts={sitemapData.posts} />
+
+      {profile && (
+          <ProfileSwitcher activeProfile={profile} liveConfig={config} liveSitemap={sitemapData} onSwitch={handleSwitchProfile} onRename={(name) => setProfile({ ...profile, name })} onLock={() => Vault.lock()} />
+      )}
 
       {/* Main Viewport */}
       <main className="flex-1 w-full h-full relative overflow-hidden">
         {currentStep === AppStep.SITEMAP && (
            <SitemapScanner 
+              key={profile?.id}
               onPostSelect={(post) => { setSelectedPost(post); setCurrentStep(AppStep.EDITOR); }} 
               savedState={sitemapData}
               onStateChange={setSitemapData}
@@ -58,6 +122,7 @@ const App: React.FC = () => {
             onBack={() => { setSelectedPost(null); setCurrentStep(AppStep.SITEMAP); }}
             allPosts={sitemapData.posts}
             onSwitchPost={setSelectedPost}
+            onUpdatePost={(url, patch) => setSitemapData(prev => ({ ...prev, posts: prev.posts.map(p => p.url === url ? { ...p, ...patch } : p) }))}
           />
         )}
       </main>
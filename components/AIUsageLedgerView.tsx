@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { AIUsageLedger, AIUsageRecord } from '../types';
+
+interface AIUsageLedgerViewProps {
+  ledger: AIUsageLedger;
+  onClose: () => void;
+}
+
+type LedgerRow = Pick<AIUsageRecord, 'provider' | 'model' | 'inputTokens' | 'outputTokens' | 'cost'> & { calls: number; failures: number; estimated: boolean; priced: boolean };
+
+const formatTokens = (n: number) => n >= 10000 ? `${(n / 1000).toFixed(1)}k` : n.toLocaleString();
+const formatCost = (n: number) => n > 0 && n < 0.01 ? '<$0.01' : `$${n.toFixed(2)}`;
+
+export const AIUsageLedgerView: React.FC<AIUsageLedgerViewProps> = ({ ledger, onClose }) => {
+  const rows = useMemo(() => {
+      const byModel = new Map<string, LedgerRow>();
+      ledger.records.forEach(r => {
+          const key = `${r.provider}:${r.model}`;
+          const row = byModel.get(key) || { provider: r.provider, model: r.model, calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, cost: 0, estimated: false, priced: true };
+          row.calls++;
+          if (!r.ok) row.failures++;
+          row.inputTokens += r.inputTokens;
+          row.outputTokens += r.outputTokens;
+          row.cost += r.cost;
+          row.estimated = row.estimated || r.estimated;
+          row.priced = row.priced && r.priced;
+          byModel.set(key, row);
+      });
+      return Array.from(byModel.values());
+  }, [ledger]);
+
+  const totalCost = rows.reduce((n, r) => n + r.cost, 0);
+  const totalTokens = rows.reduce((n, r) => n + r.inputTokens + r.outputTokens, 0);
+  const duration = ledger.finishedAt ? Math.round((ledger.finishedAt - ledger.startedAt) / 1000) : 0;
+
+  return (
+    <div className="bg-dark-950 p-4 rounded-xl border border-dark-800 mb-4">
+        <div className="flex items-center justify-between mb-2">
+            <div className="text-xs text-gray-500 uppercase font-bold">Last Run AI Usage</div>
+            <button onClick={onClose} className="text-gray-600 hover:text-white text-xs"><i className="fa-solid fa-times"></i></button>
+        </div>
+        <div className="flex items-baseline gap-2">
+            <div className="text-xl font-bold text-white">{formatCost(totalCost)}</div>
+            <div className="text-[10px] text-gray-500">{formatTokens(totalTokens)} tokens · {duration}s</div>
+        </div>
+        {rows.length === 0 && <div className="text-[10px] text-gray-600 mt-2">No AI calls were made.</div>}
+        {rows.map(r => (
+            <div key={`${r.provider}:${r.model}`} className="mt-2 text-[10px]">
+                <div className="flex justify-between gap-2">
+                    <span className="text-gray-300 font-mono truncate">{r.model}</span>
+                    <span className="text-gray-400 shrink-0">{r.priced ? formatCost(r.cost) : 'no price'}</span>
+                </div>
+                <div className="text-gray-600">
+                    {r.provider} · {r.calls} calls{r.failures > 0 && <span className="text-red-400"> ({r.failures} failed)</span>} · {formatTokens(r.inputTokens)} in / {formatTokens(r.outputTokens)} out{r.estimated && ' (est.)'}
+                </div>
+            </div>
+        ))}
+    </div>
+  );
+};
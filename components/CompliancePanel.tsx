@@ -0,0 +1,96 @@
+import React, { useState, useMemo } from 'react';
+import { AppConfig, BlogPost, ComplianceIssue, ComplianceReport } from '../types';
+import { runComplianceScan } from '../utils';
+import Toastify from 'toastify-js';
+
+interface CompliancePanelProps {
+  config: AppConfig;
+  posts: BlogPost[];
+  onUpdatePost: (url: string, patch: Partial<BlogPost>) => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<ComplianceIssue['severity'], string> = {
+  error: 'bg-red-900/40 text-red-300',
+  warning: 'bg-yellow-900/40 text-yellow-300',
+};
+
+export const CompliancePanel: React.FC<CompliancePanelProps> = ({ config, posts, onUpdatePost, onClose }) => {
+  // Only posts that can carry affiliate links are worth a fetch
+  const targets = useMemo(() => posts.filter(p => p.monetizationStatus === 'monetized' || p.autoPilotStatus === 'published'), [posts]);
+  const [reports, setReports] = useState<ComplianceReport[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [onlyIssues, setOnlyIssues] = useState(true);
+
+  const handleRun = async (fix: boolean) => {
+      if (fix && !confirm(`Add missing disclosures, tags and rel="sponsored" and push the fixes to up to ${targets.length} posts?`)) return;
+      setIsRunning(true);
+      setReports([]);
+      try {
+          const all = await runComplianceScan(config, targets, { fix }, (report) => {
+              setReports(prev => [...prev, report]);
+              const post = targets.find(p => p.url === report.url);
+              if (post && !report.error) onUpdatePost(post.url, { complianceIssues: [...new Set(report.issues.map(i => i.type))] });
+          });
+          const open = all.reduce((n, r) => n + r.issues.length, 0);
+          const fixed = all.reduce((n, r) => n + r.fixed, 0);
+          Toastify({
+              text: (fix ? `Fixed ${fixed} issues. ` : '') + `${open} open issues across ${all.filter(r => r.issues.length).length} posts`,
+              backgroundColor: open ? "#f59e0b" : "#10b981"
+          }).showToast();
+      } catch (e: any) {
+          Toastify({ text: e.message, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setIsRunning(false);
+      }
+  };
+
+  const visible = onlyIssues ? reports.filter(r => r.issues.length || r.fixed || r.error) : reports;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-dark-900 border border-dark-800 w-full max-w-3xl rounded-2xl shadow-2xl flex flex-col max-h-[85vh]">
+        <div className="flex justify-between items-center p-5 border-b border-dark-800 gap-3">
+          <h2 className="text-lg font-black text-white flex-1"><i className="fa-solid fa-scale-balanced text-brand-500 mr-2"></i> Compliance</h2>
+          <button onClick={() => handleRun(false)} disabled={isRunning || targets.length === 0} className="bg-dark-800 hover:bg-dark-700 disabled:opacity-40 text-gray-300 text-xs font-bold px-4 py-2 rounded-lg border border-dark-700">
+              {isRunning
+                  ? <><i className="fa-solid fa-spinner fa-spin mr-1"></i> {reports.length}/{targets.length}</>
+                  : <><i className="fa-solid fa-magnifying-glass mr-1"></i> Scan {targets.length} Posts</>}
+          </button>
+          <button onClick={() => handleRun(true)} disabled={isRunning || targets.length === 0} className="bg-brand-600 hover:bg-brand-500 disabled:opacity-40 text-white text-xs font-bold px-4 py-2 rounded-lg">
+              <i className="fa-solid fa-wand-magic-sparkles mr-1"></i> Scan & Fix
+          </button>
+          <button onClick={onClose} disabled={isRunning} className="text-gray-400 hover:text-white ml-2"><i className="fa-solid fa-times text-xl"></i></button>
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-2 border-b border-dark-800 text-[11px] text-gray-500">
+            <span>Disclosure, price timestamps, Amazon images, associate tags and rel="sponsored".</span>
+            <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={onlyIssues} onChange={e => setOnlyIssues(e.target.checked)} className="accent-brand-500" /> Only posts with issues</label>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-3">
+            {reports.length === 0 && !isRunning && <div className="text-center text-xs text-gray-500 py-10">Scan reports violations per post. Scan & Fix also adds the disclosure, missing tags and rel="sponsored", then pushes the post.</div>}
+            {reports.length > 0 && visible.length === 0 && <div className="text-center text-xs text-green-400 py-10"><i className="fa-solid fa-circle-check mr-1"></i> No issues found.</div>}
+            {visible.map(r => (
+                <div key={r.url} className="bg-dark-950 border border-dark-800 rounded-xl p-4">
+                    <div className="flex items-center gap-3 mb-2">
+                        <div className="text-sm font-bold text-white truncate flex-1">{r.postTitle}</div>
+                        {r.fixed > 0 && <span className="text-[10px] font-bold text-green-400 uppercase">{r.fixed} Fixed</span>}
+                        {r.error && <span className="text-[10px] font-bold text-red-400 truncate max-w-[50%]">{r.error}</span>}
+                    </div>
+                    {r.issues.map((issue, i) => (
+                        <div key={i} className="flex items-start gap-3 text-[11px] py-1">
+                            <span className={`font-bold uppercase px-2 py-0.5 rounded w-20 text-center shrink-0 ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+                            <div className="min-w-0">
+                                <div className="text-gray-300">{issue.message}{issue.fixable && <span className="text-brand-400 ml-1">(auto-fixable)</span>}</div>
+                                {issue.excerpt && <div className="text-gray-600 font-mono truncate">{issue.excerpt}</div>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,17 @@
 import React, { useState } from 'react';
-import { AppConfig, AIProvider } from '../types';
-import { testConnection, SecureStorage } from '../utils';
+import { AppConfig, BlogPost, AIProvider, AIProviderSettings, MarketplaceId, BoxOutputMode } from '../types';
+import { MARKETPLACES, DEFAULT_DISCLOSURE_TEXT } from '../constants';
+import { testConnection, testRelay, getProductBoxTemplates, generateCompanionPlugin, createZipArchive, downloadFile, AI_PROVIDER_ADAPTERS, discoverCustomModels } from '../utils';
+import { PromptLab } from './PromptLab';
 import Toastify from 'toastify-js';
 
 interface ConfigPanelProps {
   onSave: (config: AppConfig) => void;
   initialConfig: AppConfig;
+  posts?: BlogPost[]; // Sample pool for prompt A/B runs
 }
 
-export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig }) => {
+export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig, posts = [] }) => {
   const [config, setConfig] = useState<AppConfig>({
       ...initialConfig,
       autoPublishThreshold: initialConfig.autoPublishThreshold || 85,
@@ -18,22 +21,20 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
       aiProvider: initialConfig.aiProvider || 'gemini',
       aiModel: initialConfig.aiModel || 'gemini-2.5-flash',
       aiApiKey: initialConfig.aiApiKey || '',
-      amazonAccessKey: SecureStorage.decrypt(initialConfig.amazonAccessKey || ''),
-      amazonSecretKey: SecureStorage.decrypt(initialConfig.amazonSecretKey || ''),
-      amazonRegion: initialConfig.amazonRegion || 'us-east-1'
+      amazonAccessKey: initialConfig.amazonAccessKey || '',
+      amazonSecretKey: initialConfig.amazonSecretKey || '',
+      marketplace: initialConfig.marketplace || 'US',
+      amazonTags: initialConfig.amazonTags || {}
   });
   
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'wp' | 'amazon' | 'ai' | 'sota'>('wp');
+  const [activeTab, setActiveTab] = useState<'wp' | 'amazon' | 'ai' | 'prompts' | 'relay' | 'sota'>('wp');
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave({
-        ...config,
-        amazonAccessKey: SecureStorage.encrypt(config.amazonAccessKey),
-        amazonSecretKey: SecureStorage.encrypt(config.amazonSecretKey)
-    });
+    // Credentials stay plain in memory; ProfileStore encrypts them on save
+    onSave(config);
     setIsOpen(false);
   };
 
@@ -49,6 +50,36 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
       }
   };
 
+  const [relayStatus, setRelayStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
+
+  const handleTestRelay = async () => {
+      setRelayStatus('testing');
+      const result = await testRelay(config);
+      setRelayStatus(result.success ? 'success' : 'error');
+      Toastify({ text: result.message, duration: result.success ? 3000 : 8000, backgroundColor: result.success ? "#10b981" : "#ef4444" }).showToast();
+  };
+
+  const [customModels, setCustomModels] = useState<string[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+
+  const handleDiscoverModels = async () => {
+      setIsDiscovering(true);
+      try {
+          const models = await discoverCustomModels(config.aiBaseUrl || '', config.aiApiKey);
+          setCustomModels(models);
+          if (models.length && !models.includes(config.aiModel)) setConfig({ ...config, aiModel: models[0] });
+          Toastify({ text: `Found ${models.length} models`, backgroundColor: "#10b981" }).showToast();
+      } catch (e: any) {
+          Toastify({ text: e.message, duration: 8000, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setIsDiscovering(false);
+      }
+  };
+
+  const fallbacks = config.aiFallbacks || [];
+  const updateFallback = (index: number, patch: Partial<AIProviderSettings>) =>
+      setConfig({ ...config, aiFallbacks: fallbacks.map((f, i) => i === index ? { ...f, ...patch } : f) });
+
   const currentOrigin = typeof window !== 'undefined' ? window.location.origin : 'Current URL';
 
   return (
@@ -70,6 +101,8 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
              <button onClick={() => setActiveTab('wp')} className={`flex-1 py-3 text-sm font-bold uppercase tracking-wider ${activeTab === 'wp' ? 'text-brand-500 border-b-2 border-brand-500' : 'text-gray-500 hover:text-gray-300'}`}>WordPress</button>
              <button onClick={() => setActiveTab('amazon')} className={`flex-1 py-3 text-sm font-bold uppercase tracking-wider ${activeTab === 'amazon' ? 'text-brand-500 border-b-2 border-brand-500' : 'text-gray-500 hover:text-gray-300'}`}>Amazon API</button>
              <button onClick={() => setActiveTab('ai')} className={`flex-1 py-3 text-sm font-bold uppercase tracking-wider ${activeTab === 'ai' ? 'text-brand-500 border-b-2 border-brand-500' : 'text-gray-500 hover:text-gray-300'}`}>AI Brain</button>
+             <button onClick={() => setActiveTab('prompts')} className={`flex-1 py-3 text-sm font-bold uppercase tracking-wider ${activeTab === 'prompts' ? 'text-brand-500 border-b-2 border-brand-500' : 'text-gray-500 hover:text-gray-300'}`}>Prompts</button>
+             <button onClick={() => setActiveTab('relay')} className={`flex-1 py-3 text-sm font-bold uppercase tracking-wider ${activeTab === 'relay' ? 'text-brand-500 border-b-2 border-brand-500' : 'text-gray-500 hover:text-gray-300'}`}>Relay</button>
              <button onClick={() => setActiveTab('sota')} className={`flex-1 py-3 text-sm font-bold uppercase tracking-wider ${activeTab === 'sota' ? 'text-brand-500 border-b-2 border-brand-500' : 'text-gray-500 hover:text-gray-300'}`}>SOTA</button>
           </div>
 
@@ -147,20 +180,34 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
                         <input type="password" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-brand-500 outline-none" placeholder="Secret..." value={config.amazonSecretKey} onChange={e => setConfig({...config, amazonSecretKey: e.target.value})} />
                     </div>
                     <div>
-                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Region</label>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Marketplace</label>
                         <select 
                             className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none appearance-none"
-                            value={config.amazonRegion}
-                            onChange={e => setConfig({...config, amazonRegion: e.target.value})}
+                            value={config.marketplace}
+                            onChange={e => setConfig({...config, marketplace: e.target.value as MarketplaceId})}
                         >
-                            <option value="us-east-1">United States (us-east-1)</option>
-                            <option value="eu-west-1">United Kingdom (eu-west-1)</option>
-                            <option value="eu-central-1">Germany (eu-central-1)</option>
-                            <option value="eu-west-3">France (eu-west-3)</option>
-                            <option value="eu-south-1">Italy (eu-south-1)</option>
-                            <option value="eu-west-2">Spain (eu-west-2)</option>
+                            {Object.values(MARKETPLACES).map(m => (
+                                <option key={m.id} value={m.id}>{m.label} ({m.domain}, {m.currency})</option>
+                            ))}
                         </select>
                     </div>
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Per-Marketplace Tags</label>
+                        <p className="text-[10px] text-gray-500 mb-2">Optional. Empty fields fall back to the Associate Tag above.</p>
+                        <div className="grid grid-cols-2 gap-2">
+                            {Object.values(MARKETPLACES).map(m => (
+                                <div key={m.id} className="flex items-center gap-2 bg-dark-950 border border-dark-700 rounded-lg px-3 py-2">
+                                    <span className="text-[10px] font-bold text-gray-500 w-6">{m.id}</span>
+                                    <input type="text" className="flex-1 min-w-0 bg-transparent text-white text-xs outline-none font-mono" placeholder={config.amazonTag || 'tag-20'} value={config.amazonTags?.[m.id] || ''} onChange={e => setConfig({...config, amazonTags: { ...config.amazonTags, [m.id]: e.target.value }})} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Endpoint Override (Optional)</label>
+                        <input type="url" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-brand-500 outline-none font-mono text-sm" placeholder="http://localhost:8788" value={config.amazonApiEndpoint || ''} onChange={e => setConfig({...config, amazonApiEndpoint: e.target.value})} />
+                        <p className="text-[10px] text-gray-500 mt-1">Leave empty to use the official PA-API host through the relay (Settings &gt; Relay). For testing, point it at the mock server from <code>npm run mock:paapi</code>.</p>
+                    </div>
                 </div>
             )}
 
@@ -181,15 +228,35 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
                             <option value="anthropic">Anthropic (Claude)</option>
                             <option value="groq">Groq (Ultra Fast)</option>
                             <option value="openrouter">OpenRouter (Universal)</option>
+                            <option value="custom">Custom (Ollama, llama.cpp, OpenAI-compatible)</option>
                         </select>
                     </div>
 
+                    {config.aiProvider === 'custom' && (
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Base URL</label>
+                        <div className="flex gap-2">
+                            <input 
+                                type="url" 
+                                className="flex-1 bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none font-mono text-sm" 
+                                placeholder="http://localhost:11434/v1" 
+                                value={config.aiBaseUrl || ''}
+                                onChange={e => setConfig({...config, aiBaseUrl: e.target.value})}
+                            />
+                            <button type="button" onClick={handleDiscoverModels} disabled={isDiscovering || !config.aiBaseUrl} className="bg-dark-800 hover:bg-dark-700 disabled:opacity-40 text-gray-300 text-xs font-bold px-4 rounded-xl border border-dark-700 whitespace-nowrap">
+                                {isDiscovering ? <i className="fa-solid fa-spinner fa-spin"></i> : <><i className="fa-solid fa-magnifying-glass mr-1"></i> Models</>}
+                            </button>
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">The server must allow this origin (Ollama: set OLLAMA_ORIGINS). JSON mode is detected on first use.</p>
+                    </div>
+                    )}
+
                     <div>
                         <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">API Key</label>
                         <input 
                             type="password" 
                             className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none" 
-                            placeholder={config.aiProvider === 'gemini' ? "Use default or enter key..." : "sk-..."}
+                            placeholder={config.aiProvider === 'gemini' ? "Use default or enter key..." : config.aiProvider === 'custom' ? "Optional" : "sk-..."}
                             value={config.aiApiKey} 
                             onChange={e => setConfig({...config, aiApiKey: e.target.value})} 
                         />
@@ -197,11 +264,12 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
 
                     <div>
                         <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Model ID</label>
-                        {['groq', 'openrouter'].includes(config.aiProvider) ? (
+                        {['groq', 'openrouter', 'custom'].includes(config.aiProvider) ? (
                             <input 
                                 type="text" 
+                                list={config.aiProvider === 'custom' ? 'custom-ai-models' : undefined}
                                 className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none" 
-                                placeholder="e.g. llama3-70b-8192" 
+                                placeholder={config.aiProvider === 'custom' ? "e.g. llama3.1:8b" : "e.g. llama3-70b-8192"} 
                                 value={config.aiModel}
                                 onChange={e => setConfig({...config, aiModel: e.target.value})}
                             />
@@ -213,13 +281,89 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
                             >
                                 {config.aiProvider === 'gemini' && <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>}
                                 {config.aiProvider === 'openai' && <option value="gpt-4-turbo">GPT-4 Turbo</option>}
-                                {config.aiProvider === 'anthropic' && <option value="claude-3-opus-20240229">Claude 3 Opus</option>}
+                                {config.aiProvider === 'anthropic' && <option value="claude-sonnet-4-5">Claude Sonnet 4.5</option>}
                             </select>
                         )}
+                        <datalist id="custom-ai-models">{customModels.map(m => <option key={m} value={m} />)}</datalist>
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between mb-1">
+                            <label className="text-xs text-brand-500 font-bold uppercase block">Fallback Chain</label>
+                            <button type="button" onClick={() => setConfig({ ...config, aiFallbacks: [...fallbacks, { provider: 'gemini', apiKey: '', model: AI_PROVIDER_ADAPTERS.gemini.defaultModel }] })} className="text-[10px] font-bold text-brand-400 hover:text-brand-300 uppercase">
+                                <i className="fa-solid fa-plus mr-1"></i> Add Fallback
+                            </button>
+                        </div>
+                        <p className="text-[10px] text-gray-500 mb-2">Tried in order when the provider above errors or rate-limits.</p>
+                        {fallbacks.map((f, i) => (
+                            <div key={i} className="mb-2">
+                                <div className="flex gap-2">
+                                    <select value={f.provider} onChange={e => { const provider = e.target.value as AIProvider; updateFallback(i, { provider, model: AI_PROVIDER_ADAPTERS[provider].defaultModel }); }} className="bg-dark-950 border border-dark-700 rounded-lg px-2 py-2 text-white text-xs outline-none">
+                                        {Object.values(AI_PROVIDER_ADAPTERS).map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                                    </select>
+                                    <input type="text" value={f.model} onChange={e => updateFallback(i, { model: e.target.value })} placeholder={AI_PROVIDER_ADAPTERS[f.provider].defaultModel} className="flex-1 min-w-0 bg-dark-950 border border-dark-700 rounded-lg px-2 py-2 text-white text-xs font-mono outline-none" />
+                                    <input type="password" value={f.apiKey} onChange={e => updateFallback(i, { apiKey: e.target.value })} placeholder="API key" className="w-28 bg-dark-950 border border-dark-700 rounded-lg px-2 py-2 text-white text-xs outline-none" />
+                                    <button type="button" onClick={() => setConfig({ ...config, aiFallbacks: fallbacks.filter((_, j) => j !== i) })} className="text-gray-500 hover:text-red-400 px-1"><i className="fa-solid fa-times"></i></button>
+                                </div>
+                                {f.provider === 'custom' && (
+                                    <input type="url" value={f.baseUrl || ''} onChange={e => updateFallback(i, { baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className="w-full mt-1 bg-dark-950 border border-dark-700 rounded-lg px-2 py-2 text-white text-xs font-mono outline-none" />
+                                )}
+                            </div>
+                        ))}
                     </div>
                 </div>
             )}
             
+            {/* PROMPTS TAB */}
+            {activeTab === 'prompts' && (
+                <PromptLab config={config} posts={posts} onChange={patch => setConfig(prev => ({ ...prev, ...patch }))} />
+            )}
+            
+            {/* RELAY TAB */}
+            {activeTab === 'relay' && (
+                <div className="space-y-6 animate-fade-in">
+                    <div className="flex justify-between items-center mb-4">
+                        <p className="text-gray-400 text-sm">Fetch sitemaps and pages through your own relay.</p>
+                        <button type="button" onClick={handleTestRelay} className={`text-xs font-bold px-3 py-1 rounded border ${relayStatus === 'success' ? 'border-green-500 text-green-500' : relayStatus === 'error' ? 'border-red-500 text-red-400' : 'border-gray-600 text-gray-400'}`}>
+                            {relayStatus === 'testing' ? <i className="fa-solid fa-spinner fa-spin"></i> : relayStatus === 'success' ? 'Relay OK' : 'Test Relay'}
+                        </button>
+                    </div>
+
+                    <div className="bg-dark-950 border border-dark-700 p-4 rounded-xl text-xs text-gray-400 leading-relaxed">
+                        Run <code className="text-brand-400">npm run relay</code> on a server you control with <code className="text-brand-400">RELAY_SECRET</code> and <code className="text-brand-400">RELAY_ALLOWED_HOSTS</code> set (your site, <code>*.amazon.com</code>, <code>amzn.to</code> and any AI provider hosts). See the README.
+                    </div>
+
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Relay URL</label>
+                        <input type="url" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-brand-500 outline-none" placeholder="https://relay.mysite.com" value={config.relayUrl || ''} onChange={e => setConfig({...config, relayUrl: e.target.value})} />
+                    </div>
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Shared Secret</label>
+                        <input type="password" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none" value={config.relaySecret || ''} onChange={e => setConfig({...config, relaySecret: e.target.value})} />
+                    </div>
+
+                    <div className="flex items-center justify-between p-4 bg-dark-950 border border-dark-700 rounded-xl">
+                        <div>
+                            <div className="text-sm font-bold text-white mb-1">Route AI Calls</div>
+                            <div className="text-xs text-gray-500">Send Gemini, OpenAI, Anthropic, Groq and OpenRouter requests through the relay. Custom endpoints stay direct.</div>
+                        </div>
+                        <button type="button" onClick={() => setConfig({...config, relayAiCalls: !config.relayAiCalls})} className={`w-12 h-6 rounded-full transition-colors relative shrink-0 ${config.relayAiCalls ? 'bg-green-500' : 'bg-gray-700'}`}>
+                            <div className={`w-4 h-4 bg-white rounded-full absolute top-1 transition-all ${config.relayAiCalls ? 'left-7' : 'left-1'}`}></div>
+                        </button>
+                    </div>
+
+                    <div className="flex items-center justify-between p-4 bg-dark-950 border border-yellow-900/50 rounded-xl">
+                        <div>
+                            <div className="text-sm font-bold text-white mb-1">Allow Public Proxies</div>
+                            <div className="text-xs text-gray-500">Fall back to corsproxy.io, allorigins and thingproxy. They see every URL fetched and are often down.</div>
+                        </div>
+                        <button type="button" onClick={() => setConfig({...config, allowPublicProxies: !config.allowPublicProxies})} className={`w-12 h-6 rounded-full transition-colors relative shrink-0 ${config.allowPublicProxies ? 'bg-yellow-500' : 'bg-gray-700'}`}>
+                            <div className={`w-4 h-4 bg-white rounded-full absolute top-1 transition-all ${config.allowPublicProxies ? 'left-7' : 'left-1'}`}></div>
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* SOTA TAB */}
             {activeTab === 'sota' && (
                 <div className="space-y-6 animate-fade-in">
@@ -245,6 +389,40 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
                         </button>
                     </div>
 
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Default Box Template</label>
+                        <select value={config.defaultBoxTemplate || 'glass'} onChange={e => setConfig({...config, defaultBoxTemplate: e.target.value})} className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none appearance-none">
+                            {getProductBoxTemplates().map(t => <option key={t.id} value={t.id}>{t.label}: {t.description}</option>)}
+                        </select>
+                        <p className="text-[10px] text-gray-500 mt-1">Individual posts can pick a different template in the editor.</p>
+                    </div>
+                    <div className="flex items-center justify-between bg-dark-950 p-4 rounded-xl border border-dark-800">
+                        <div>
+                            <div className="text-sm font-bold text-white mb-1">Auto Disclosure</div>
+                            <div className="text-xs text-gray-500">Add the affiliate disclosure at the top of any post that gets a box.</div>
+                        </div>
+                        <button type="button" onClick={() => setConfig({...config, autoDisclosure: !config.autoDisclosure})} className={`w-12 h-6 rounded-full transition-colors relative ${config.autoDisclosure ? 'bg-green-500' : 'bg-gray-700'}`}>
+                            <div className={`w-4 h-4 bg-white rounded-full absolute top-1 transition-all ${config.autoDisclosure ? 'left-7' : 'left-1'}`}></div>
+                        </button>
+                    </div>
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Disclosure Text</label>
+                        <textarea rows={3} value={config.disclosureText || ''} placeholder={DEFAULT_DISCLOSURE_TEXT} onChange={e => setConfig({...config, disclosureText: e.target.value})} className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white text-sm focus:ring-2 focus:ring-brand-500 outline-none" />
+                    </div>
+                    <div>
+                        <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Box Output</label>
+                        <select value={config.boxOutputMode || 'html'} onChange={e => setConfig({...config, boxOutputMode: e.target.value as BoxOutputMode})} className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none appearance-none">
+                            <option value="html">Inline HTML (works everywhere)</option>
+                            <option value="block">AmzPilot block (needs companion plugin)</option>
+                            <option value="shortcode">[amzpilot_product] shortcode (needs companion plugin)</option>
+                        </select>
+                        <div className="flex items-center justify-between gap-3 mt-2">
+                            <p className="text-[10px] text-gray-500">Block and shortcode boxes survive kses and are styled site-wide by the plugin's stylesheet.</p>
+                            <button type="button" onClick={() => downloadFile('amzpilot-blocks.zip', createZipArchive(generateCompanionPlugin()), 'application/zip')} className="shrink-0 bg-dark-800 hover:bg-dark-700 text-gray-300 text-[11px] font-bold px-3 py-2 rounded-lg border border-dark-700">
+                                <i className="fa-solid fa-plug mr-1"></i> Download Plugin
+                            </button>
+                        </div>
+                    </div>
                     <div>
                         <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Auto-Publish Threshold ({config.autoPublishThreshold}%)</label>
                         <input type="range" min="50" max="100" className="w-full accent-brand-500" value={config.autoPublishThreshold} onChange={e => setConfig({...config, autoPublishThreshold: parseInt(e.target.value)})} />
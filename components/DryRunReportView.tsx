@@ -0,0 +1,75 @@
+import React, { useState, useMemo } from 'react';
+import { DryRunReport, DryRunEntry } from '../types';
+import { exportDryRunCsv, exportDryRunHtml, downloadFile } from '../utils';
+
+interface DryRunReportViewProps {
+  report: DryRunReport;
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<DryRunEntry['outcome'], string> = {
+  would_publish: 'bg-green-900/40 text-green-300',
+  needs_review: 'bg-yellow-900/40 text-yellow-300',
+  skipped: 'bg-dark-800 text-gray-400',
+};
+
+export const DryRunReportView: React.FC<DryRunReportViewProps> = ({ report, onClose }) => {
+  const [filter, setFilter] = useState<DryRunEntry['outcome'] | 'all'>('all');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const entries = useMemo(() => filter === 'all' ? report.entries : report.entries.filter(e => e.outcome === filter), [report, filter]);
+  const fileStem = `amzpilot-dry-run-${new Date(report.createdAt).toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-dark-900 border border-dark-800 w-full max-w-5xl rounded-2xl shadow-2xl flex flex-col h-[90vh] overflow-hidden">
+        <div className="flex justify-between items-center p-5 border-b border-dark-800 gap-3">
+          <h2 className="text-lg font-black text-white flex-1"><i className="fa-solid fa-flask text-brand-500 mr-2"></i> Dry Run Report</h2>
+          <button onClick={() => downloadFile(`${fileStem}.html`, exportDryRunHtml(report), 'text/html')} className="bg-dark-800 hover:bg-dark-700 text-gray-300 text-xs font-bold px-3 py-2 rounded-lg border border-dark-700"><i className="fa-solid fa-file-code mr-1"></i> HTML</button>
+          <button onClick={() => downloadFile(`${fileStem}.csv`, exportDryRunCsv(report), 'text/csv')} className="bg-dark-800 hover:bg-dark-700 text-gray-300 text-xs font-bold px-3 py-2 rounded-lg border border-dark-700"><i className="fa-solid fa-file-csv mr-1"></i> CSV</button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white ml-2"><i className="fa-solid fa-times text-xl"></i></button>
+        </div>
+
+        <div className="flex gap-1 px-5 pt-3 border-b border-dark-800">
+            {(['all', 'would_publish', 'needs_review', 'skipped'] as const).map(f => (
+                <button key={f} onClick={() => setFilter(f)} className={`px-3 py-2 text-[11px] font-bold uppercase border-b-2 ${filter === f ? 'border-brand-500 text-white' : 'border-transparent text-gray-500'}`}>
+                    {f.replace('_', ' ')} ({f === 'all' ? report.entries.length : report.entries.filter(e => e.outcome === f).length})
+                </button>
+            ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-3">
+            {entries.map((e, i) => (
+                <div key={`${e.url}-${i}`} className="bg-dark-950 border border-dark-800 rounded-xl overflow-hidden">
+                    <div onClick={() => setExpanded(expanded === i ? null : i)} className="p-4 flex items-center gap-4 cursor-pointer hover:bg-dark-900">
+                        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded whitespace-nowrap ${OUTCOME_STYLES[e.outcome]}`}>{e.outcome.replace('_', ' ')}</span>
+                        <div className="flex-1 min-w-0">
+                            <div className="text-sm font-bold text-white truncate">{e.postTitle}</div>
+                            <div className="text-[11px] text-gray-500 truncate">
+                                {e.product ? `${e.product.asin} · ${e.product.title} · ${e.product.price}` : e.reason}
+                            </div>
+                        </div>
+                        {e.confidence !== undefined && <span className="text-xs font-mono text-brand-400">{e.confidence}%</span>}
+                        {e.diff && <i className={`fa-solid fa-chevron-down text-gray-600 text-xs transition-transform ${expanded === i ? 'rotate-180' : ''}`}></i>}
+                    </div>
+                    {expanded === i && e.diff && (
+                        <div className="border-t border-dark-800">
+                            <div className="px-4 py-2 text-[11px] text-gray-400">
+                                {e.reason && <div className="text-yellow-500 mb-1">{e.reason}</div>}
+                                <span className="font-bold uppercase text-gray-500">{e.insertionMethod?.replace('_', ' ')}</span> · {e.insertionPoint}
+                            </div>
+                            <pre className="max-h-80 overflow-auto p-4 text-[11px] font-mono leading-relaxed bg-[#1e1e1e]">
+                                {e.diff.map((d, j) => (
+                                    <div key={j} className={d.type === 'add' ? 'text-green-300' : 'text-red-300'}>{d.type === 'add' ? '+ ' : '- '}{d.text}</div>
+                                ))}
+                            </pre>
+                        </div>
+                    )}
+                </div>
+            ))}
+            {entries.length === 0 && <div className="text-center text-xs text-gray-500 py-10">Nothing in this category.</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState, useMemo } from 'react';
+import { AppConfig, BlogPost, AffiliateLinkStatus, LinkAuditResult } from '../types';
+import { runLinkAudit, runLinkRewrite } from '../utils';
+import Toastify from 'toastify-js';
+
+interface LinkAuditViewProps {
+  posts: BlogPost[];
+  config: AppConfig;
+  onUpdatePost: (url: string, patch: Partial<BlogPost>) => void;
+}
+
+const STATUS_META: Record<AffiliateLinkStatus, { label: string; style: string }> = {
+  tagged: { label: 'Tagged', style: 'bg-green-900/40 text-green-300' },
+  wrong_tag: { label: 'Wrong Tag', style: 'bg-orange-900/40 text-orange-300' },
+  untagged: { label: 'Untagged', style: 'bg-yellow-900/40 text-yellow-300' },
+  dead_asin: { label: 'Dead ASIN', style: 'bg-red-900/40 text-red-300' },
+  unresolved: { label: 'Unresolved', style: 'bg-dark-800 text-gray-400' },
+};
+
+const needsRewrite = (post: BlogPost) => !!post.linkAudit?.links.some(l => l.status === 'wrong_tag' || l.status === 'untagged');
+
+export const LinkAuditView: React.FC<LinkAuditViewProps> = ({ posts, config, onUpdatePost }) => {
+  // Anything the scan saw an Amazon link on, whether or not it pays us
+  const targets = useMemo(() => posts.filter(p => p.monetizationStatus === 'monetized' || p.linkAudit), [posts]);
+  const audited = useMemo(() => targets.filter(p => p.linkAudit), [targets]);
+  const [filter, setFilter] = useState<AffiliateLinkStatus | 'all'>('all');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const counts = useMemo(() => {
+      const c: Record<AffiliateLinkStatus, number> = { tagged: 0, wrong_tag: 0, untagged: 0, dead_asin: 0, unresolved: 0 };
+      audited.forEach(p => p.linkAudit!.links.forEach(l => { c[l.status] += l.count; }));
+      return c;
+  }, [audited]);
+
+  const visible = useMemo(() => filter === 'all'
+      ? audited.filter(p => p.linkAudit!.links.length > 0)
+      : audited.filter(p => p.linkAudit!.links.some(l => l.status === filter)), [audited, filter]);
+
+  const storeResult = (result: LinkAuditResult) => {
+      if (result.error) return;
+      const patch: Partial<BlogPost> = { linkAudit: { auditedAt: Date.now(), links: result.links } };
+      // Amazon links that pay someone else leave the post open for autopilot
+      if (result.links.length > 0 && !result.links.some(l => l.status === 'tagged')) patch.monetizationStatus = 'opportunity';
+      onUpdatePost(result.url, patch);
+  };
+
+  const handleAudit = async () => {
+      setProgress({ done: 0, total: targets.length });
+      try {
+          const results = await runLinkAudit(config, targets, (result) => {
+              storeResult(result);
+              setProgress(p => p && { ...p, done: p.done + 1 });
+          });
+          const failed = results.filter(r => r.error).length;
+          Toastify({ text: `Audited ${results.length - failed} posts` + (failed ? `, ${failed} failed` : ''), backgroundColor: failed ? "#f59e0b" : "#10b981" }).showToast();
+      } catch (e: any) {
+          Toastify({ text: e.message, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setProgress(null);
+      }
+  };
+
+  const handleRewrite = async () => {
+      const toFix = audited.filter(needsRewrite);
+      if (toFix.length === 0) return;
+      if (!confirm(`Rewrite wrong and missing tags to your associate tag on ${toFix.length} posts and push the changes?`)) return;
+      setProgress({ done: 0, total: toFix.length });
+      try {
+          const results = await runLinkRewrite(config, toFix, (result) => {
+              storeResult(result);
+              setProgress(p => p && { ...p, done: p.done + 1 });
+          });
+          const rewritten = results.reduce((n, r) => n + (r.rewritten || 0), 0);
+          Toastify({ text: `Rewrote ${rewritten} links on ${results.filter(r => r.rewritten).length} posts`, backgroundColor: "#10b981" }).showToast();
+      } catch (e: any) {
+          Toastify({ text: e.message, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setProgress(null);
+      }
+  };
+
+  return (
+    <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleAudit} disabled={!!progress || targets.length === 0} className="bg-brand-600 hover:bg-brand-500 disabled:opacity-40 text-white text-xs font-bold px-4 py-2 rounded-lg">
+                {progress
+                    ? <><i className="fa-solid fa-spinner fa-spin mr-1"></i> {progress.done}/{progress.total}</>
+                    : <><i className="fa-solid fa-link mr-1"></i> Audit {targets.length} Posts</>}
+            </button>
+            <button onClick={handleRewrite} disabled={!!progress || !audited.some(needsRewrite)} className="bg-dark-800 hover:bg-dark-700 disabled:opacity-40 text-gray-300 text-xs font-bold px-4 py-2 rounded-lg border border-dark-700">
+                <i className="fa-solid fa-pen-to-square mr-1"></i> Rewrite to {config.amazonTag || 'my tag'}
+            </button>
+            <div className="flex-1"></div>
+            {(['all', ...Object.keys(STATUS_META)] as (AffiliateLinkStatus | 'all')[]).map(s => (
+                <button key={s} onClick={() => setFilter(s)} className={`text-[10px] font-bold uppercase px-2 py-1 rounded border ${filter === s ? 'border-brand-500 text-white' : 'border-dark-700 text-gray-500'}`}>
+                    {s === 'all' ? 'All' : `${STATUS_META[s].label} (${counts[s]})`}
+                </button>
+            ))}
+        </div>
+
+        {audited.length === 0 && (
+            <div className="text-center py-20 text-gray-600">
+                <i className="fa-solid fa-link text-4xl mb-4 opacity-50"></i>
+                <p>Audit follows every Amazon link (including amzn.to) and checks the tag and ASIN.</p>
+            </div>
+        )}
+
+        {visible.map(post => (
+            <div key={post.url} className="bg-dark-900 border border-dark-800 rounded-xl p-4">
+                <div className="flex items-center gap-3 mb-2">
+                    <div className="text-sm font-bold text-white truncate flex-1">{post.title}</div>
+                    <span className="text-[10px] text-gray-600">{new Date(post.linkAudit!.auditedAt).toLocaleString()}</span>
+                </div>
+                {post.linkAudit!.links.filter(l => filter === 'all' || l.status === filter).map(l => (
+                    <div key={l.href} className="flex items-center gap-3 text-[11px] py-1">
+                        <span className={`font-bold uppercase px-2 py-0.5 rounded w-24 text-center shrink-0 ${STATUS_META[l.status].style}`}>{STATUS_META[l.status].label}</span>
+                        <span className="font-mono text-gray-400 w-24 shrink-0">{l.asin || '—'}</span>
+                        <span className="font-mono text-gray-500 w-28 shrink-0 truncate">{l.tag || 'no tag'}</span>
+                        <a href={l.resolvedUrl || l.href} target="_blank" rel="noopener noreferrer" className="text-gray-600 hover:text-brand-400 truncate flex-1">{l.href}</a>
+                        {l.count > 1 && <span className="text-gray-500">×{l.count}</span>}
+                    </div>
+                ))}
+            </div>
+        ))}
+    </div>
+  );
+};
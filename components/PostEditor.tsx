@@ -1,7 +1,8 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { BlogPost, ProductDetails, InsertionMethod, AppConfig } from '../types';
-import { generateProductBoxHtml, insertIntoContent, pushToWordPress, fetchRawPostContent, analyzeContentAndFindProduct } from '../utils';
+import { BlogPost, ProductDetails, InsertionMethod, AppConfig, ProductBoxTemplateId, BlockTarget } from '../types';
+import { applyProductsToContent, pushToWordPress, fetchRawPostContent, analyzeContentAndFindProduct, extractProductBoxes, stripProductBoxes, getProductBoxTemplates, getProductBoxTemplate, resolveBoxTemplate, listBlockTargets, expandProductBoxesForPreview } from '../utils';
+import { PostHistory } from './PostHistory';
 import Toastify from 'toastify-js';
 
 interface PostEditorProps {
@@ -10,19 +11,25 @@ interface PostEditorProps {
     onBack: () => void;
     allPosts?: BlogPost[];
     onSwitchPost?: (post: BlogPost) => void;
+    onUpdatePost?: (url: string, patch: Partial<BlogPost>) => void;
 }
 
-export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, allPosts, onSwitchPost }) => {
+export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, allPosts, onSwitchPost, onUpdatePost }) => {
   const [product, setProduct] = useState<ProductDetails | null>(post.proposedProduct || null);
   const [detectedProducts, setDetectedProducts] = useState<ProductDetails[]>(post.detectedProducts || []);
   const [rawContent, setRawContent] = useState<string>(''); // Pure content WITHOUT the box
   const [currentId, setCurrentId] = useState<number>(post.id); 
   const [insertion, setInsertion] = useState<InsertionMethod>('smart_middle');
+  const [blockTarget, setBlockTarget] = useState<BlockTarget | null>(null); // Exact block position, overrides the strategy
+  const [template, setTemplate] = useState<ProductBoxTemplateId>(resolveBoxTemplate(config, post));
+  const [disabledAsins, setDisabledAsins] = useState<string[]>([]);
+  const [multiInsert, setMultiInsert] = useState(post.postType === 'listicle'); // One box per detected product at its heading
   const [status, setStatus] = useState<'idle' | 'fetching' | 'searching' | 'analyzing' | 'pushing'>('idle');
   const [viewTab, setViewTab] = useState<'visual' | 'code'>('visual');
   const [mobileTab, setMobileTab] = useState<'edit' | 'preview'>('edit');
   const [showNav, setShowNav] = useState(false);
   const [featuredImage, setFeaturedImage] = useState<string>('');
+  const [showHistory, setShowHistory] = useState(false);
 
   // Manual Overrides
   const [manualAsin, setManualAsin] = useState('');
@@ -39,17 +46,21 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
       setRawContent('');
       setCurrentId(post.id);
       setFeaturedImage('');
+      setTemplate(resolveBoxTemplate(config, post));
+      setDisabledAsins([]);
+      setMultiInsert(post.postType === 'listicle');
+      setBlockTarget(null);
       
       let isMounted = true;
       const init = async () => {
           setStatus('fetching');
           try {
-              const result = await fetchRawPostContent(config, post.id, post.url);
+              const result = await fetchRawPostContent(config, post.id, post.url, post.restBase);
               if (isMounted) {
                   // CLEAN IT IMMEDIATELY
-                  // We remove any existing amz-sota-box so we start fresh
-                  const clean = result.content.replace(/<!-- wp:html -->\s*<div id="amz-.*?" class="amz-sota-box[\s\S]*?<\/div>\s*<!-- \/wp:html -->/g, '')
-                                              .replace(/<div id="amz-.*?" class="amz-sota-box[\s\S]*?<\/div>/g, '');
+                  // Existing boxes come out of the content but their products are kept
+                  const existing = extractProductBoxes(result.content);
+                  const clean = stripProductBoxes(result.content);
                   
                   setRawContent(clean);
                   setCurrentId(result.resolvedId);
@@ -57,7 +68,14 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
                       setFeaturedImage(result.featuredImage);
                   }
                   
-                  if (!post.proposedProduct && result.content && detectedProducts.length === 0) {
+                  if (!post.proposedProduct && existing.length > 0) {
+                      const restored = existing.flatMap(b => b.products || [b.product]);
+                      setProduct(restored[0]);
+                      setManualAsin(existing[0].asin);
+                      if (restored.length > 1) setDetectedProducts(restored);
+                      if (existing.length > 1) setMultiInsert(true);
+                      if (!post.boxTemplate && existing[0].template) setTemplate(existing[0].template);
+                  } else if (!post.proposedProduct && result.content && detectedProducts.length === 0) {
                       setStatus('searching');
                       const analysis = await analyzeContentAndFindProduct(
                           result.title, 
@@ -73,8 +91,7 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
               if (isMounted) {
                   Toastify({ text: "API Error. Using Cached/Scraped Content.", backgroundColor: "#f59e0b" }).showToast();
                   // Fallback cleaning
-                  const clean = (post.content || '').replace(/<!-- wp:html -->\s*<div id="amz-.*?" class="amz-sota-box[\s\S]*?<\/div>\s*<!-- \/wp:html -->/g, '')
-                                                      .replace(/<div id="amz-.*?" class="amz-sota-box[\s\S]*?<\/div>/g, '');
+                  const clean = stripProductBoxes(post.content || '');
                   setRawContent(clean);
               }
           } finally {
@@ -85,6 +102,19 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
       return () => { isMounted = false; };
   }, [post.id, post.url]); 
 
+  // A restore pushed journaled content back to WordPress; show what is live now
+  const reloadContent = async () => {
+      setStatus('fetching');
+      try {
+          const result = await fetchRawPostContent(config, currentId, post.url, post.restBase, true);
+          setRawContent(stripProductBoxes(result.content));
+      } catch (e: any) {
+          Toastify({ text: `Could not reload the restored content: ${e.message}`, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setStatus('idle');
+      }
+  };
+
   const runAnalysis = async (mode: 'single' | 'multi' = 'single') => {
       if (!config.aiApiKey && !manualAsin) return Toastify({ text: "Missing AI API Key", backgroundColor: "#ef4444" }).showToast();
       
@@ -96,11 +126,13 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
               manualImage: manualImage.trim(),
               fallbackImage: featuredImage
           });
+          if (res.error) Toastify({ text: `AI response rejected: ${res.error}`, backgroundColor: "#f59e0b" }).showToast();
           if (mode === 'single') {
-              setProduct(res.product);
+              if (res.product.title) setProduct(res.product);
               if (manualAsin && res.product.asin === manualAsin) Toastify({ text: "ASIN Data Synced", backgroundColor: "#10b981" }).showToast();
           } else {
               setDetectedProducts(res.detectedProducts);
+              setDisabledAsins([]);
               if (res.detectedProducts.length > 0) setProduct(res.detectedProducts[0]);
               Toastify({ text: `Found ${res.detectedProducts.length} products!`, backgroundColor: "#10b981" }).showToast();
           }
@@ -133,17 +165,43 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
       Toastify({ text: "Product Box Removed", backgroundColor: "#f59e0b" }).showToast();
   };
 
-  // Computed HTML: Always takes Raw Content + inserts ONE box based on current product state
-  const html = useMemo(() => {
-     if (!product) return rawContent;
-     const box = generateProductBoxHtml(product, config.amazonTag, config.enableStickyBar);
-     return insertIntoContent(rawContent || '', box, insertion, product.contextSnippet);
-  }, [product, insertion, rawContent, config.amazonTag, config.enableStickyBar]);
+  // Enabled detected products in display order, with the one being edited swapped in
+  const enabledProducts = useMemo(() => detectedProducts
+      .filter(p => !disabledAsins.includes(p.asin))
+      .map(p => p.asin === product?.asin ? product : p), [detectedProducts, disabledAsins, product]);
+
+  // Computed HTML: Always takes Raw Content + inserts the box(es) based on current product state.
+  // Multi-product templates and per-heading mode use every enabled product; otherwise just the selected one.
+  // Per-heading mode places every box at its own heading, so an exact block position does not apply
+  const perHeading = multiInsert && !getProductBoxTemplate(template).multiProduct && enabledProducts.length > 1;
+  const rendered = useMemo(() => {
+     if (!product) return { html: rawContent, unmatched: 0 };
+     const useAll = (multiInsert || getProductBoxTemplate(template).multiProduct) && enabledProducts.length > 0;
+     return applyProductsToContent(config, rawContent || '', useAll ? enabledProducts : [product], insertion, template, perHeading ? undefined : blockTarget || undefined);
+  }, [perHeading, product, enabledProducts, multiInsert, template, insertion, blockTarget, rawContent, config.amazonTag, config.amazonTags, config.marketplace, config.enableStickyBar]);
+  const html = rendered.html;
+  const previewHtml = useMemo(() => expandProductBoxesForPreview(config, html), [html, config]);
+  const blockTargets = useMemo(() => listBlockTargets(rawContent || ''), [rawContent]);
+
+  const toggleProduct = (asin: string) => setDisabledAsins(prev => prev.includes(asin) ? prev.filter(a => a !== asin) : [...prev, asin]);
+
+  const moveProduct = (index: number, delta: number) => setDetectedProducts(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+  });
+
+  const handleTemplateChange = (id: ProductBoxTemplateId) => {
+      setTemplate(id);
+      onUpdatePost?.(post.url, { boxTemplate: id });
+  };
 
   const handlePush = async () => {
       setStatus('pushing');
       try {
-          const link = await pushToWordPress(config, currentId, html); 
+          const { link } = await pushToWordPress(config, currentId, html, post.restBase, { reason: 'manual', postTitle: post.title, product: product || undefined, insertionMethod: insertion }); 
           Toastify({ text: "Published Successfully!", backgroundColor: "#10b981" }).showToast();
           window.open(link, '_blank');
       } catch(e: any) {
@@ -173,6 +231,10 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
             </div>
         </div>
 
+        {showHistory && (
+            <PostHistory config={config} postId={currentId} onClose={() => setShowHistory(false)} onRestored={reloadContent} />
+        )}
+
         {/* Mobile Tab Switcher */}
         <div className="md:hidden flex border-b border-dark-800 bg-dark-900 z-30">
             <button onClick={() => setMobileTab('edit')} className={`flex-1 py-3 text-xs font-bold uppercase ${mobileTab === 'edit' ? 'text-brand-500 border-b-2 border-brand-500' : 'text-gray-500'}`}>Edit</button>
@@ -242,17 +304,33 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
                         </div>
                     ) : detectedProducts.length > 0 ? (
                         <div className="space-y-2">
-                            <label className="text-xs text-gray-500">Detected Products</label>
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs text-gray-500">Detected Products</label>
+                                {detectedProducts.length > 1 && (
+                                    <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase cursor-pointer">
+                                        <input type="checkbox" checked={multiInsert} onChange={e => setMultiInsert(e.target.checked)} className="accent-brand-500" />
+                                        Box per heading
+                                    </label>
+                                )}
+                            </div>
                             {detectedProducts.map((p, i) => (
-                                <div key={i} onClick={() => setProduct(p)} className={`p-3 rounded-lg border cursor-pointer flex items-center gap-3 ${product?.asin === p.asin ? 'bg-brand-900/20 border-brand-500' : 'bg-dark-950 border-dark-700'}`}>
+                                <div key={p.asin || i} onClick={() => setProduct(p)} className={`p-3 rounded-lg border cursor-pointer flex items-center gap-3 ${product?.asin === p.asin ? 'bg-brand-900/20 border-brand-500' : 'bg-dark-950 border-dark-700'} ${disabledAsins.includes(p.asin) ? 'opacity-40' : ''}`}>
+                                    <input type="checkbox" checked={!disabledAsins.includes(p.asin)} onChange={() => toggleProduct(p.asin)} onClick={e => e.stopPropagation()} className="accent-brand-500" />
                                     <img src={p.imageUrl} className="w-8 h-8 object-contain bg-white rounded" />
                                     <div className="flex-1 min-w-0">
                                         <div className="text-xs font-bold text-white truncate">{p.title}</div>
-                                        <div className="text-[10px] text-gray-500">{p.price}</div>
+                                        <div className="text-[10px] text-gray-500 truncate">{p.price}{p.contextSnippet ? ` · after "${p.contextSnippet}"` : ''}</div>
+                                    </div>
+                                    <div className="flex flex-col text-[10px] text-gray-500">
+                                        <button onClick={e => { e.stopPropagation(); moveProduct(i, -1); }} disabled={i === 0} className="hover:text-white disabled:opacity-20"><i className="fa-solid fa-chevron-up"></i></button>
+                                        <button onClick={e => { e.stopPropagation(); moveProduct(i, 1); }} disabled={i === detectedProducts.length - 1} className="hover:text-white disabled:opacity-20"><i className="fa-solid fa-chevron-down"></i></button>
                                     </div>
                                     {product?.asin === p.asin && <i className="fa-solid fa-check text-brand-500"></i>}
                                 </div>
                             ))}
+                            {rendered.unmatched > 0 && (
+                                <div className="text-[10px] text-yellow-500"><i className="fa-solid fa-triangle-exclamation mr-1"></i> {rendered.unmatched} product{rendered.unmatched > 1 ? 's' : ''} had no matching heading and went in at "{insertion.replace('_', ' ')}".</div>
+                            )}
                         </div>
                     ) : product ? (
                         <div className="space-y-4 animate-fade-in">
@@ -279,16 +357,41 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
                 <div className="mb-6">
                      <h3 className="text-xs font-bold text-brand-500 uppercase mb-3">Insertion Strategy</h3>
                      <div className="grid grid-cols-2 gap-2">
-                        {['top', 'smart_middle', 'bottom', 'after_h2', 'context_match'].map((m) => (
-                            <button key={m} onClick={() => setInsertion(m as any)} className={`p-3 rounded-xl text-xs font-bold border transition-all active:scale-95 ${insertion === m ? 'bg-brand-600 border-brand-500 text-white' : 'bg-dark-950 border-dark-700 text-gray-500'}`}>
+                        {['top', 'smart_middle', 'bottom', 'after_h2', 'context_match', 'before_conclusion'].map((m) => (
+                            <button key={m} onClick={() => { setInsertion(m as any); setBlockTarget(null); }} className={`p-3 rounded-xl text-xs font-bold border transition-all active:scale-95 ${insertion === m && !blockTarget ? 'bg-brand-600 border-brand-500 text-white' : 'bg-dark-950 border-dark-700 text-gray-500'}`}>
                                 {m === 'context_match' ? 'Smart Context' : m.replace('_', ' ')}
                             </button>
                         ))}
                      </div>
+                     {blockTargets.length > 0 && (
+                        <div className="mt-3">
+                            <label className="text-[10px] text-gray-500 uppercase font-bold">Exact Block Position</label>
+                            <select value={blockTarget && !perHeading ? JSON.stringify(blockTarget) : ''} disabled={perHeading} onChange={e => setBlockTarget(e.target.value ? JSON.parse(e.target.value) : null)} className="w-full bg-dark-950 border border-dark-700 rounded-xl p-3 text-xs text-white mt-1 disabled:opacity-40">
+                                <option value="">Use strategy above</option>
+                                {blockTargets.map(t => <option key={JSON.stringify(t.target)} value={JSON.stringify(t.target)}>{t.label}</option>)}
+                            </select>
+                            {perHeading && <p className="text-[10px] text-gray-500 mt-1">One box per product goes at its own heading.</p>}
+                        </div>
+                     )}
+                </div>
+
+                <div className="mb-6">
+                     <h3 className="text-xs font-bold text-brand-500 uppercase mb-3">Box Template</h3>
+                     <div className="space-y-2">
+                        {getProductBoxTemplates().map(t => (
+                            <button key={t.id} onClick={() => handleTemplateChange(t.id)} className={`w-full text-left p-3 rounded-xl border transition-all ${template === t.id ? 'bg-brand-900/20 border-brand-500' : 'bg-dark-950 border-dark-700 hover:border-dark-600'}`}>
+                                <div className="text-xs font-bold text-white">{t.label} {t.multiProduct && <span className="text-[10px] text-purple-300 ml-1">multi</span>}</div>
+                                <div className="text-[10px] text-gray-500">{t.description}</div>
+                            </button>
+                        ))}
+                     </div>
                 </div>
             </div>
 
             <div className="p-4 bg-dark-900 border-t border-dark-800 space-y-3 shrink-0 pb-safe">
+                <button onClick={() => setShowHistory(true)} disabled={!currentId} className="w-full bg-dark-800 hover:bg-dark-700 text-gray-300 font-bold text-xs py-2 rounded-lg border border-dark-700">
+                    <i className="fa-solid fa-clock-rotate-left mr-2"></i> Revision History
+                </button>
                 <button onClick={handlePush} disabled={status !== 'idle'} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg flex items-center justify-center gap-2 active:scale-95 transition-transform">
                     {status === 'pushing' ? <i className="fa-solid fa-spinner fa-spin"></i> : <i className="fa-solid fa-rocket"></i>}
                     <span>Update Live Post</span>
@@ -329,7 +432,7 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack, al
                              )}
 
                              {/* Typography Prose Class to mimic WordPress Theme perfectly */}
-                             <div className="prose prose-slate prose-lg max-w-none prose-headings:font-black prose-a:text-brand-600 prose-img:rounded-xl" dangerouslySetInnerHTML={{ __html: html }} />
+                             <div className="prose prose-slate prose-lg max-w-none prose-headings:font-black prose-a:text-brand-600 prose-img:rounded-xl" dangerouslySetInnerHTML={{ __html: previewHtml }} />
                         </div>
                     )}
                     
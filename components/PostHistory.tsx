@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { AppConfig, RevisionEntry } from '../types';
+import { RevisionStore, revertRevision } from '../utils';
+import Toastify from 'toastify-js';
+
+interface PostHistoryProps {
+  config: AppConfig;
+  postId: number;
+  onClose: () => void;
+  onRestored?: () => void;
+}
+
+export const PostHistory: React.FC<PostHistoryProps> = ({ config, postId, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<RevisionEntry[]>([]);
+  const [selected, setSelected] = useState<RevisionEntry | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const refresh = async () => {
+      const list = await RevisionStore.listForPost(config, postId);
+      setRevisions(list);
+      setSelected(prev => list.find(r => r.id === prev?.id) || list[0] || null);
+  };
+
+  useEffect(() => { refresh(); }, [postId]);
+
+  const handleRestore = async (entry: RevisionEntry) => {
+      setIsRestoring(true);
+      try {
+          let result = await revertRevision(config, entry);
+          if (result === 'conflict' && confirm("This post was edited after this push. Restoring will discard those later edits too. Continue?")) {
+              result = await revertRevision(config, entry, true);
+          }
+          if (result === 'reverted') {
+              Toastify({ text: "Original content restored", backgroundColor: "#10b981" }).showToast();
+              onRestored?.();
+          }
+          await refresh();
+      } catch (e: any) {
+          Toastify({ text: e.message, backgroundColor: "#ef4444" }).showToast();
+      } finally { setIsRestoring(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-dark-900 border border-dark-800 w-full max-w-5xl rounded-2xl shadow-2xl flex flex-col h-[85vh] overflow-hidden">
+        <div className="flex justify-between items-center p-5 border-b border-dark-800">
+          <h2 className="text-lg font-black text-white"><i className="fa-solid fa-clock-rotate-left text-brand-500 mr-2"></i> Revision History</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><i className="fa-solid fa-times text-xl"></i></button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+            <div className="w-72 border-r border-dark-800 overflow-y-auto">
+                {revisions.length === 0 && <div className="p-6 text-xs text-gray-500 text-center">No pushes recorded for this post yet.</div>}
+                {revisions.map(r => (
+                    <div key={r.id} onClick={() => setSelected(r)} className={`p-4 border-b border-dark-800 cursor-pointer ${selected?.id === r.id ? 'bg-brand-900/20 border-l-4 border-l-brand-500' : 'hover:bg-dark-800'}`}>
+                        <div className="flex items-center gap-2 mb-1">
+                            <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${r.reason === 'autopilot' ? 'bg-purple-900/40 text-purple-300' : r.reason === 'revert' ? 'bg-yellow-900/40 text-yellow-300' : 'bg-dark-800 text-gray-400'}`}>{r.reason}</span>
+                            {r.revertedAt && <span className="text-[10px] font-bold text-yellow-500 uppercase">Reverted</span>}
+                        </div>
+                        <div className="text-xs text-white">{new Date(r.timestamp).toLocaleString()}</div>
+                        {r.product?.title && <div className="text-[10px] text-gray-500 truncate mt-1">{r.product.asin} · {r.product.title}</div>}
+                        {r.insertionMethod && <div className="text-[10px] text-gray-600 mt-0.5">{r.insertionMethod.replace('_', ' ')}</div>}
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex-1 flex flex-col overflow-hidden">
+                {selected ? (
+                    <>
+                        <div className="p-4 border-b border-dark-800 flex items-center gap-3">
+                            <div className="text-xs text-gray-400 flex-1">
+                                <span className="text-green-400 font-bold">+{selected.diff.filter(d => d.type === 'add').length}</span>{' '}
+                                <span className="text-red-400 font-bold">-{selected.diff.filter(d => d.type === 'remove').length}</span> lines
+                            </div>
+                            <button onClick={() => handleRestore(selected)} disabled={isRestoring || !!selected.revertedAt} className="bg-yellow-600 hover:bg-yellow-500 disabled:opacity-40 text-white text-xs font-bold px-4 py-2 rounded-lg">
+                                {isRestoring ? <i className="fa-solid fa-spinner fa-spin"></i> : <><i className="fa-solid fa-rotate-left mr-1"></i> Restore Pre-Push Content</>}
+                            </button>
+                        </div>
+                        <pre className="flex-1 overflow-auto p-4 text-[11px] font-mono leading-relaxed bg-[#1e1e1e]">
+                            {selected.diff.map((d, i) => (
+                                <div key={i} className={d.type === 'add' ? 'text-green-300 bg-green-900/20' : 'text-red-300 bg-red-900/20'}>
+                                    <span className="text-gray-600 select-none inline-block w-12">{d.line}</span>{d.type === 'add' ? '+ ' : '- '}{d.text}
+                                </div>
+                            ))}
+                        </pre>
+                    </>
+                ) : (
+                    <div className="flex-1 flex items-center justify-center text-gray-600 text-sm">Select a revision</div>
+                )}
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState, useMemo } from 'react';
+import { AppConfig, BlogPost, PriceRefreshBox, PriceRefreshResult } from '../types';
+import { refreshProductBoxes, hasAmazonApi, hasProductBoxes } from '../utils';
+import Toastify from 'toastify-js';
+
+interface PriceRefreshPanelProps {
+  config: AppConfig;
+  posts: BlogPost[];
+  onUpdatePost: (url: string, patch: Partial<BlogPost>) => void;
+  onClose: () => void;
+}
+
+const BOX_STATUS_STYLES: Record<PriceRefreshBox['status'], string> = {
+  updated: 'bg-green-900/40 text-green-300',
+  unchanged: 'bg-dark-800 text-gray-400',
+  unavailable: 'bg-yellow-900/40 text-yellow-300',
+  dead: 'bg-red-900/40 text-red-300',
+};
+
+export const PriceRefreshPanel: React.FC<PriceRefreshPanelProps> = ({ config, posts, onUpdatePost, onClose }) => {
+  // Only posts with a box: ones we published, ones a previous refresh found boxes on, or scanned content that has one
+  const targets = useMemo(() => posts.filter(p => p.autoPilotStatus === 'published' || !!p.pricesRefreshedAt || hasProductBoxes(p.content)), [posts]);
+  const [results, setResults] = useState<PriceRefreshResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+      setIsRunning(true);
+      setResults([]);
+      try {
+          const all = await refreshProductBoxes(config, targets, (result) => {
+              setResults(prev => [...prev, result]);
+              const post = targets.find(p => p.url === result.url);
+              if (post && !result.error) {
+                  onUpdatePost(post.url, {
+                      deadAsins: result.boxes.filter(b => b.status === 'dead' || b.status === 'unavailable').map(b => b.asin),
+                      pricesRefreshedAt: Date.now(),
+                  });
+              }
+          });
+          const flagged = all.reduce((n, r) => n + r.boxes.filter(b => b.status === 'dead' || b.status === 'unavailable').length, 0);
+          Toastify({
+              text: `Updated ${all.filter(r => r.pushed).length} of ${all.length} posts` + (flagged ? `, ${flagged} ASINs need attention` : ''),
+              backgroundColor: flagged ? "#f59e0b" : "#10b981"
+          }).showToast();
+      } catch (e: any) {
+          Toastify({ text: e.message, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setIsRunning(false);
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-dark-900 border border-dark-800 w-full max-w-3xl rounded-2xl shadow-2xl flex flex-col max-h-[85vh]">
+        <div className="flex justify-between items-center p-5 border-b border-dark-800 gap-3">
+          <h2 className="text-lg font-black text-white flex-1"><i className="fa-solid fa-tags text-brand-500 mr-2"></i> Price Refresh</h2>
+          <button onClick={handleRun} disabled={isRunning || targets.length === 0 || !hasAmazonApi(config)} className="bg-brand-600 hover:bg-brand-500 disabled:opacity-40 text-white text-xs font-bold px-4 py-2 rounded-lg">
+              {isRunning
+                  ? <><i className="fa-solid fa-spinner fa-spin mr-1"></i> {results.length}/{targets.length}</>
+                  : <><i className="fa-solid fa-rotate mr-1"></i> Refresh {targets.length} Posts</>}
+          </button>
+          <button onClick={onClose} disabled={isRunning} className="text-gray-400 hover:text-white ml-2"><i className="fa-solid fa-times text-xl"></i></button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-3">
+            {!hasAmazonApi(config) && <div className="bg-yellow-900/10 border border-yellow-900/40 rounded-xl p-4 text-xs text-yellow-500">Add PA-API credentials in the Amazon settings to fetch live prices.</div>}
+            {results.length === 0 && !isRunning && <div className="text-center text-xs text-gray-500 py-10">Re-prices every product box on {targets.length} posts with boxes, pushes only posts whose prices changed and flags dead or unavailable ASINs.</div>}
+            {results.map(r => (
+                <div key={r.url} className="bg-dark-950 border border-dark-800 rounded-xl p-4">
+                    <div className="flex items-center gap-3 mb-2">
+                        <div className="text-sm font-bold text-white truncate flex-1">{r.postTitle}</div>
+                        {r.pushed && <span className="text-[10px] font-bold text-green-400 uppercase">Pushed</span>}
+                        {r.error && <span className="text-[10px] font-bold text-red-400 truncate max-w-[50%]">{r.error}</span>}
+                    </div>
+                    {r.boxes.map(b => (
+                        <div key={b.asin} className="flex items-center gap-3 text-[11px] py-1">
+                            <span className={`font-bold uppercase px-2 py-0.5 rounded w-24 text-center ${BOX_STATUS_STYLES[b.status]}`}>{b.status}</span>
+                            <span className="font-mono text-gray-400">{b.asin}</span>
+                            <span className="text-gray-500">{b.oldPrice}{b.newPrice && b.newPrice !== b.oldPrice ? <> → <span className="text-white font-bold">{b.newPrice}</span></> : ''}</span>
+                            {b.availability && <span className="text-gray-600 truncate">{b.availability}</span>}
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { ProcessingLogEntry, ProcessingStep } from '../types';
+
+interface ProcessingTimelineProps {
+  entries: ProcessingLogEntry[];
+}
+
+const STEP_LABELS: Record<ProcessingStep, string> = {
+  fetch: 'Fetch',
+  affiliate_check: 'Links',
+  ai: 'AI',
+  insert: 'Insert',
+  push: 'Push',
+  result: 'Result',
+};
+
+const formatDuration = (ms?: number) => ms === undefined ? '' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+
+// Newest run first, steps in the order they happened
+export const ProcessingTimeline: React.FC<ProcessingTimelineProps> = ({ entries }) => {
+  const runs = useMemo(() => {
+      const byRun = new Map<string, ProcessingLogEntry[]>();
+      entries.forEach(e => byRun.set(e.runId || '', [...(byRun.get(e.runId || '') || []), e]));
+      return Array.from(byRun.entries()).reverse();
+  }, [entries]);
+
+  if (entries.length === 0) return <div className="text-[11px] text-gray-600 py-2">No pipeline steps recorded yet.</div>;
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-dark-800">
+        {runs.map(([runId, steps]) => (
+            <div key={runId}>
+                <div className="text-[10px] font-bold uppercase text-gray-500 mb-1">
+                    {runId || 'Earlier'} · {new Date(steps[0].timestamp).toLocaleString()}
+                </div>
+                <div className="border-l border-dark-700 ml-1 space-y-1">
+                    {steps.map((e, i) => (
+                        <div key={i} className="flex items-start gap-2 text-[11px] pl-3 relative">
+                            <span className={`absolute -left-[4px] top-1.5 w-2 h-2 rounded-full ${e.ok ? 'bg-green-500' : 'bg-red-500'}`}></span>
+                            <span className="font-mono text-gray-600 w-16 shrink-0">{new Date(e.timestamp).toLocaleTimeString()}</span>
+                            <span className="font-bold uppercase text-gray-400 w-12 shrink-0">{STEP_LABELS[e.step] || e.step}</span>
+                            <span className={`flex-1 min-w-0 break-words ${e.ok ? 'text-gray-300' : 'text-red-300'}`}>
+                                {e.message}
+                                {e.provider && <span className="text-gray-500 ml-1">({e.provider}/{e.model})</span>}
+                                {e.status !== undefined && <span className={`ml-1 ${e.ok ? 'text-gray-500' : 'text-red-400'}`}>HTTP {e.status}</span>}
+                            </span>
+                            <span className="font-mono text-gray-600 shrink-0">{formatDuration(e.durationMs)}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SiteProfile, AppConfig, SitemapState } from '../types';
+import { ProfileStore, createProfile, exportProfile, importProfile, downloadFile } from '../utils';
+import Toastify from 'toastify-js';
+
+interface ProfileSwitcherProps {
+  activeProfile: SiteProfile;
+  liveConfig: AppConfig; // Unsaved edits; the profile prop only changes on switch/rename
+  liveSitemap: SitemapState;
+  onSwitch: (profile: SiteProfile) => void;
+  onRename: (name: string) => void;
+  onLock: () => void;
+}
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ activeProfile, liveConfig, liveSitemap, onSwitch, onRename, onLock }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [profiles, setProfiles] = useState<SiteProfile[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => ProfileStore.list()
+      .then(setProfiles)
+      .catch(e => Toastify({ text: e.message, duration: 10000, backgroundColor: "#ef4444" }).showToast());
+
+  useEffect(() => { if (isOpen) refresh(); }, [isOpen]);
+
+  const handleCreate = async () => {
+      const name = prompt("Name for the new site profile:");
+      if (!name?.trim()) return;
+      const profile = createProfile(name.trim());
+      await ProfileStore.save(profile);
+      onSwitch(profile);
+      setIsOpen(false);
+  };
+
+  const handleRename = () => {
+      const name = prompt("Rename profile:", activeProfile.name);
+      if (name?.trim()) onRename(name.trim());
+  };
+
+  const handleDelete = async (profile: SiteProfile) => {
+      if (profile.id === activeProfile.id) return;
+      if (!confirm(`Delete "${profile.name}" and all of its scan data?`)) return;
+      await ProfileStore.remove(profile.id);
+      refresh();
+  };
+
+  const handleExport = () => {
+      const includeCredentials = confirm("Include API keys and passwords in the export file?\n\nOK = include, Cancel = strip credentials");
+      downloadFile(`amzpilot-${activeProfile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`, exportProfile({ ...activeProfile, config: liveConfig, sitemap: liveSitemap }, includeCredentials), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const profile = importProfile(await file.text());
+          await ProfileStore.save(profile);
+          Toastify({ text: `Imported "${profile.name}"`, backgroundColor: "#10b981" }).showToast();
+          onSwitch(profile);
+          setIsOpen(false);
+      } catch (err: any) {
+          Toastify({ text: err.message, backgroundColor: "#ef4444" }).showToast();
+      }
+  };
+
+  return (
+    <div className="fixed top-4 right-4 z-40">
+      <button onClick={() => setIsOpen(!isOpen)} className="bg-dark-800 px-4 py-2 rounded-full text-xs font-bold text-gray-300 shadow-lg border border-dark-700 hover:border-brand-500 flex items-center gap-2 max-w-[220px]">
+         <i className="fa-solid fa-globe text-brand-500"></i>
+         <span className="truncate">{activeProfile.name}</span>
+         <i className={`fa-solid fa-chevron-down text-[10px] transition-transform ${isOpen ? 'rotate-180' : ''}`}></i>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-dark-900 border border-dark-700 rounded-xl shadow-2xl overflow-hidden animate-fade-in">
+            <div className="max-h-64 overflow-y-auto">
+                {profiles.map(p => (
+                    <div key={p.id} className={`flex items-center gap-2 px-4 py-3 border-b border-dark-800 ${p.id === activeProfile.id ? 'bg-brand-900/20' : 'hover:bg-dark-800 cursor-pointer'}`} onClick={() => { if (p.id !== activeProfile.id) { onSwitch(p); setIsOpen(false); } }}>
+                        <div className="flex-1 min-w-0">
+                            <div className="text-xs font-bold text-white truncate">{p.name}</div>
+                            <div className="text-[10px] text-gray-500 truncate">{p.sitemap.posts.length} posts · {p.config.wpUrl || 'No site configured'}</div>
+                        </div>
+                        {p.id === activeProfile.id ? (
+                            <i className="fa-solid fa-check text-brand-500 text-xs"></i>
+                        ) : (
+                            <button onClick={(e) => { e.stopPropagation(); handleDelete(p); }} className="text-gray-600 hover:text-red-500 text-xs"><i className="fa-solid fa-trash"></i></button>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <div className="grid grid-cols-2 gap-px bg-dark-800 text-[11px] font-bold">
+                <button onClick={handleCreate} className="bg-dark-900 hover:bg-dark-800 text-brand-400 py-3"><i className="fa-solid fa-plus mr-1"></i> New Site</button>
+                <button onClick={handleRename} className="bg-dark-900 hover:bg-dark-800 text-gray-300 py-3"><i className="fa-solid fa-pen mr-1"></i> Rename</button>
+                <button onClick={() => fileInputRef.current?.click()} className="bg-dark-900 hover:bg-dark-800 text-gray-300 py-3"><i className="fa-solid fa-file-import mr-1"></i> Import</button>
+                <button onClick={handleExport} className="bg-dark-900 hover:bg-dark-800 text-gray-300 py-3"><i className="fa-solid fa-file-export mr-1"></i> Export</button>
+                <button onClick={() => { setIsOpen(false); onLock(); }} className="col-span-2 bg-dark-900 hover:bg-dark-800 text-gray-400 py-3"><i className="fa-solid fa-lock mr-1"></i> Lock Credentials</button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      )}
+    </div>
+  );
+};
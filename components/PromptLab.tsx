@@ -0,0 +1,199 @@
+import React, { useState, useMemo } from 'react';
+import { AppConfig, BlogPost, PromptMode, PromptTemplate, PromptComparisonRow, PromptVariantResult } from '../types';
+import { getPromptTemplates, resolvePromptTemplate, createPromptVersion, findUnknownPromptVariables, runPromptComparison, PROMPT_VARIABLES } from '../utils';
+import Toastify from 'toastify-js';
+
+interface PromptLabProps {
+  config: AppConfig;
+  posts: BlogPost[];
+  onChange: (patch: Partial<AppConfig>) => void;
+}
+
+const MODES: { id: PromptMode; label: string }[] = [
+  { id: 'single', label: 'Single' },
+  { id: 'multi', label: 'Listicle' },
+  { id: 'manual_asin', label: 'Manual ASIN' },
+];
+
+interface ComparisonSummary {
+  confidence: number;
+  completeness: number;
+  verdictWords: number;
+  errors: number;
+  cost: number;
+}
+
+// Averages only count variants that produced a product, so one failed post does not drag the quality numbers down
+const summarize = (rows: PromptComparisonRow[], side: 'a' | 'b'): ComparisonSummary => {
+  const results = rows.map(r => r[side]);
+  const ok = results.filter(r => r.productCount > 0);
+  const average = (fn: (r: PromptVariantResult) => number) => ok.length ? ok.reduce((n, r) => n + fn(r), 0) / ok.length : 0;
+  return {
+      confidence: average(r => r.confidence),
+      completeness: average(r => r.completeness),
+      verdictWords: average(r => r.verdictWords),
+      errors: results.filter(r => r.error).length,
+      cost: results.reduce((n, r) => n + r.cost, 0),
+  };
+};
+
+const SUMMARY_METRICS: [string, (s: ComparisonSummary) => string][] = [
+  ['Avg confidence', s => `${Math.round(s.confidence)}%`],
+  ['Field completeness', s => `${Math.round(s.completeness * 100)}%`],
+  ['Verdict length', s => `${s.verdictWords.toFixed(1)} words`],
+  ['Errors', s => String(s.errors)],
+  ['Cost', s => `$${s.cost.toFixed(3)}`],
+];
+
+export const PromptLab: React.FC<PromptLabProps> = ({ config, posts, onChange }) => {
+  const [mode, setMode] = useState<PromptMode>('single');
+  const templates = useMemo(() => getPromptTemplates(config, mode), [config, mode]);
+  const active = resolvePromptTemplate(config, mode);
+
+  const [editing, setEditing] = useState<PromptTemplate>(active);
+  const [draft, setDraft] = useState(active.body);
+  const [draftName, setDraftName] = useState('');
+  const unknownVars = useMemo(() => findUnknownPromptVariables(draft), [draft]);
+
+  const [pair, setPair] = useState<[string, string]>([active.id, active.id]);
+  const [sampleSize, setSampleSize] = useState(5);
+  const [rows, setRows] = useState<PromptComparisonRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const switchMode = (next: PromptMode) => {
+      const current = resolvePromptTemplate(config, next);
+      setMode(next);
+      setEditing(current);
+      setDraft(current.body);
+      setPair([current.id, current.id]);
+      setRows([]);
+  };
+
+  const openTemplate = (t: PromptTemplate) => { setEditing(t); setDraft(t.body); };
+
+  const handleSaveVersion = () => {
+      const created = createPromptVersion(config, mode, draft, draftName);
+      onChange({ promptTemplates: [...(config.promptTemplates || []), created] });
+      setEditing(created);
+      setDraftName('');
+      setPair([pair[0], created.id]);
+      Toastify({ text: `Saved ${created.name} (v${created.version}). Save the config to keep it.`, backgroundColor: "#10b981" }).showToast();
+  };
+
+  const setDefault = (t: PromptTemplate) => onChange({ activePrompts: { ...config.activePrompts, [mode]: t.id } });
+
+  const deleteTemplate = (t: PromptTemplate) => {
+      if (!confirm(`Delete ${t.name} (v${t.version})?`)) return;
+      onChange({ promptTemplates: (config.promptTemplates || []).filter(x => x.id !== t.id) });
+      if (editing.id === t.id) openTemplate(active);
+  };
+
+  const handleCompare = async () => {
+      const a = templates.find(t => t.id === pair[0]);
+      const b = templates.find(t => t.id === pair[1]);
+      if (!a || !b) return;
+      setIsRunning(true);
+      setRows([]);
+      try {
+          await runPromptComparison(config, posts, [a, b], sampleSize, row => setRows(prev => [...prev, row]));
+      } catch (e: any) {
+          Toastify({ text: e.message, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setIsRunning(false);
+      }
+  };
+
+  const label = (id: string) => { const t = templates.find(x => x.id === id); return t ? `v${t.version} ${t.name}` : id; };
+
+  const summaries = useMemo(() => [summarize(rows, 'a'), summarize(rows, 'b')], [rows]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+        <div className="flex bg-dark-950 border border-dark-700 rounded-xl p-1">
+            {MODES.map(m => (
+                <button key={m.id} type="button" onClick={() => switchMode(m.id)} disabled={isRunning} className={`flex-1 px-3 py-2 rounded-lg text-[11px] font-bold uppercase ${mode === m.id ? 'bg-dark-800 text-white' : 'text-gray-500'}`}>{m.label}</button>
+            ))}
+        </div>
+
+        <div className="space-y-1">
+            {templates.map(t => (
+                <div key={t.id} className={`flex items-center gap-2 text-xs px-3 py-2 rounded-lg border ${editing.id === t.id ? 'border-brand-500 bg-brand-900/10' : 'border-dark-800 bg-dark-950'}`}>
+                    <button type="button" onClick={() => openTemplate(t)} className="flex-1 text-left min-w-0 truncate text-gray-300">
+                        <span className="font-mono text-gray-500 mr-2">v{t.version}</span>{t.name}
+                    </button>
+                    {t.id === active.id
+                        ? <span className="text-[10px] font-bold uppercase text-green-400">Default</span>
+                        : <button type="button" onClick={() => setDefault(t)} className="text-[10px] font-bold uppercase text-gray-500 hover:text-brand-400">Make Default</button>}
+                    {!t.builtin && t.id !== active.id && <button type="button" onClick={() => deleteTemplate(t)} className="text-gray-600 hover:text-red-400"><i className="fa-solid fa-trash text-[10px]"></i></button>}
+                </div>
+            ))}
+        </div>
+
+        <div>
+            <label className="text-xs text-brand-500 font-bold uppercase mb-1 block">Template Body</label>
+            <textarea rows={9} value={draft} onChange={e => setDraft(e.target.value)} className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-xs font-mono" />
+            <p className="text-[10px] text-gray-500 mt-1">
+                Variables: {PROMPT_VARIABLES.map(v => `{{${v}}}`).join(' ')}. The JSON output format is appended automatically.
+                {unknownVars.length > 0 && <span className="text-yellow-400 ml-1">Unknown: {unknownVars.map(v => `{{${v}}}`).join(' ')}</span>}
+            </p>
+            <div className="flex gap-2 mt-2">
+                <input type="text" value={draftName} onChange={e => setDraftName(e.target.value)} placeholder="Version name" className="flex-1 bg-dark-950 border border-dark-700 rounded-lg px-3 py-2 text-white text-xs outline-none" />
+                <button type="button" onClick={handleSaveVersion} disabled={draft === editing.body || !draft.trim()} className="bg-dark-800 hover:bg-dark-700 disabled:opacity-40 text-gray-300 text-xs font-bold px-4 py-2 rounded-lg border border-dark-700">
+                    <i className="fa-solid fa-code-branch mr-1"></i> Save as New Version
+                </button>
+            </div>
+        </div>
+
+        <div className="border-t border-dark-800 pt-6">
+            <label className="text-xs text-brand-500 font-bold uppercase mb-2 block">A/B Compare</label>
+            <div className="flex flex-wrap gap-2 items-center">
+                {(['A', 'B'] as const).map((side, i) => (
+                    <select key={side} value={pair[i]} onChange={e => setPair(i === 0 ? [e.target.value, pair[1]] : [pair[0], e.target.value])} disabled={isRunning} className="flex-1 min-w-0 bg-dark-950 border border-dark-700 rounded-lg px-2 py-2 text-white text-xs outline-none">
+                        {templates.map(t => <option key={t.id} value={t.id}>{side}: {label(t.id)}</option>)}
+                    </select>
+                ))}
+                <input type="number" min={1} max={50} value={sampleSize} onChange={e => setSampleSize(Math.max(1, Math.min(50, parseInt(e.target.value) || 1)))} disabled={isRunning} className="w-16 bg-dark-950 border border-dark-700 rounded-lg px-2 py-2 text-white text-xs outline-none" title="Posts to sample" />
+                <button type="button" onClick={handleCompare} disabled={isRunning || posts.length === 0 || pair[0] === pair[1]} className="bg-brand-600 hover:bg-brand-500 disabled:opacity-40 text-white text-xs font-bold px-4 py-2 rounded-lg">
+                    {isRunning ? <><i className="fa-solid fa-spinner fa-spin mr-1"></i> {rows.length}/{Math.min(sampleSize, posts.length)}</> : <><i className="fa-solid fa-flask mr-1"></i> Run</>}
+                </button>
+            </div>
+            {posts.length === 0 && <p className="text-[10px] text-gray-500 mt-2">Scan a sitemap first: the comparison samples your posts.</p>}
+
+            {rows.length > 0 && (
+                <div className="mt-4 text-[11px]">
+                    <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 font-bold text-gray-500 uppercase text-[10px] pb-1 border-b border-dark-800">
+                        <span></span><span className="truncate">A: {label(pair[0])}</span><span className="truncate">B: {label(pair[1])}</span>
+                    </div>
+                    {SUMMARY_METRICS.map(([name, format]) => (
+                        <div key={name} className="grid grid-cols-[1fr_1fr_1fr] gap-2 py-1 border-b border-dark-800/50">
+                            <span className="text-gray-500">{name}</span>
+                            {summaries.map((s, i) => <span key={i} className="text-white font-mono">{format(s)}</span>)}
+                        </div>
+                    ))}
+                    <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 py-2">
+                        <span></span>
+                        {pair.map(id => (
+                            <button key={id} type="button" onClick={() => setDefault(templates.find(t => t.id === id)!)} disabled={isRunning || id === active.id} className="text-[10px] font-bold uppercase text-brand-400 hover:text-brand-300 disabled:text-gray-600 text-left">
+                                {id === active.id ? 'Current default' : 'Make default'}
+                            </button>
+                        ))}
+                    </div>
+
+                    {rows.map(r => (
+                        <div key={r.url} className="grid grid-cols-[1fr_1fr_1fr] gap-2 py-1 border-t border-dark-800/50">
+                            <span className="text-gray-400 truncate" title={r.postTitle}>{r.postTitle}</span>
+                            {[r.a, r.b].map((v, i) => (
+                                <span key={i} className="min-w-0 truncate" title={v.error || v.productTitle}>
+                                    {v.productCount > 0
+                                        ? <><span className="text-gray-300">{v.productCount > 1 ? `${v.productCount} products` : v.productTitle}</span> <span className="text-gray-600">{v.confidence}% · {Math.round(v.completeness * 100)}% · {Math.round(v.verdictWords)}w</span></>
+                                        : <span className="text-red-400">{v.error || 'No product'}</span>}
+                                </span>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BlogPost, AppConfig } from '../types';
+import { publishProductToPost, runConcurrent, resolveBoxTemplate } from '../utils';
+import { ProductBoxPreview } from './ProductBoxPreview';
+import Toastify from 'toastify-js';
+
+interface ReviewQueueProps {
+  posts: BlogPost[];
+  config: AppConfig;
+  onUpdatePost: (url: string, patch: Partial<BlogPost>) => void;
+  onEdit: (post: BlogPost) => void;
+}
+
+const SHORTCUTS = [
+  ['j / ↓', 'Next'],
+  ['k / ↑', 'Previous'],
+  ['a', 'Approve & publish'],
+  ['r', 'Reject'],
+  ['e', 'Edit in editor'],
+  ['x', 'Toggle selection'],
+  ['shift + a', 'Approve selection'],
+];
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ posts, config, onUpdatePost, onEdit }) => {
+  const queue = useMemo(() => posts
+      .filter(p => p.autoPilotStatus === 'found' && p.proposedProduct)
+      .sort((a, b) => (b.aiConfidence || 0) - (a.aiConfidence || 0)), [posts]);
+
+  const [cursor, setCursor] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<Set<string>>(new Set());
+
+  const current = queue[Math.min(cursor, queue.length - 1)];
+
+  useEffect(() => {
+      if (cursor >= queue.length && queue.length > 0) setCursor(queue.length - 1);
+  }, [queue.length]);
+
+  const setBusyFlag = (url: string, on: boolean) => setBusy(prev => {
+      const next = new Set(prev);
+      if (on) next.add(url); else next.delete(url);
+      return next;
+  });
+
+  const approve = async (post: BlogPost) => {
+      if (!post.proposedProduct || busy.has(post.url)) return;
+      setBusyFlag(post.url, true);
+      onUpdatePost(post.url, { autoPilotStatus: 'publishing' });
+      try {
+          const { id } = await publishProductToPost(config, post, post.detectedProducts?.length ? post.detectedProducts : post.proposedProduct, 'smart_middle', { reason: 'review' });
+          onUpdatePost(post.url, { id, autoPilotStatus: 'published', monetizationStatus: 'monetized' });
+      } catch (e: any) {
+          onUpdatePost(post.url, { autoPilotStatus: 'found' });
+          Toastify({ text: `${post.title}: ${e.message}`, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setBusyFlag(post.url, false);
+      }
+  };
+
+  const reject = (post: BlogPost) => {
+      onUpdatePost(post.url, { autoPilotStatus: 'rejected' });
+      setSelected(prev => { const next = new Set(prev); next.delete(post.url); return next; });
+  };
+
+  const toggleSelected = (post: BlogPost) => setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(post.url)) next.delete(post.url); else next.add(post.url);
+      return next;
+  });
+
+  const approveSelected = async () => {
+      const targets = queue.filter(p => selected.has(p.url));
+      if (targets.length === 0) return;
+      if (!confirm(`Approve and publish ${targets.length} posts?`)) return;
+      setSelected(new Set());
+      await runConcurrent(targets, config.concurrencyLimit || 3, approve);
+      Toastify({ text: `Processed ${targets.length} approvals`, backgroundColor: "#10b981" }).showToast();
+  };
+
+  useEffect(() => {
+      const onKey = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement;
+          if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+          // Leave Ctrl+R, Cmd+A and friends to the browser; Shift only picks the bulk variant
+          if (e.ctrlKey || e.metaKey || e.altKey) return;
+          if (!current) return;
+          if (e.key === 'j' || e.key === 'ArrowDown') { e.preventDefault(); setCursor(c => Math.min(c + 1, queue.length - 1)); }
+          else if (e.key === 'k' || e.key === 'ArrowUp') { e.preventDefault(); setCursor(c => Math.max(c - 1, 0)); }
+          else if (e.key === 'A') approveSelected();
+          else if (e.key === 'a') approve(current);
+          else if (e.key === 'r') reject(current);
+          else if (e.key === 'e') onEdit(current);
+          else if (e.key === 'x') toggleSelected(current);
+      };
+      window.addEventListener('keydown', onKey);
+      return () => window.removeEventListener('keydown', onKey);
+  });
+
+  if (queue.length === 0) {
+      return (
+          <div className="text-center py-20 text-gray-600">
+              <i className="fa-solid fa-inbox text-4xl mb-4 opacity-50"></i>
+              <p>Review queue is empty. Run Auto-Pilot to find products.</p>
+          </div>
+      );
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4 h-full">
+        {/* Queue List */}
+        <div className="lg:w-96 shrink-0 space-y-2">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs text-gray-500 font-bold uppercase">{queue.length} awaiting review</span>
+                <button onClick={approveSelected} disabled={selected.size === 0} className="bg-green-600 hover:bg-green-500 disabled:opacity-30 text-white text-[11px] font-bold px-3 py-1.5 rounded-lg">
+                    <i className="fa-solid fa-check-double mr-1"></i> Approve {selected.size || ''} Selected
+                </button>
+            </div>
+            {queue.map((post, i) => (
+                <div key={post.url} onClick={() => setCursor(i)} className={`p-3 rounded-xl border cursor-pointer flex items-center gap-3 transition-colors ${i === cursor ? 'bg-brand-900/20 border-brand-500' : 'bg-dark-900 border-dark-800 hover:border-dark-700'}`}>
+                    <input type="checkbox" checked={selected.has(post.url)} onChange={() => toggleSelected(post)} onClick={e => e.stopPropagation()} className="accent-brand-500" />
+                    <img src={post.proposedProduct!.imageUrl} className="w-10 h-10 object-contain bg-white rounded" />
+                    <div className="flex-1 min-w-0">
+                        <div className="text-xs font-bold text-white truncate">{post.title}</div>
+                        <div className="text-[10px] text-gray-500 truncate">{post.proposedProduct!.title}</div>
+                    </div>
+                    {busy.has(post.url)
+                        ? <i className="fa-solid fa-spinner fa-spin text-brand-500 text-xs"></i>
+                        : <span className={`text-[11px] font-mono font-bold ${(post.aiConfidence || 0) >= (config.autoPublishThreshold || 85) ? 'text-green-400' : 'text-yellow-400'}`}>{post.aiConfidence}%</span>}
+                </div>
+            ))}
+        </div>
+
+        {/* Detail & Preview */}
+        {current && (
+            <div className="flex-1 min-w-0 bg-dark-900 border border-dark-800 rounded-xl flex flex-col overflow-hidden">
+                <div className="p-4 border-b border-dark-800 flex flex-wrap items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                        <div className="text-sm font-bold text-white truncate">{current.title}</div>
+                        <a href={current.url} target="_blank" rel="noopener noreferrer" className="text-[11px] text-gray-500 hover:text-brand-400 truncate block">{current.url}</a>
+                    </div>
+                    <button onClick={() => reject(current)} className="bg-dark-800 hover:bg-red-900/40 text-red-400 text-xs font-bold px-3 py-2 rounded-lg border border-dark-700">Reject <kbd className="ml-1 opacity-50">r</kbd></button>
+                    <button onClick={() => onEdit(current)} className="bg-dark-800 hover:bg-dark-700 text-gray-300 text-xs font-bold px-3 py-2 rounded-lg border border-dark-700">Edit <kbd className="ml-1 opacity-50">e</kbd></button>
+                    <button onClick={() => approve(current)} disabled={busy.has(current.url)} className="bg-green-600 hover:bg-green-500 text-white text-xs font-bold px-4 py-2 rounded-lg">Approve <kbd className="ml-1 opacity-60">a</kbd></button>
+                </div>
+                <div className="flex-1 overflow-y-auto bg-gray-100 p-4">
+                    {current.detectedProducts && current.detectedProducts.length > 1 && (
+                        <div className="text-[11px] text-gray-500 mb-2"><i className="fa-solid fa-layer-group mr-1"></i> {current.detectedProducts.length} products: {current.detectedProducts.map(p => p.contextSnippet || p.title).join(' · ')}</div>
+                    )}
+                    <ProductBoxPreview product={current.proposedProduct!} products={current.detectedProducts} template={resolveBoxTemplate(config, current)} config={config} />
+                </div>
+                <div className="px-4 py-2 border-t border-dark-800 flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-gray-500">
+                    {SHORTCUTS.map(([key, label]) => <span key={key}><kbd className="text-gray-300 font-mono">{key}</kbd> {label}</span>)}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
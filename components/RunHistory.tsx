@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { AppConfig, AutopilotRunSummary, RevisionEntry } from '../types';
+import { RevisionStore, revertRun } from '../utils';
+import Toastify from 'toastify-js';
+
+interface RunHistoryProps {
+  config: AppConfig;
+  onClose: () => void;
+}
+
+export const RunHistory: React.FC<RunHistoryProps> = ({ config, onClose }) => {
+  const [runs, setRuns] = useState<AutopilotRunSummary[]>([]);
+  const [activeRun, setActiveRun] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [conflicts, setConflicts] = useState<RevisionEntry[]>([]);
+
+  const refresh = async () => setRuns(await RevisionStore.listRuns(config));
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleRevert = async (run: AutopilotRunSummary) => {
+      if (!confirm(`Restore the original content of ${run.postCount - run.revertedCount} posts changed by this run?`)) return;
+      setActiveRun(run.runId);
+      setConflicts([]);
+      try {
+          const result = await revertRun(config, run.runId, (done, total) => setProgress({ done, total }));
+          setConflicts(result.conflicts);
+          Toastify({
+              text: `Reverted ${result.reverted} posts` + (result.conflicts.length ? `, ${result.conflicts.length} edited since (skipped)` : '') + (result.failed.length ? `, ${result.failed.length} failed` : ''),
+              backgroundColor: result.failed.length ? "#f59e0b" : "#10b981",
+              duration: 6000
+          }).showToast();
+      } catch (e: any) {
+          Toastify({ text: e.message, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setActiveRun(null);
+          setProgress(null);
+          refresh();
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-dark-900 border border-dark-800 w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[85vh]">
+        <div className="flex justify-between items-center p-5 border-b border-dark-800">
+          <h2 className="text-lg font-black text-white"><i className="fa-solid fa-robot text-brand-500 mr-2"></i> Autopilot Runs</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><i className="fa-solid fa-times text-xl"></i></button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-3">
+            {runs.length === 0 && <div className="text-center text-xs text-gray-500 py-10">No autopilot runs have published anything yet.</div>}
+            {runs.map(run => (
+                <div key={run.runId} className="bg-dark-950 border border-dark-800 rounded-xl p-4 flex items-center gap-4">
+                    <div className="flex-1">
+                        <div className="text-sm font-bold text-white">{new Date(run.startedAt).toLocaleString()}</div>
+                        <div className="text-xs text-gray-500 mt-1">
+                            {run.postCount} posts published
+                            {run.revertedCount > 0 && <span className="text-yellow-500"> · {run.revertedCount} reverted</span>}
+                        </div>
+                    </div>
+                    <button onClick={() => handleRevert(run)} disabled={!!activeRun || run.revertedCount >= run.postCount} className="bg-yellow-600 hover:bg-yellow-500 disabled:opacity-40 text-white text-xs font-bold px-4 py-2 rounded-lg whitespace-nowrap">
+                        {activeRun === run.runId
+                            ? <><i className="fa-solid fa-spinner fa-spin mr-1"></i> {progress ? `${progress.done}/${progress.total}` : ''}</>
+                            : <><i className="fa-solid fa-rotate-left mr-1"></i> Revert Run</>}
+                    </button>
+                </div>
+            ))}
+
+            {conflicts.length > 0 && (
+                <div className="bg-yellow-900/10 border border-yellow-900/40 rounded-xl p-4">
+                    <div className="text-xs font-bold text-yellow-500 uppercase mb-2">Edited after the run — not reverted</div>
+                    {conflicts.map(c => (
+                        <div key={c.id} className="text-xs text-gray-400 truncate">#{c.postId} {c.postTitle}</div>
+                    ))}
+                    <div className="text-[10px] text-gray-500 mt-2">Open these posts and use Revision History to restore them individually.</div>
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,15 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { BlogPost, SitemapState, AppConfig, PostPriority } from '../types';
-import { fetchAndParseSitemap, fetchPageContent, checkForAffiliateLinks, runConcurrent, analyzeContentAndFindProduct, generateProductBoxHtml, insertIntoContent, pushToWordPress, calculatePostPriority } from '../utils';
+import { BlogPost, SitemapState, AppConfig, PostPriority, SitemapType, SitemapProgress, WpPostType, WpTerm, DryRunEntry, DryRunReport, AIUsageLedger, AutopilotJob, AutopilotRun, JobQueueControl, ProcessingLogEntry } from '../types';
+import { fetchAndParseSitemap, loadPostContent, fetchWpPostTypes, fetchWpTerms, discoverWordPressPosts, hasOwnAffiliateLinks, runConcurrent, analyzeContentAndFindProduct, applyProductsToContent, pushToWordPress, calculatePostPriority, resolveBoxTemplate, DEFAULT_SITEMAP_TYPES, createDryRunEntry, createUsageLedger, JobStore, createAutopilotJobs, runJobQueue, Vault, logStep, timeStep, usageToLogEntries, appendProcessingLog, exportRunLogCsv, downloadFile } from '../utils';
+import { RunHistory } from './RunHistory';
+import { DryRunReportView } from './DryRunReportView';
+import { ReviewQueue } from './ReviewQueue';
+import { PriceRefreshPanel } from './PriceRefreshPanel';
+import { CompliancePanel } from './CompliancePanel';
+import { LinkAuditView } from './LinkAuditView';
+import { AIUsageLedgerView } from './AIUsageLedgerView';
+import { ProcessingTimeline } from './ProcessingTimeline';
 import Toastify from 'toastify-js';
 
 interface SitemapScannerProps {
@@ -14,22 +22,63 @@ interface SitemapScannerProps {
 export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, savedState, onStateChange, config }) => {
   const [sitemapUrl, setSitemapUrl] = useState(savedState.url || '');
   const [status, setStatus] = useState<'idle' | 'scanning' | 'analyzing' | 'processing'>('idle');
-  const [activeTab, setActiveTab] = useState<'critical' | 'opportunity' | 'monetized' | 'all'>('critical');
-  const [stopSignal, setStopSignal] = useState(false);
+  const [activeTab, setActiveTab] = useState<'critical' | 'opportunity' | 'monetized' | 'all' | 'review' | 'links'>('critical');
   const [isFullyAuto, setIsFullyAuto] = useState(false);
+  const [sitemapTypes, setSitemapTypes] = useState<SitemapType[]>(DEFAULT_SITEMAP_TYPES);
+  const [scanProgress, setScanProgress] = useState<SitemapProgress | null>(null);
+
+  // WordPress REST discovery
+  const [discoveryMode, setDiscoveryMode] = useState<'sitemap' | 'wp'>(savedState.source || 'sitemap');
+  const [wpPostTypes, setWpPostTypes] = useState<WpPostType[]>([]);
+  const [selectedTypes, setSelectedTypes] = useState<string[]>(['posts']);
+  const [wpCategories, setWpCategories] = useState<WpTerm[]>([]);
+  const [wpAuthors, setWpAuthors] = useState<WpTerm[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<number>(0);
+  const [authorFilter, setAuthorFilter] = useState<number>(0);
+  const [wpProgress, setWpProgress] = useState<string>('');
+  const [showRuns, setShowRuns] = useState(false);
+  const [showPriceRefresh, setShowPriceRefresh] = useState(false);
+  const [showCompliance, setShowCompliance] = useState(false);
+  const [isDryRun, setIsDryRun] = useState(false);
+  const [dryRunReport, setDryRunReport] = useState<DryRunReport | null>(null);
+  const [usageLedger, setUsageLedger] = useState<AIUsageLedger | null>(null);
+
+  // Durable autopilot run for this site
+  const [activeRun, setActiveRun] = useState<AutopilotRun | null>(null);
+  const [jobs, setJobs] = useState<Record<string, AutopilotJob>>({});
+  const controlRef = useRef<JobQueueControl>({ paused: false, cancelled: false });
+  const [stopRequest, setStopRequest] = useState<'pause' | 'cancel' | null>(null);
+  const [expandedLog, setExpandedLog] = useState<string | null>(null);
   
   const stateRef = useRef(savedState);
   useEffect(() => { stateRef.current = savedState; }, [savedState]);
 
+  // Unmounting (profile switch, vault lock) pauses a running queue; the run stays resumable
+  useEffect(() => () => { controlRef.current.paused = true; }, []);
+
+  useEffect(() => {
+      setActiveRun(null);
+      setJobs({});
+      if (!savedState.url) return;
+      JobStore.load(savedState.url)
+          .then(stored => {
+              if (!stored) return;
+              setActiveRun(stored.run);
+              setJobs(Object.fromEntries(stored.jobs.map(j => [j.url, j])));
+          })
+          .catch(e => console.warn("Autopilot run not loaded", e));
+  }, [savedState.url]);
+
   const handleFetchSitemap = async (e: React.FormEvent) => {
     e.preventDefault();
     setStatus('scanning');
+    setScanProgress(null);
     try {
-      const posts = await fetchAndParseSitemap(sitemapUrl);
+      const posts = await fetchAndParseSitemap(config, sitemapUrl, { types: sitemapTypes, onProgress: setScanProgress });
       const initialPosts: BlogPost[] = posts.map(p => ({
           ...p, status: 'publish', monetizationStatus: 'opportunity', autoPilotStatus: 'idle', content: '', priority: 'low', postType: 'unknown'
       }));
-      onStateChange({ url: sitemapUrl, posts: initialPosts, lastScanned: Date.now() });
+      onStateChange({ url: sitemapUrl, source: 'sitemap', posts: initialPosts, lastScanned: Date.now() });
       Toastify({ text: `Synced ${posts.length} posts`, backgroundColor: "#10b981" }).showToast();
       
       // Auto-trigger priority analysis
@@ -38,11 +87,57 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
     } catch (e) {
       Toastify({ text: "Sitemap connection failed. Check URL.", backgroundColor: "#ef4444" }).showToast();
       setStatus('idle');
+    } finally {
+      setScanProgress(null);
+    }
+  };
+
+  useEffect(() => {
+      if (discoveryMode !== 'wp' || !config.wpUrl || wpPostTypes.length > 0) return;
+      Promise.all([fetchWpPostTypes(config), fetchWpTerms(config)])
+          .then(([types, terms]) => {
+              setWpPostTypes(types);
+              setWpCategories(terms.categories);
+              setWpAuthors(terms.authors);
+          })
+          .catch((e: any) => Toastify({ text: `WP discovery unavailable: ${e.message}`, backgroundColor: "#ef4444" }).showToast());
+  }, [discoveryMode, config.wpUrl]);
+
+  const handleDiscoverWordPress = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!config.wpUrl) return Toastify({ text: "Configure WP first", backgroundColor: "#f59e0b" }).showToast();
+    setStatus('scanning');
+    try {
+      const posts = await discoverWordPressPosts(config, {
+          postTypes: wpPostTypes.filter(t => selectedTypes.includes(t.restBase)),
+          categories: categoryFilter ? [categoryFilter] : undefined,
+          authors: authorFilter ? [authorFilter] : undefined,
+          onProgress: (p) => setWpProgress(`${p.postType}: page ${p.page}${p.totalPages ? `/${p.totalPages}` : ''} · ${p.loaded.toLocaleString()} posts`),
+      });
+      const initialPosts: BlogPost[] = posts.map(p => ({
+          ...p, monetizationStatus: 'opportunity', autoPilotStatus: 'idle', priority: 'low', postType: 'unknown'
+      }));
+      onStateChange({ url: config.wpUrl, source: 'wp', posts: initialPosts, lastScanned: Date.now() });
+      Toastify({ text: `Synced ${posts.length} posts via REST API`, backgroundColor: "#10b981" }).showToast();
+
+      setTimeout(() => runPriorityAnalysis(initialPosts), 100);
+    } catch (e: any) {
+      Toastify({ text: e.message || "WordPress discovery failed", backgroundColor: "#ef4444" }).showToast();
+      setStatus('idle');
+    } finally {
+      setWpProgress('');
     }
   };
 
+  const toggleSitemapType = (type: SitemapType) => {
+      setSitemapTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
   // Ultra Smart: Two-Phase Analysis to save API calls
   const runPriorityAnalysis = async (posts: BlogPost[]) => {
+      // Shares the queue's control, so Stop (and unmounting) ends the deep scan too
+      controlRef.current = { paused: false, cancelled: false };
+      setStopRequest(null);
       setStatus('analyzing');
       const postMap = new Map(posts.map(p => [p.url, p]));
       
@@ -70,10 +165,10 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
           
           let processed = 0;
           await runConcurrent(highValueTargets, 5, async (post) => {
-              if (stopSignal) return;
+              if (controlRef.current.paused || controlRef.current.cancelled) return;
               try {
                   // Fetch lightweight content
-                  const page = await fetchPageContent(post.url); // This now uses cache
+                  const page = await loadPostContent(config, post); // This now uses cache
                   const analysis = calculatePostPriority(post.title, page.content);
                   
                   postMap.set(post.url, { 
@@ -93,6 +188,7 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
                   }
               }
           });
+          if (controlRef.current.cancelled) Toastify({ text: `Deep scan stopped after ${processed} of ${highValueTargets.length} posts`, backgroundColor: "#f59e0b" }).showToast();
       }
       
       onStateChange({ ...stateRef.current, posts: Array.from(postMap.values()) });
@@ -107,20 +203,19 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
       }
   };
 
-  const runAutonomousPipeline = async () => {
-    if (!config.wpUrl) return Toastify({ text: "Configure WP first", backgroundColor: "#f59e0b" }).showToast();
-    setStopSignal(false);
+  // Runs the queued jobs of a durable run. Resume and per-post retry come through here too.
+  const executeRun = async (run: AutopilotRun, queue: AutopilotJob[]) => {
+    controlRef.current = { paused: false, cancelled: false };
+    setStopRequest(null);
     setStatus('processing');
-    
-    // Target critical opportunities first
-    const targets = savedState.posts
-        .filter(p => p.monetizationStatus === 'opportunity' && p.autoPilotStatus !== 'published')
-        .sort((a, b) => {
-            const priorityScore = { critical: 3, high: 2, medium: 1, low: 0 };
-            return (priorityScore[b.priority || 'low'] - priorityScore[a.priority || 'low']);
-        });
+    const activeRun: AutopilotRun = { ...run, state: 'running' };
+    setActiveRun(activeRun);
+    await JobStore.saveRun(activeRun).catch(e => console.warn("Run not persisted", e));
 
-    const postMap = new Map(savedState.posts.map(p => [p.url, p]));
+    const { runId, options: { fullAuto, dryRun, threshold } } = run;
+    const dryRunEntries: DryRunEntry[] = [];
+    const ledger = createUsageLedger(runId);
+    const postMap = new Map(stateRef.current.posts.map(p => [p.url, p]));
 
     let updateTimer: any = null;
     const triggerUIUpdate = () => {
@@ -131,50 +226,160 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
         }, 500); 
     };
 
-    await runConcurrent(targets, config.concurrencyLimit || 3, async (post: BlogPost) => {
-        if (stopSignal) return;
+    await runJobQueue(queue, controlRef.current, config.concurrencyLimit || 3, async (job) => {
+        const post = postMap.get(job.url);
+        if (!post) return { state: 'skipped', lastError: 'Post is no longer in the scan' };
+        Vault.touch(); // An unattended run counts as activity for the auto-lock
+        // Every step lands in the post's timeline; the final state is written together with it
+        const log: ProcessingLogEntry[] = [];
+        const postLedger = createUsageLedger(runId);
+        const settle = (patch: Partial<BlogPost>) => postMap.set(post.url, { ...post, ...patch, processingLog: appendProcessingLog(post.processingLog, log, runId) });
         try {
             postMap.set(post.url, { ...post, autoPilotStatus: 'analyzing' });
             triggerUIUpdate();
 
             // Cached fetch via utils
-            const page = await fetchPageContent(post.url); 
+            const page = await timeStep(log, 'fetch', p => `Loaded post ${p.id || post.id} (${p.content.length.toLocaleString()} chars)`, () => loadPostContent(config, post)); 
             
-            // Double check monetization
-            if (checkForAffiliateLinks(page.content)) {
-                postMap.set(post.url, { ...post, monetizationStatus: 'monetized', autoPilotStatus: 'idle', priority: 'medium' });
-                return;
+            // Double check monetization: links with someone else's tag (or none) don't count
+            if (hasOwnAffiliateLinks(config, page.content, post.linkAudit?.links)) {
+                logStep(log, 'affiliate_check', true, 'Already has our Amazon links: skipped');
+                settle({ monetizationStatus: 'monetized', autoPilotStatus: 'idle', priority: 'medium' });
+                if (dryRun) dryRunEntries.push({ postId: page.id || post.id, postTitle: post.title, url: post.url, outcome: 'skipped', reason: 'Already has our Amazon links' });
+                return { state: 'skipped' };
             }
+            logStep(log, 'affiliate_check', true, 'No links of ours found');
 
-            // AI Analysis (Cached)
-            const analysis = await analyzeContentAndFindProduct(page.title, page.content, config);
+            // AI Analysis (Cached). Listicles get a deep scan so every reviewed product can be placed.
+            const isListicle = post.postType === 'listicle';
+            const analysis = await analyzeContentAndFindProduct(page.title, page.content, config, { mode: isListicle ? 'multi' : 'single', ledger: postLedger })
+                .finally(() => {
+                    ledger.records.push(...postLedger.records);
+                    log.push(...usageToLogEntries(postLedger.records));
+                });
+            const products = isListicle ? analysis.detectedProducts.filter(p => p.asin) : [analysis.product];
+            const detectedProducts = products.length > 1 ? products : undefined;
             
-            if (analysis.confidence > 50 && analysis.product.asin) {
-                if (isFullyAuto && analysis.confidence >= (config.autoPublishThreshold || 85)) {
+            if (analysis.confidence > 50 && analysis.product?.asin) {
+                const placed = `${products.length > 1 ? `${products.length} products` : analysis.product.asin} at ${analysis.confidence}% confidence`;
+                const insert = () => timeStep(log, 'insert', r => `Placed ${r.boxes.length} box(es) via smart_middle`, async () => applyProductsToContent(config, page.content, products, 'smart_middle', resolveBoxTemplate(config, post)));
+                if (dryRun) {
+                    // Full analyse -> render -> insert chain, but nothing is written to WordPress
+                    const rendered = await insert();
+                    const wouldPublish = fullAuto && analysis.confidence >= threshold;
+                    dryRunEntries.push(createDryRunEntry({ ...post, id: page.id || post.id }, {
+                        product: analysis.product, confidence: analysis.confidence, method: 'smart_middle', before: page.content, box: rendered.boxes[0], after: rendered.html,
+                        outcome: wouldPublish ? 'would_publish' : 'needs_review',
+                        reason: wouldPublish
+                            ? (products.length > 1 ? `${products.length} products` : undefined)
+                            : (fullAuto ? `Below auto-publish threshold (${threshold}%)` : 'Full Auto is off: held for manual review')
+                    }));
+                    logStep(log, 'result', true, `Dry run: ${wouldPublish ? 'would publish' : 'would hold for review'} ${placed}`);
+                    settle({ autoPilotStatus: 'found', aiConfidence: analysis.confidence, proposedProduct: analysis.product, detectedProducts, id: page.id || post.id });
+                } else if (fullAuto && analysis.confidence >= threshold) {
                     postMap.set(post.url, { ...post, autoPilotStatus: 'publishing' });
                     triggerUIUpdate();
                     
-                    const box = generateProductBoxHtml(analysis.product, config.amazonTag, config.enableStickyBar);
-                    const finalHtml = insertIntoContent(page.content, box, 'smart_middle');
-                    await pushToWordPress(config, page.id || post.id, finalHtml);
+                    const { html: finalHtml } = await insert();
+                    await timeStep(log, 'push', 'Pushed to WordPress', () => pushToWordPress(config, page.id || post.id, finalHtml, post.restBase, {
+                        reason: 'autopilot', runId, postTitle: post.title, product: analysis.product, insertionMethod: 'smart_middle'
+                    }));
                     
-                    postMap.set(post.url, { ...post, monetizationStatus: 'monetized', autoPilotStatus: 'published', aiConfidence: analysis.confidence });
+                    logStep(log, 'result', true, `Published ${placed}`);
+                    settle({ monetizationStatus: 'monetized', autoPilotStatus: 'published', aiConfidence: analysis.confidence });
                 } else {
-                    postMap.set(post.url, { ...post, autoPilotStatus: 'found', aiConfidence: analysis.confidence, proposedProduct: analysis.product, id: page.id || post.id });
+                    logStep(log, 'result', true, `Held for review: ${placed}`);
+                    settle({ autoPilotStatus: 'found', aiConfidence: analysis.confidence, proposedProduct: analysis.product, detectedProducts, id: page.id || post.id });
                 }
-            } else {
-                postMap.set(post.url, { ...post, autoPilotStatus: 'failed' });
+                return { state: 'done' };
             }
-        } catch (e) {
-            postMap.set(post.url, { ...post, autoPilotStatus: 'failed' });
+            // Schema failures are kept on the post so the reason survives past this run
+            const reason = analysis.error || `No confident product match (${analysis.confidence}%)`;
+            logStep(log, 'result', false, reason);
+            settle({ autoPilotStatus: 'failed' });
+            if (dryRun) dryRunEntries.push({ postId: page.id || post.id, postTitle: post.title, url: post.url, outcome: 'skipped', reason, confidence: analysis.confidence });
+            return { state: 'failed', lastError: reason };
+        } catch (e: any) {
+            const reason = e?.message || 'Unknown';
+            logStep(log, 'result', false, `Failed: ${reason}`);
+            settle({ autoPilotStatus: 'failed' });
+            if (dryRun) dryRunEntries.push({ postId: post.id, postTitle: post.title, url: post.url, outcome: 'skipped', reason: `Error: ${reason}` });
+            return { state: 'failed', lastError: reason };
         } finally {
             triggerUIUpdate();
         }
-    });
+    }, job => setJobs(prev => ({ ...prev, [job.url]: job })));
 
     if(updateTimer) clearTimeout(updateTimer);
     onStateChange({ ...stateRef.current, posts: Array.from(postMap.values()) });
+
+    const remaining = (await JobStore.listJobs(runId).catch(() => [])).filter(j => j.state === 'queued').length;
+    const finished: AutopilotRun = { ...run, state: controlRef.current.cancelled ? 'cancelled' : remaining ? 'paused' : 'completed' };
+    setActiveRun(finished);
+    await JobStore.saveRun(finished).catch(e => console.warn("Run not persisted", e));
+
     setStatus('idle');
+    setStopRequest(null);
+    setUsageLedger({ ...ledger, finishedAt: Date.now() });
+    if (dryRun) setDryRunReport({ runId, createdAt: Date.now(), siteUrl: config.wpUrl, threshold, entries: dryRunEntries });
+  };
+
+  const startRun = async (targets: BlogPost[]) => {
+    if (!config.wpUrl && !isDryRun) return Toastify({ text: "Configure WP first", backgroundColor: "#f59e0b" }).showToast();
+    if (activeRun) await JobStore.clearRun(activeRun).catch(e => console.warn("Previous run not cleared", e));
+    const runId = `run_${Date.now().toString(36)}`;
+    const run: AutopilotRun = {
+        runId, siteKey: savedState.url, state: 'running', createdAt: Date.now(), updatedAt: Date.now(),
+        options: { fullAuto: isFullyAuto, dryRun: isDryRun, threshold: config.autoPublishThreshold || 85 },
+    };
+    const queue = createAutopilotJobs(runId, targets);
+    setJobs(Object.fromEntries(queue.map(j => [j.url, j])));
+    await JobStore.putJobs(queue).catch(e => console.warn("Jobs not persisted", e));
+    await executeRun(run, queue);
+  };
+
+  const runAutonomousPipeline = () => {
+    // Target critical opportunities first
+    const priorityScore = { critical: 3, high: 2, medium: 1, low: 0 };
+    startRun(savedState.posts
+        .filter(p => p.monetizationStatus === 'opportunity' && p.autoPilotStatus !== 'published' && p.autoPilotStatus !== 'rejected')
+        .sort((a, b) => priorityScore[b.priority || 'low'] - priorityScore[a.priority || 'low']));
+  };
+
+  const queuedJobs = useMemo(() => Object.values(jobs).filter(j => j.state === 'queued').sort((a, b) => a.order - b.order), [jobs]);
+  const jobCounts = useMemo(() => {
+      const all = Object.values(jobs);
+      return { total: all.length, finished: all.filter(j => j.state !== 'queued' && j.state !== 'running').length };
+  }, [jobs]);
+
+  const resumeRun = () => { if (activeRun) executeRun(activeRun, queuedJobs); };
+
+  const discardRun = async () => {
+      if (!activeRun) return;
+      await JobStore.clearRun(activeRun).catch(e => console.warn("Run not cleared", e));
+      setActiveRun(null);
+      setJobs({});
+  };
+
+  // Failed posts re-run alone, inside their own run when it is still around
+  const retryPost = (post: BlogPost) => {
+      if (!activeRun) return startRun([post]);
+      const job = jobs[post.url] || { ...createAutopilotJobs(activeRun.runId, [post])[0], order: jobCounts.total };
+      const requeued: AutopilotJob = { ...job, state: 'queued', updatedAt: Date.now() };
+      setJobs(prev => ({ ...prev, [post.url]: requeued }));
+      executeRun(activeRun, [requeued]);
+  };
+
+  const exportRunLog = () => {
+      if (!activeRun) return;
+      downloadFile(`amzpilot-${activeRun.runId}-log.csv`, exportRunLogCsv(savedState.posts, activeRun.runId), 'text/csv');
+  };
+
+  // Single-post patch against the latest state (review queue actions resolve out of order)
+  const updatePost = (url: string, patch: Partial<BlogPost>) => {
+      const next = { ...stateRef.current, posts: stateRef.current.posts.map(p => p.url === url ? { ...p, ...patch } : p) };
+      stateRef.current = next;
+      onStateChange(next);
   };
 
   const filteredPosts = useMemo(() => {
@@ -189,11 +394,16 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
       total: savedState.posts.length,
       critical: savedState.posts.filter(p => p.priority === 'critical').length,
       opportunities: savedState.posts.filter(p => p.monetizationStatus === 'opportunity').length,
-      monetized: savedState.posts.filter(p => p.monetizationStatus === 'monetized').length
+      monetized: savedState.posts.filter(p => p.monetizationStatus === 'monetized').length,
+      awaitingReview: savedState.posts.filter(p => p.autoPilotStatus === 'found' && p.proposedProduct).length
   }), [savedState.posts]);
 
   return (
     <div className="flex flex-col h-full bg-dark-950 md:flex-row relative">
+      {showRuns && <RunHistory config={config} onClose={() => setShowRuns(false)} />}
+      {showPriceRefresh && <PriceRefreshPanel config={config} posts={savedState.posts} onUpdatePost={updatePost} onClose={() => setShowPriceRefresh(false)} />}
+      {showCompliance && <CompliancePanel config={config} posts={savedState.posts} onUpdatePost={updatePost} onClose={() => setShowCompliance(false)} />}
+      {dryRunReport && <DryRunReportView report={dryRunReport} onClose={() => setDryRunReport(null)} />}
       
       {/* Sidebar Stats */}
       <div className="hidden md:flex w-72 bg-dark-900 border-r border-dark-800 flex-col p-6 z-10">
@@ -219,10 +429,28 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
               </div>
           </div>
           
+          {usageLedger && <AIUsageLedgerView ledger={usageLedger} onClose={() => setUsageLedger(null)} />}
+          
           <button onClick={() => runPriorityAnalysis(savedState.posts)} disabled={status !== 'idle'} className="w-full bg-dark-800 hover:bg-dark-700 text-gray-300 font-bold text-xs py-3 rounded-lg border border-dark-700 mb-2">
               <i className="fa-solid fa-sync mr-2"></i> Re-Analyze Priorities
           </button>
           
+          <button onClick={() => setShowRuns(true)} className="w-full bg-dark-800 hover:bg-dark-700 text-gray-300 font-bold text-xs py-3 rounded-lg border border-dark-700 mb-2">
+              <i className="fa-solid fa-clock-rotate-left mr-2"></i> Autopilot Runs
+          </button>
+          
+          <button onClick={exportRunLog} disabled={!activeRun} className="w-full bg-dark-800 hover:bg-dark-700 disabled:opacity-40 text-gray-300 font-bold text-xs py-3 rounded-lg border border-dark-700 mb-2">
+              <i className="fa-solid fa-file-csv mr-2"></i> Export Run Log
+          </button>
+          
+          <button onClick={() => setShowPriceRefresh(true)} disabled={status !== 'idle'} className="w-full bg-dark-800 hover:bg-dark-700 text-gray-300 font-bold text-xs py-3 rounded-lg border border-dark-700 mb-2">
+              <i className="fa-solid fa-tags mr-2"></i> Refresh Prices
+          </button>
+          
+          <button onClick={() => setShowCompliance(true)} disabled={status !== 'idle'} className="w-full bg-dark-800 hover:bg-dark-700 text-gray-300 font-bold text-xs py-3 rounded-lg border border-dark-700 mb-2">
+              <i className="fa-solid fa-scale-balanced mr-2"></i> Compliance Check
+          </button>
+          
           <button onClick={handleReset} className="mt-auto text-xs text-red-500 hover:text-red-400 font-bold py-3 flex items-center justify-center opacity-50 hover:opacity-100">
              <i className="fa-solid fa-trash mr-2"></i> Reset Data
           </button>
@@ -232,24 +460,124 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
       <div className="flex-1 flex flex-col h-full overflow-hidden">
         {/* Command Bar */}
         <div className="bg-dark-900/50 backdrop-blur-md border-b border-dark-800 p-4 flex flex-col md:flex-row gap-4 items-center z-20">
+             <div className="flex bg-dark-950 border border-dark-700 rounded-xl p-1 shrink-0">
+                <button type="button" onClick={() => setDiscoveryMode('sitemap')} disabled={status !== 'idle'} className={`px-3 py-2 rounded-lg text-[11px] font-bold uppercase ${discoveryMode === 'sitemap' ? 'bg-dark-800 text-white' : 'text-gray-500'}`}>Sitemap</button>
+                <button type="button" onClick={() => setDiscoveryMode('wp')} disabled={status !== 'idle'} className={`px-3 py-2 rounded-lg text-[11px] font-bold uppercase ${discoveryMode === 'wp' ? 'bg-dark-800 text-white' : 'text-gray-500'}`}>WP API</button>
+             </div>
+             {discoveryMode === 'sitemap' ? (
              <form onSubmit={handleFetchSitemap} className="w-full flex gap-2">
                 <input type="url" value={sitemapUrl} onChange={e => setSitemapUrl(e.target.value)} placeholder="https://yoursite.com/post-sitemap.xml" className="flex-1 bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm font-mono min-w-0 shadow-inner" />
                 <button type="submit" disabled={status !== 'idle'} className="bg-white text-dark-900 font-bold px-6 rounded-xl hover:bg-gray-200 whitespace-nowrap active:scale-95 transition-transform">
                    {status === 'scanning' ? <i className="fa-solid fa-spinner fa-spin"></i> : 'Sync'}
                 </button>
              </form>
-             <button onClick={status === 'processing' ? () => setStopSignal(true) : runAutonomousPipeline} className={`w-full md:w-auto px-6 py-3 rounded-xl font-bold text-white shadow-lg whitespace-nowrap active:scale-95 transition-transform flex items-center gap-2 ${status === 'processing' ? 'bg-red-600' : 'bg-brand-600 hover:bg-brand-500'}`}>
-                {status === 'processing' ? <><i className="fa-solid fa-stop"></i> STOP</> : <><i className="fa-solid fa-robot"></i> RUN AUTO-PILOT</>}
+             ) : (
+             <form onSubmit={handleDiscoverWordPress} className="w-full flex gap-2">
+                <div className="flex-1 bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-gray-400 text-sm font-mono min-w-0 truncate shadow-inner">
+                   {config.wpUrl ? `${config.wpUrl.replace(/\/$/, '')}/wp-json/wp/v2` : 'Configure WordPress in settings first'}
+                </div>
+                <button type="submit" disabled={status !== 'idle' || selectedTypes.length === 0} className="bg-white text-dark-900 font-bold px-6 rounded-xl hover:bg-gray-200 whitespace-nowrap active:scale-95 transition-transform">
+                   {status === 'scanning' ? <i className="fa-solid fa-spinner fa-spin"></i> : 'Sync'}
+                </button>
+             </form>
+             )}
+             {status === 'processing' ? (
+             <div className="flex gap-2 w-full md:w-auto">
+                <button onClick={() => { controlRef.current.paused = true; setStopRequest('pause'); }} disabled={!!stopRequest} className="flex-1 px-4 py-3 rounded-xl font-bold text-white bg-dark-800 hover:bg-dark-700 border border-dark-700 whitespace-nowrap disabled:opacity-50 flex items-center gap-2">
+                    <i className="fa-solid fa-pause"></i> {stopRequest === 'pause' ? 'PAUSING…' : 'PAUSE'}
+                </button>
+                <button onClick={() => { controlRef.current.cancelled = true; setStopRequest('cancel'); }} disabled={stopRequest === 'cancel'} className="flex-1 px-4 py-3 rounded-xl font-bold text-white bg-red-600 hover:bg-red-500 whitespace-nowrap disabled:opacity-50 flex items-center gap-2">
+                    <i className="fa-solid fa-stop"></i> {stopRequest === 'cancel' ? 'CANCELLING…' : 'CANCEL'}
+                </button>
+             </div>
+             ) : status === 'analyzing' ? (
+             <button onClick={() => { controlRef.current.cancelled = true; setStopRequest('cancel'); }} disabled={stopRequest === 'cancel'} className="w-full md:w-auto px-6 py-3 rounded-xl font-bold text-white bg-red-600 hover:bg-red-500 whitespace-nowrap disabled:opacity-50 flex items-center gap-2">
+                <i className="fa-solid fa-stop"></i> {stopRequest === 'cancel' ? 'STOPPING…' : 'STOP SCAN'}
+             </button>
+             ) : (
+             <button onClick={runAutonomousPipeline} disabled={status !== 'idle'} className="w-full md:w-auto px-6 py-3 rounded-xl font-bold text-white shadow-lg whitespace-nowrap active:scale-95 transition-transform flex items-center gap-2 bg-brand-600 hover:bg-brand-500">
+                {isDryRun ? <><i className="fa-solid fa-flask"></i> DRY RUN</> : <><i className="fa-solid fa-robot"></i> RUN AUTO-PILOT</>}
              </button>
+             )}
+             <div className="flex md:flex-col gap-3 md:gap-1 text-[10px] font-bold uppercase shrink-0">
+                <label className="flex items-center gap-2 cursor-pointer text-gray-400">
+                    <input type="checkbox" checked={isFullyAuto} onChange={e => setIsFullyAuto(e.target.checked)} disabled={status !== 'idle'} className="accent-brand-500" /> Full Auto
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer text-gray-400">
+                    <input type="checkbox" checked={isDryRun} onChange={e => setIsDryRun(e.target.checked)} disabled={status !== 'idle'} className="accent-brand-500" /> Dry Run
+                </label>
+             </div>
         </div>
 
+        {/* Discovery Filters & Progress */}
+        {discoveryMode === 'wp' ? (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-dark-900/30 border-b border-dark-800 text-[11px]">
+            <span className="text-gray-500 font-bold uppercase mr-1">Types:</span>
+            {wpPostTypes.map(type => (
+                <button key={type.restBase} type="button" disabled={status !== 'idle'} onClick={() => setSelectedTypes(prev => prev.includes(type.restBase) ? prev.filter(t => t !== type.restBase) : [...prev, type.restBase])} className={`px-3 py-1 rounded-full border font-bold uppercase transition-colors ${selectedTypes.includes(type.restBase) ? 'bg-brand-900/40 border-brand-500 text-brand-300' : 'border-dark-700 text-gray-600'}`}>
+                    {type.name}
+                </button>
+            ))}
+            <select value={categoryFilter} onChange={e => setCategoryFilter(parseInt(e.target.value))} className="bg-dark-950 border border-dark-700 rounded-lg px-2 py-1 text-gray-300 outline-none">
+                <option value={0}>All Categories</option>
+                {wpCategories.map(c => <option key={c.id} value={c.id}>{c.name} ({c.count})</option>)}
+            </select>
+            <select value={authorFilter} onChange={e => setAuthorFilter(parseInt(e.target.value))} className="bg-dark-950 border border-dark-700 rounded-lg px-2 py-1 text-gray-300 outline-none">
+                <option value={0}>All Authors</option>
+                {wpAuthors.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            {wpProgress && (
+                <span className="ml-auto font-mono truncate text-gray-400">
+                    <i className="fa-solid fa-spinner fa-spin mr-2 text-brand-500"></i>{wpProgress}
+                </span>
+            )}
+        </div>
+        ) : (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-dark-900/30 border-b border-dark-800 text-[11px]">
+            <span className="text-gray-500 font-bold uppercase mr-1">Include:</span>
+            {(['post', 'page', 'product', 'other'] as SitemapType[]).map(type => (
+                <button key={type} type="button" onClick={() => toggleSitemapType(type)} disabled={status !== 'idle'} className={`px-3 py-1 rounded-full border font-bold uppercase transition-colors ${sitemapTypes.includes(type) ? 'bg-brand-900/40 border-brand-500 text-brand-300' : 'border-dark-700 text-gray-600'}`}>
+                    {type}
+                </button>
+            ))}
+            {scanProgress && (
+                <span className={`ml-auto font-mono truncate ${scanProgress.error ? 'text-red-400' : 'text-gray-400'}`}>
+                    <i className="fa-solid fa-spinner fa-spin mr-2 text-brand-500"></i>
+                    Sitemap {scanProgress.index}/{scanProgress.total}: {scanProgress.sitemapUrl.split('/').pop()} · {scanProgress.urlsFound.toLocaleString()} URLs
+                    {scanProgress.error && ` (failed: ${scanProgress.error})`}
+                </span>
+            )}
+        </div>
+        )}
+
+        {/* Autopilot Run Progress */}
+        {activeRun && (status === 'processing' || queuedJobs.length > 0) && (
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-brand-900/10 border-b border-brand-900/40 text-[11px]">
+            <i className={`fa-solid ${status === 'processing' ? 'fa-spinner fa-spin' : 'fa-circle-pause'} text-brand-500`}></i>
+            <span className="text-gray-300 font-bold">
+                {status === 'processing' ? 'Auto-pilot running' : activeRun.state === 'running' ? 'Auto-pilot was interrupted' : 'Auto-pilot paused'}
+                {activeRun.options.dryRun && ' (dry run)'}
+            </span>
+            <span className="font-mono text-gray-500">{jobCounts.finished}/{jobCounts.total} posts · {Object.values(jobs).filter(j => j.state === 'failed').length} failed</span>
+            <div className="flex-1 h-1 bg-dark-800 rounded-full overflow-hidden min-w-[80px]">
+                <div className="h-full bg-brand-500 transition-all" style={{ width: `${jobCounts.total ? (jobCounts.finished / jobCounts.total) * 100 : 0}%` }}></div>
+            </div>
+            {status === 'idle' && <>
+                <button onClick={resumeRun} className="bg-brand-600 hover:bg-brand-500 text-white font-bold px-3 py-1 rounded-lg"><i className="fa-solid fa-play mr-1"></i> Resume {queuedJobs.length}</button>
+                <button onClick={discardRun} className="text-gray-500 hover:text-red-400 font-bold px-2 py-1">Discard</button>
+            </>}
+        </div>
+        )}
+
         {/* Tabs */}
         <div className="flex border-b border-dark-800 bg-dark-950 px-4 pt-2 gap-1 overflow-x-auto">
             {[
                 { id: 'critical', label: 'Critical Fixes', icon: 'fa-triangle-exclamation', color: 'text-red-500' },
                 { id: 'opportunity', label: 'All Opportunities', icon: 'fa-magnifying-glass', color: 'text-yellow-500' },
                 { id: 'monetized', label: 'Monetized', icon: 'fa-check-circle', color: 'text-green-500' },
-                { id: 'all', label: 'All Posts', icon: 'fa-list', color: 'text-gray-400' }
+                { id: 'all', label: 'All Posts', icon: 'fa-list', color: 'text-gray-400' },
+                { id: 'review', label: `Review Queue (${stats.awaitingReview})`, icon: 'fa-inbox', color: 'text-brand-400' },
+                { id: 'links', label: 'Link Audit', icon: 'fa-link', color: 'text-orange-400' }
             ].map(tab => (
                 <button 
                     key={tab.id}
@@ -269,9 +597,14 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
                 </div>
             )}
 
+            {activeTab === 'review' ? (
+                <ReviewQueue posts={savedState.posts} config={config} onUpdatePost={updatePost} onEdit={onPostSelect} />
+            ) : activeTab === 'links' ? (
+                <LinkAuditView posts={savedState.posts} config={config} onUpdatePost={updatePost} />
+            ) : (<>
             <div className="space-y-3">
                 {filteredPosts.map(post => (
-                    <div key={post.id} className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex flex-col md:flex-row gap-4 items-start md:items-center hover:border-dark-700 transition-colors group">
+                    <div key={post.id} className="bg-dark-900 border border-dark-800 rounded-xl p-4 flex flex-col md:flex-row md:flex-wrap gap-4 items-start md:items-center hover:border-dark-700 transition-colors group">
                         
                         <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2 mb-1">
@@ -289,11 +622,28 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
                         <div className="flex items-center gap-3 w-full md:w-auto">
                             {post.autoPilotStatus === 'found' && <span className="text-xs font-bold text-brand-400"><i className="fa-solid fa-check"></i> Product Found</span>}
                             {post.autoPilotStatus === 'published' && <span className="text-xs font-bold text-green-400"><i className="fa-solid fa-rocket"></i> Live</span>}
+                            {post.autoPilotStatus === 'rejected' && <span className="text-xs font-bold text-gray-500"><i className="fa-solid fa-ban"></i> Rejected</span>}
+                            {jobs[post.url]?.state === 'queued' && status === 'processing' && <span className="text-xs font-bold text-gray-500"><i className="fa-solid fa-hourglass-half"></i> Queued</span>}
+                            {post.autoPilotStatus === 'failed' && (
+                                <button onClick={() => retryPost(post)} disabled={status !== 'idle'} title={jobs[post.url]?.lastError || post.processingLog?.[post.processingLog.length - 1]?.message} className="text-xs font-bold text-red-400 hover:text-red-300 disabled:opacity-50">
+                                    <i className="fa-solid fa-rotate-right"></i> Failed{jobs[post.url]?.attempts > 1 ? ` ×${jobs[post.url].attempts}` : ''} · Retry
+                                </button>
+                            )}
+                            {!!post.deadAsins?.length && <span title={post.deadAsins.join(', ')} className="text-xs font-bold text-red-400"><i className="fa-solid fa-link-slash"></i> {post.deadAsins.length} Unavailable</span>}
+                            {!!post.complianceIssues?.length && <span title={post.complianceIssues.join(', ')} className="text-xs font-bold text-yellow-400"><i className="fa-solid fa-scale-balanced"></i> {post.complianceIssues.length} Compliance</span>}
+                            
+                            {!!post.processingLog?.length && (
+                                <button onClick={() => setExpandedLog(expandedLog === post.url ? null : post.url)} title="Pipeline timeline" className={`text-xs font-bold ${expandedLog === post.url ? 'text-brand-400' : 'text-gray-500 hover:text-gray-300'}`}>
+                                    <i className="fa-solid fa-timeline"></i> Log
+                                </button>
+                            )}
                             
                             <button onClick={() => onPostSelect(post)} className="flex-1 md:flex-none bg-white text-dark-950 font-bold text-xs px-4 py-2 rounded-lg hover:bg-gray-200 shadow-lg active:scale-95 transition-transform">
                                 Fix Now
                             </button>
                         </div>
+
+                        {expandedLog === post.url && <div className="w-full"><ProcessingTimeline entries={post.processingLog || []} /></div>}
                     </div>
                 ))}
             </div>
@@ -304,6 +654,7 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({ onPostSelect, sa
                     <p>No posts found in this category.</p>
                 </div>
             )}
+            </>)}
         </div>
       </div>
     </div>
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { VaultState } from '../types';
+import { Vault, DEFAULT_AUTO_LOCK_MINUTES } from '../utils';
+import Toastify from 'toastify-js';
+
+interface VaultGateProps {
+  onUnlocked: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 0, label: 'Never' },
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const VaultGate: React.FC<VaultGateProps> = ({ onUnlocked }) => {
+  const [state, setState] = useState<VaultState | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLock, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+      Vault.getState()
+          .then(async next => {
+              if (next === 'unlocked') return onUnlocked();
+              if (next === 'locked') setAutoLock(await Vault.getAutoLockMinutes());
+              setState(next);
+          })
+          .catch(e => Toastify({ text: `Vault unavailable: ${e.message}`, backgroundColor: "#ef4444" }).showToast());
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (state === 'setup') {
+          if (passphrase.length < MIN_PASSPHRASE_LENGTH) return Toastify({ text: `Use at least ${MIN_PASSPHRASE_LENGTH} characters`, backgroundColor: "#f59e0b" }).showToast();
+          if (passphrase !== confirmation) return Toastify({ text: "Passphrases do not match", backgroundColor: "#f59e0b" }).showToast();
+      }
+      setIsBusy(true);
+      try {
+          if (state === 'setup') await Vault.setup(passphrase, autoLock);
+          else await Vault.unlock(passphrase, autoLock);
+          setPassphrase('');
+          setConfirmation('');
+          onUnlocked();
+      } catch (err: any) {
+          Toastify({ text: err.message, backgroundColor: "#ef4444" }).showToast();
+      } finally {
+          setIsBusy(false);
+      }
+  };
+
+  const handleReset = async () => {
+      if (!confirm("Reset the vault? Every stored API key and password is deleted and has to be entered again. Scan data is kept.")) return;
+      await Vault.reset();
+      setPassphrase('');
+      setState('setup');
+  };
+
+  if (!state) return null;
+
+  return (
+    <div className="h-dvh w-screen bg-dark-950 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-dark-900 border border-dark-800 w-full max-w-sm rounded-2xl shadow-2xl p-8 space-y-4 animate-fade-in">
+          <div className="text-center">
+              <i className={`fa-solid ${state === 'setup' ? 'fa-shield-halved' : 'fa-lock'} text-3xl text-brand-500 mb-3`}></i>
+              <h2 className="text-lg font-black text-white">{state === 'setup' ? 'Protect Your Credentials' : 'Unlock AmzPilot'}</h2>
+              <p className="text-xs text-gray-500 mt-1">
+                  {state === 'setup'
+                      ? 'API keys and passwords are encrypted (AES-GCM) with this passphrase. It is never stored and cannot be recovered.'
+                      : 'Enter your passphrase to decrypt your stored credentials.'}
+              </p>
+          </div>
+
+          <input type="password" autoFocus value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Passphrase" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm" />
+          {state === 'setup' && (
+              <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} placeholder="Repeat passphrase" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm" />
+          )}
+
+          <label className="flex items-center justify-between text-xs text-gray-400">
+              Auto-lock after inactivity
+              <select value={autoLock} onChange={e => setAutoLock(parseInt(e.target.value))} className="bg-dark-950 border border-dark-700 rounded-lg px-2 py-1 text-gray-300 outline-none">
+                  {AUTO_LOCK_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+              </select>
+          </label>
+
+          <button type="submit" disabled={isBusy || !passphrase} className="w-full bg-brand-600 hover:bg-brand-500 disabled:opacity-40 text-white font-bold py-3 rounded-xl">
+              {isBusy ? <i className="fa-solid fa-spinner fa-spin"></i> : state === 'setup' ? 'Create Vault' : 'Unlock'}
+          </button>
+
+          {state === 'locked' && (
+              <button type="button" onClick={handleReset} className="w-full text-[11px] text-gray-600 hover:text-red-400">Forgot passphrase? Reset vault</button>
+          )}
+      </form>
+    </div>
+  );
+};
@@ -1,5 +1,104 @@
-import { BlogPost, ProductDetails } from './types';
+import { AppConfig, BlogPost, ProductDetails, Marketplace, MarketplaceId, AIModelPricing, PromptTemplate, RateLimit } from './types';
 
 // Live mode: No mock data.
 export const MOCK_POSTS: BlogPost[] = [];
 export const MOCK_PRODUCTS: Record<string, ProductDetails> = {};
+
+export const DEFAULT_CONFIG: AppConfig = {
+  amazonTag: '',
+  amazonAccessKey: '',
+  amazonSecretKey: '',
+  marketplace: 'US',
+  wpUrl: '',
+  wpUser: '',
+  wpAppPassword: '',
+  autoPublishThreshold: 85,
+  concurrencyLimit: 3,
+  enableSchema: true,
+  enableStickyBar: true,
+  aiProvider: 'gemini',
+  aiApiKey: '',
+  aiModel: 'gemini-2.5-flash'
+};
+
+// List prices in USD per million tokens, matched by longest model-id prefix (OpenRouter's "vendor/" prefix is ignored).
+// Estimates only: grounding/search surcharges and cached-input discounts are not modelled.
+export const AI_MODEL_PRICING: Record<string, AIModelPricing> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.50, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-5-haiku': { input: 0.80, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'llama3-70b-8192': { input: 0.59, output: 0.79 },
+};
+
+// Per-bucket request budgets. WordPress is limited per host and CORS proxies per proxy;
+// AI vendors are keyed by provider id and fall back to `ai`. A 429 halves a bucket's rate until it recovers.
+export const RATE_LIMITS: Record<string, RateLimit> = {
+  wordpress: { perSecond: 4, burst: 8 },
+  proxy: { perSecond: 2, burst: 4 },
+  relay: { perSecond: 8, burst: 16 },
+  paapi: { perSecond: 1, burst: 1 },
+  ai: { perSecond: 1, burst: 3 },
+  gemini: { perSecond: 2, burst: 5 },
+  openai: { perSecond: 2, burst: 5 },
+  anthropic: { perSecond: 1, burst: 3 },
+  groq: { perSecond: 0.5, burst: 2 },
+  custom: { perSecond: 4, burst: 8 },
+};
+
+const PROMPT_REQUIREMENTS = `Requirements:
+1. PRICE: Find exact current price on {{marketplace}} in {{currency}}. ASINs must be valid on {{marketplace}}.
+2. VERDICT: Write a 2-sentence "Verdict".
+3. Omit any field you cannot verify (rating, price, pros, cons). Never guess.`;
+
+const PROMPT_INPUT = `Input Context: Title: "{{title}}", Snippet: "{{context}}..."`;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin_single_v1', mode: 'single', name: 'Copywriter (built-in)', version: 1, createdAt: 0, builtin: true,
+    body: `You are an Elite Direct-Response Copywriter.
+Task: Identify the primary product this article is about. ASIN found in the article: {{asin}}. If there is one, verify its details; otherwise SEARCH the web for the product and find its ASIN, current price, and image URL.
+${PROMPT_REQUIREMENTS} If no product can be identified, return "found": false.
+${PROMPT_INPUT}`,
+  },
+  {
+    id: 'builtin_multi_v1', mode: 'multi', name: 'Copywriter (built-in)', version: 1, createdAt: 0, builtin: true,
+    body: `You are an Elite Direct-Response Copywriter.
+Task: DEEP SCAN MODE: Identify ALL distinct products reviewed.
+${PROMPT_REQUIREMENTS}
+${PROMPT_INPUT}`,
+  },
+  {
+    id: 'builtin_manual_asin_v1', mode: 'manual_asin', name: 'Copywriter (built-in)', version: 1, createdAt: 0, builtin: true,
+    body: `You are an Elite Direct-Response Copywriter.
+Task: CRITICAL TASK: I have provided a specific ASIN: {{asin}}. You MUST find the details for THIS specific product on Amazon. Use Google Search to find the REAL-TIME Price and specific product title.
+${PROMPT_REQUIREMENTS}
+${PROMPT_INPUT}`,
+  },
+];
+
+// FTC + Amazon Associates Operating Agreement wording
+export const DEFAULT_DISCLOSURE_TEXT = 'As an Amazon Associate I earn from qualifying purchases. Links marked as sponsored may earn us a commission at no extra cost to you.';
+
+export const MARKETPLACES: Record<MarketplaceId, Marketplace> = {
+  US: { id: 'US', label: 'United States', domain: 'amazon.com', currency: 'USD', decimalComma: false, paapiHost: 'webservices.amazon.com', paapiRegion: 'us-east-1' },
+  UK: { id: 'UK', label: 'United Kingdom', domain: 'amazon.co.uk', currency: 'GBP', decimalComma: false, paapiHost: 'webservices.amazon.co.uk', paapiRegion: 'eu-west-1' },
+  DE: { id: 'DE', label: 'Germany', domain: 'amazon.de', currency: 'EUR', decimalComma: true, paapiHost: 'webservices.amazon.de', paapiRegion: 'eu-west-1' },
+  FR: { id: 'FR', label: 'France', domain: 'amazon.fr', currency: 'EUR', decimalComma: true, paapiHost: 'webservices.amazon.fr', paapiRegion: 'eu-west-1' },
+  IT: { id: 'IT', label: 'Italy', domain: 'amazon.it', currency: 'EUR', decimalComma: true, paapiHost: 'webservices.amazon.it', paapiRegion: 'eu-west-1' },
+  ES: { id: 'ES', label: 'Spain', domain: 'amazon.es', currency: 'EUR', decimalComma: true, paapiHost: 'webservices.amazon.es', paapiRegion: 'eu-west-1' },
+  CA: { id: 'CA', label: 'Canada', domain: 'amazon.ca', currency: 'CAD', decimalComma: false, paapiHost: 'webservices.amazon.ca', paapiRegion: 'us-east-1' },
+  JP: { id: 'JP', label: 'Japan', domain: 'amazon.co.jp', currency: 'JPY', decimalComma: false, paapiHost: 'webservices.amazon.co.jp', paapiRegion: 'us-west-2' },
+};
@@ -0,0 +1,92 @@
+// Stub OpenAI-compatible endpoint for exercising the Custom provider without a local LLM.
+// No dependencies, Node 18+. Configure with environment variables:
+//
+//   STUB_PORT   listen port (default 11435)
+//
+// Routes:
+//   GET  /v1/models              -> the models below
+//   POST /v1/chat/completions    -> accepts only the response formats of the requested model
+//   GET  /stub/requests          -> every chat request seen so far, as { model, format }
+//
+// Models:
+//   stub-schema     accepts json_schema, json_object and no response_format (vLLM)
+//   stub-json       rejects json_schema, accepts json_object (older Ollama)
+//   stub-plain      rejects any response_format (llama.cpp server without grammar support)
+//   stub-reasoning  like stub-plain, but wraps the answer in a <think> block (DeepSeek-R1, Qwen3)
+//   stub-broken     fails every request with a 400 that has nothing to do with the response format
+
+import { createServer } from 'node:http';
+
+const PORT = parseInt(process.env.STUB_PORT || '11435', 10);
+
+const ACCEPTED_FORMATS = {
+    'stub-schema': ['json_schema', 'json_object', 'none'],
+    'stub-json': ['json_object', 'none'],
+    'stub-plain': ['none'],
+    'stub-reasoning': ['none'],
+};
+const MODELS = [...Object.keys(ACCEPTED_FORMATS), 'stub-broken'];
+
+const requests = [];
+
+const readJson = async (req) => {
+    const chunks = [];
+    for await (const chunk of req) chunks.push(chunk);
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+};
+
+const completion = (model, content) => ({
+    id: `chatcmpl-${requests.length}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 42, completion_tokens: 7, total_tokens: 49 },
+});
+
+const server = createServer(async (req, res) => {
+    const send = (status, body) => {
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': '*',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        });
+        res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+    const fail = (status, message) => send(status, { error: { message, type: 'invalid_request_error' } });
+
+    const { pathname } = new URL(req.url || '/', 'http://stub.local');
+    if (req.method === 'OPTIONS') return send(204);
+    if (req.method === 'GET' && pathname === '/v1/models') return send(200, { object: 'list', data: MODELS.map(id => ({ id, object: 'model', owned_by: 'stub' })) });
+    if (req.method === 'GET' && pathname === '/stub/requests') return send(200, requests);
+    if (req.method !== 'POST' || pathname !== '/v1/chat/completions') return fail(404, `Unknown route ${req.method} ${pathname}`);
+
+    let body;
+    try {
+        body = await readJson(req);
+    } catch (e) {
+        return fail(400, 'Body is not valid JSON');
+    }
+    const format = body.response_format?.type || 'none';
+    requests.push({ model: body.model, format });
+
+    if (body.model === 'stub-broken') return fail(400, "'messages' must contain at least one user turn");
+    const accepted = ACCEPTED_FORMATS[body.model];
+    if (!accepted) return fail(404, `model '${body.model}' not found`);
+    // llama.cpp answers an unsupported format with a grammar error, vLLM and Ollama name the field
+    if (!accepted.includes(format)) return fail(400, body.model === 'stub-plain' ? 'Failed to parse grammar' : `response_format type '${format}' is not supported`);
+
+    const answer = JSON.stringify({ ok: true, model: body.model, format });
+    send(200, completion(body.model, body.model === 'stub-reasoning' ? `<think>The user wants JSON.</think>\n${answer}` : answer));
+});
+
+// STUB_PORT=0 picks a free port; the banner reports the real one
+server.listen(PORT, () => console.log(`OpenAI-compatible stub on http://localhost:${server.address().port}/v1 with ${MODELS.join(', ')}`));
+
+const shutdown = () => {
+    server.close(() => process.exit(0));
+    server.closeAllConnections();
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
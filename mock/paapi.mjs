@@ -0,0 +1,152 @@
+// Mock Amazon Product Advertising API 5.0 for testing the PA-API client without real credentials.
+// No dependencies, Node 18+. Set Settings > Amazon > Endpoint Override to the printed URL.
+// Configure with environment variables:
+//
+//   MOCK_PAAPI_PORT        listen port (default 8788, 0 picks a free one)
+//   MOCK_PAAPI_ACCESS_KEY  access key the app must sign with (default "MOCKACCESSKEY")
+//   MOCK_PAAPI_SECRET_KEY  secret key the app must sign with (default "mock-secret")
+//
+// Routes (POST, SigV4-signed like the real service):
+//   /paapi5/getitems        -> catalog items for ItemIds; unknown ASINs come back in Errors
+//   /paapi5/searchitems     -> catalog items whose title contains every keyword
+//   /paapi5/getvariations   -> the variations of ASIN
+// Plus:
+//   GET /mock/requests      -> every signed request seen so far, as { operation, partnerTag, marketplace }
+
+import { createServer } from 'node:http';
+import { createHash, createHmac } from 'node:crypto';
+
+const PORT = parseInt(process.env.MOCK_PAAPI_PORT || '8788', 10);
+const ACCESS_KEY = process.env.MOCK_PAAPI_ACCESS_KEY || 'MOCKACCESSKEY';
+const SECRET_KEY = process.env.MOCK_PAAPI_SECRET_KEY || 'mock-secret';
+const SERVICE = 'ProductAdvertisingAPI';
+
+const item = (asin, title, price, { prime = true, rating = 4.5, reviews = 1200, features = [], parent } = {}) => ({
+    ASIN: asin,
+    ParentASIN: parent,
+    DetailPageURL: `https://www.amazon.com/dp/${asin}?tag=mock-20`,
+    ItemInfo: {
+        Title: { DisplayValue: title },
+        Features: { DisplayValues: features },
+    },
+    Images: {
+        Primary: { Large: { URL: `https://m.media-amazon.com/images/I/${asin}.jpg` } },
+        Variants: [{ Large: { URL: `https://m.media-amazon.com/images/I/${asin}-2.jpg` } }],
+    },
+    Offers: {
+        Listings: [{
+            Price: { DisplayAmount: `$${price.toFixed(2)}`, Amount: price, Currency: 'USD' },
+            Availability: { Message: 'In Stock' },
+            DeliveryInfo: { IsPrimeEligible: prime },
+        }],
+    },
+    CustomerReviews: { StarRating: { Value: rating }, Count: reviews },
+});
+
+const CATALOG = [
+    item('B0MOCK0001', 'Acme Espresso Machine 15 Bar', 199.99, { features: ['15 bar pump', 'Milk frother', 'Removable tank'] }),
+    item('B0MOCK0002', 'Acme Burr Coffee Grinder', 89.5, { prime: false, rating: 4.1, reviews: 310, features: ['40 grind settings'] }),
+    item('B0MOCK0003', 'Acme Milk Frother Handheld', 14.99, { rating: 4.3, reviews: 5400 }),
+    item('B0MOCK0004', 'Acme Espresso Machine 15 Bar - Silver', 209.99, { parent: 'B0MOCK0001' }),
+    item('B0MOCK0005', 'Acme Espresso Machine 15 Bar - Black', 199.99, { parent: 'B0MOCK0001' }),
+];
+const byAsin = new Map(CATALOG.map(i => [i.ASIN, i]));
+
+const requests = [];
+
+const sha256Hex = (data) => createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => createHmac('sha256', key).update(data).digest();
+
+// Recomputes the signature from the request exactly as Amazon does and compares it
+const verifySignature = (req, body) => {
+    const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/([^/]+)\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/.exec(req.headers.authorization || '');
+    if (!match) return 'Missing or malformed Authorization header';
+    const [, accessKey, dateStamp, region, service, signedHeaders, signature] = match;
+    if (accessKey !== ACCESS_KEY) return `Unknown access key ${accessKey}`;
+    if (service !== SERVICE) return `Wrong service ${service}`;
+    const amzDate = req.headers['x-amz-date'] || '';
+    if (!amzDate.startsWith(dateStamp)) return 'x-amz-date does not match the credential scope';
+
+    const names = signedHeaders.split(';');
+    const canonicalHeaders = names.map(n => `${n}:${String(req.headers[n] ?? '').trim()}\n`).join('');
+    const canonicalRequest = ['POST', new URL(req.url, 'http://mock.local').pathname, '', canonicalHeaders, signedHeaders, sha256Hex(body)].join('\n');
+    const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const key = hmac(hmac(hmac(hmac(`AWS4${SECRET_KEY}`, dateStamp), region), service), 'aws4_request');
+    return hmac(key, stringToSign).toString('hex') === signature ? null : 'The request signature we calculated does not match the signature you provided';
+};
+
+const readBody = async (req) => {
+    const chunks = [];
+    for await (const chunk of req) chunks.push(chunk);
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const notFound = (asin) => ({ Code: 'InvalidParameterValue', Message: `The ItemId ${asin} provided in the request is invalid.` });
+
+const OPERATIONS = {
+    getitems: (payload) => {
+        const ids = payload.ItemIds || [];
+        const items = ids.map(id => byAsin.get(id)).filter(Boolean);
+        const missing = ids.filter(id => !byAsin.has(id));
+        return {
+            ...(items.length ? { ItemsResult: { Items: items } } : {}),
+            ...(missing.length ? { Errors: missing.map(notFound) } : {}),
+        };
+    },
+    searchitems: (payload) => {
+        const words = String(payload.Keywords || '').toLowerCase().split(/\s+/).filter(Boolean);
+        const items = CATALOG.filter(i => !i.ParentASIN && words.every(w => i.ItemInfo.Title.DisplayValue.toLowerCase().includes(w)));
+        if (!items.length) return { Errors: [{ Code: 'NoResults', Message: 'No results found for your request.' }] };
+        return { SearchResult: { TotalResultCount: items.length, Items: items.slice(0, payload.ItemCount || 10) } };
+    },
+    getvariations: (payload) => {
+        const items = CATALOG.filter(i => i.ParentASIN === payload.ASIN);
+        if (!items.length) return { Errors: [notFound(payload.ASIN)] };
+        return { VariationsResult: { Items: items, VariationSummary: { VariationCount: items.length } } };
+    },
+};
+
+const server = createServer(async (req, res) => {
+    const send = (status, body) => {
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': '*',
+            'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+        });
+        res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+    const fail = (status, code, message) => send(status, { __type: `com.amazon.paapi5#${code}Exception`, Errors: [{ Code: code, Message: message }] });
+
+    const { pathname } = new URL(req.url || '/', 'http://mock.local');
+    if (req.method === 'OPTIONS') return send(204);
+    if (req.method === 'GET' && pathname === '/mock/requests') return send(200, requests);
+    const operation = OPERATIONS[pathname.replace(/^\/paapi5\//, '')];
+    if (req.method !== 'POST' || !pathname.startsWith('/paapi5/') || !operation) return fail(404, 'UnknownOperation', `Unknown route ${req.method} ${pathname}`);
+
+    const body = await readBody(req);
+    const signatureError = verifySignature(req, body);
+    if (signatureError) return fail(401, 'InvalidSignature', signatureError);
+
+    let payload;
+    try {
+        payload = JSON.parse(body);
+    } catch (e) {
+        return fail(400, 'InvalidPayload', 'Body is not valid JSON');
+    }
+    if (!payload.PartnerTag) return fail(400, 'InvalidPartnerTag', 'PartnerTag is required');
+    requests.push({ operation: pathname.slice('/paapi5/'.length), partnerTag: payload.PartnerTag, marketplace: payload.Marketplace });
+    // Like the real service, per-item problems come back with 200 next to the items that worked
+    send(200, operation(payload));
+});
+
+// MOCK_PAAPI_PORT=0 picks a free port; the banner reports the real one
+server.listen(PORT, () => console.log(`Mock PA-API on http://localhost:${server.address().port} (access key ${ACCESS_KEY}, secret ${SECRET_KEY})`));
+
+const shutdown = () => {
+    server.close(() => process.exit(0));
+    server.closeAllConnections();
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,228 @@
+// AmzPilot relay: a small self-hosted CORS relay for sitemap fetches, page scrapes and AI calls.
+// No dependencies, Node 18+ (global fetch). Configure with environment variables:
+//
+//   RELAY_SECRET           shared secret, sent by the app as X-Relay-Secret (required)
+//   RELAY_ALLOWED_HOSTS    comma-separated upstream hosts, "*.example.com" covers subdomains; a non-default port must be listed, "example.com:8443" (required)
+//   RELAY_ALLOWED_ORIGINS  comma-separated app origins for CORS (default "*")
+//   RELAY_PORT             listen port (default 8787, or PORT)
+//   RELAY_CACHE_TTL        seconds a successful GET without credentials stays cached (default 600, 0 disables)
+//   RELAY_CACHE_MAX        cached responses kept in memory (default 500)
+//   RELAY_TIMEOUT          upstream timeout in seconds (default 120)
+//
+// Routes:
+//   GET /health                      -> { ok, allowedHosts, cached }
+//   ANY /r/<host>/<path>?<query>     -> https://<host>/<path>?<query>
+
+import { createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+const env = process.env;
+const PORT = parseInt(env.RELAY_PORT || env.PORT || '8787', 10);
+const SECRET = env.RELAY_SECRET || '';
+const ALLOWED_HOSTS = (env.RELAY_ALLOWED_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+const ALLOWED_ORIGINS = (env.RELAY_ALLOWED_ORIGINS || '*').split(',').map(o => o.trim()).filter(Boolean);
+const CACHE_TTL_MS = parseInt(env.RELAY_CACHE_TTL || '600', 10) * 1000;
+const CACHE_MAX_ENTRIES = parseInt(env.RELAY_CACHE_MAX || '500', 10);
+const TIMEOUT_MS = parseInt(env.RELAY_TIMEOUT || '120', 10) * 1000;
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+const SECRET_HEADER = 'x-relay-secret';
+const DROPPED_REQUEST_HEADERS = new Set([
+    'host', 'connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'te', 'trailer',
+    'proxy-authorization', 'proxy-connection', 'origin', 'referer', 'cookie', 'content-length', 'accept-encoding', SECRET_HEADER,
+]);
+// Any of these makes the response specific to the caller, so it must never be served from the shared cache
+const CREDENTIAL_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'x-api-key', 'x-goog-api-key', 'x-amz-security-token']);
+const CREDENTIAL_HEADER_PATTERN = /auth|api-?key|token|secret|session/;
+const PASSED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'last-modified', 'etag', 'x-wp-total', 'x-wp-totalpages'];
+const EXPOSED_HEADERS = 'Retry-After, X-WP-Total, X-WP-TotalPages, X-Relay-Cache, X-Relay-Final-Url';
+
+class RelayError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+// "*" alone would turn the relay into an open proxy for anyone holding the secret.
+// `host` includes a non-default port, so "example.com" does not open example.com:8443.
+const isAllowedHost = (host) => ALLOWED_HOSTS.some(pattern => pattern.startsWith('*.')
+    ? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+    : host === pattern);
+
+// Hashing first keeps timingSafeEqual happy with secrets of any length
+const digest = (value) => createHash('sha256').update(value).digest();
+const hasSecret = (req) => timingSafeEqual(digest(String(req.headers[SECRET_HEADER] || '')), digest(SECRET));
+
+const corsHeaders = (req) => {
+    const origin = req.headers.origin;
+    const allowed = ALLOWED_ORIGINS.includes('*') ? '*' : origin && ALLOWED_ORIGINS.includes(origin) ? origin : null;
+    return allowed ? { 'Access-Control-Allow-Origin': allowed, 'Access-Control-Expose-Headers': EXPOSED_HEADERS, 'Vary': 'Origin' } : { 'Vary': 'Origin' };
+};
+
+// In-memory LRU: a Map iterates in insertion order, so re-inserting on a hit keeps the oldest entry first
+const cache = new Map();
+
+const cacheGet = (key) => {
+    const entry = cache.get(key);
+    if (!entry) return null;
+    cache.delete(key);
+    if (entry.expires < Date.now()) return null;
+    cache.set(key, entry);
+    return entry;
+};
+
+const cacheSet = (key, entry) => {
+    if (CACHE_TTL_MS <= 0) return;
+    cache.delete(key);
+    cache.set(key, { ...entry, expires: Date.now() + CACHE_TTL_MS });
+    while (cache.size > CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value);
+};
+
+const readRequestBody = async (req) => {
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new RelayError(413, 'Request body too large');
+        chunks.push(chunk);
+    }
+    return chunks.length ? Buffer.concat(chunks) : undefined;
+};
+
+const hasCredentials = (headers) => Object.keys(headers).some(name => CREDENTIAL_HEADERS.has(name) || CREDENTIAL_HEADER_PATTERN.test(name));
+
+// Counts bytes as they arrive, so an oversized upstream body is cut off instead of buffered whole
+const readResponseBody = async (res) => {
+    const declared = parseInt(res.headers.get('content-length') || '0', 10);
+    if (declared > MAX_BODY_BYTES) {
+        await res.body?.cancel();
+        throw new RelayError(502, 'Upstream response too large');
+    }
+    const chunks = [];
+    let size = 0;
+    if (!res.body) return Buffer.alloc(0);
+    const reader = res.body.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > MAX_BODY_BYTES) {
+            await reader.cancel();
+            throw new RelayError(502, 'Upstream response too large');
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+};
+
+const forwardedHeaders = (req) => {
+    const headers = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+        if (DROPPED_REQUEST_HEADERS.has(name) || name.startsWith('sec-') || value === undefined) continue;
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return headers;
+};
+
+// Redirects are followed by hand so every hop is checked against the allowlist
+const fetchUpstream = async (target, init) => {
+    let url = target;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const res = await fetch(url, { ...init, redirect: 'manual', signal: AbortSignal.timeout(TIMEOUT_MS) });
+        const location = res.headers.get('location');
+        const follow = location && res.status >= 300 && res.status < 400 && (init.method === 'GET' || init.method === 'HEAD');
+        if (!follow) return { res, finalUrl: url };
+        await res.body?.cancel();
+        const next = new URL(location, url);
+        if (next.protocol !== 'https:' || !isAllowedHost(next.host)) throw new RelayError(403, `Redirect to ${next.host} is not on the relay allowlist`);
+        url = next.toString();
+    }
+    throw new RelayError(502, 'Too many redirects');
+};
+
+const relay = async (req, target) => {
+    const method = req.method || 'GET';
+    const headers = forwardedHeaders(req);
+    // Authenticated responses are per-user; only anonymous GETs are shared
+    const cacheable = method === 'GET' && !hasCredentials(headers);
+    const cacheKey = target.toString();
+    if (cacheable) {
+        const hit = cacheGet(cacheKey);
+        if (hit) return { ...hit, cacheState: 'HIT' };
+    }
+
+    const body = method === 'GET' || method === 'HEAD' ? undefined : await readRequestBody(req);
+    const { res, finalUrl } = await fetchUpstream(cacheKey, { method, headers, body });
+    const buffer = await readResponseBody(res);
+
+    const passed = {};
+    PASSED_RESPONSE_HEADERS.forEach(name => { const value = res.headers.get(name); if (value) passed[name] = value; });
+    const result = { status: res.status, headers: passed, body: buffer, finalUrl };
+    if (cacheable && res.status === 200) cacheSet(cacheKey, result);
+    return { ...result, cacheState: cacheable ? 'MISS' : 'BYPASS' };
+};
+
+const server = createServer(async (req, res) => {
+    const cors = corsHeaders(req);
+    const send = (status, body, headers = {}) => {
+        res.writeHead(status, { ...cors, ...headers });
+        res.end(body);
+    };
+    const fail = (status, message) => send(status, JSON.stringify({ error: message }), { 'Content-Type': 'application/json' });
+
+    if (req.method === 'OPTIONS') {
+        return send(204, undefined, {
+            'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS',
+            'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || '*',
+            'Access-Control-Max-Age': '600',
+        });
+    }
+    if (!hasSecret(req)) return fail(401, 'Missing or wrong relay secret');
+
+    const { pathname, search } = new URL(req.url || '/', 'http://relay.local');
+    if (pathname === '/health') return send(200, JSON.stringify({ ok: true, allowedHosts: ALLOWED_HOSTS, cached: cache.size }), { 'Content-Type': 'application/json' });
+    if (!pathname.startsWith('/r/')) return fail(404, 'Unknown route. Use /r/<host>/<path>');
+
+    let target;
+    try {
+        target = new URL(`https://${pathname.slice(3)}${search}`);
+    } catch (e) {
+        return fail(400, 'Invalid target URL');
+    }
+    if (!isAllowedHost(target.host)) return fail(403, `${target.host} is not on the relay allowlist`);
+
+    try {
+        const result = await relay(req, target);
+        console.log(`${req.method} ${target.host} ${result.status} ${result.cacheState}`);
+        send(result.status, req.method === 'HEAD' ? undefined : result.body, {
+            ...result.headers,
+            'X-Relay-Cache': result.cacheState,
+            'X-Relay-Final-Url': result.finalUrl,
+        });
+    } catch (e) {
+        console.warn(`${req.method} ${target.host} failed: ${e.message}`);
+        if (e instanceof RelayError) return fail(e.status, e.message);
+        if (e.name === 'TimeoutError') return fail(504, `${target.host} timed out`);
+        fail(502, `${target.host}: ${e.cause?.message || e.message}`);
+    }
+});
+
+if (!SECRET) {
+    console.error('RELAY_SECRET is not set. Refusing to start an unauthenticated relay.');
+    process.exit(1);
+}
+if (ALLOWED_HOSTS.length === 0 || ALLOWED_HOSTS.includes('*')) {
+    console.error('RELAY_ALLOWED_HOSTS must list the hosts to reach, e.g. "example.com,*.amazon.com,amzn.to,api.openai.com".');
+    process.exit(1);
+}
+
+server.listen(PORT, () => console.log(`AmzPilot relay on :${PORT} for ${ALLOWED_HOSTS.join(', ')}`));
+
+const shutdown = () => {
+    server.close(() => process.exit(0));
+    server.closeAllConnections();
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
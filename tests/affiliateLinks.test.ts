@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fixAffiliateLinks, scanCompliance } from '../utils';
+import { DEFAULT_CONFIG } from '../constants';
+import { AppConfig } from '../types';
+
+const config: AppConfig = { ...DEFAULT_CONFIG, amazonTag: 'site-20', amazonTags: { UK: 'site-21' } };
+
+describe('fixAffiliateLinks', () => {
+  it('tags untagged storefront links with the marketplace tag', () => {
+    const html = fixAffiliateLinks(config, '<a href="https://www.amazon.co.uk/dp/B000000001">Buy</a>');
+    expect(html).toBe('<a href="https://www.amazon.co.uk/dp/B000000001?tag=site-21" rel="nofollow sponsored">Buy</a>');
+  });
+
+  it('keeps an existing tag and merges rel values', () => {
+    const html = fixAffiliateLinks(config, '<a rel="noopener" href="https://www.amazon.com/dp/B000000001?tag=other-20&amp;th=1">Buy</a>');
+    expect(html).toContain('href="https://www.amazon.com/dp/B000000001?tag=other-20&amp;th=1"');
+    expect(html).toContain('rel="noopener nofollow sponsored"');
+  });
+
+  it('only marks short links as sponsored', () => {
+    expect(fixAffiliateLinks(config, '<a href="https://amzn.to/3abcDEF">Buy</a>')).toBe('<a href="https://amzn.to/3abcDEF" rel="nofollow sponsored">Buy</a>');
+  });
+
+  it('leaves tagged links on other sites alone', () => {
+    const html = '<a href="https://myblog.com/?tag=coffee">More about coffee</a> <a href="https://example.com/amazon.com/review">Review</a>';
+    expect(fixAffiliateLinks(config, html)).toBe(html);
+  });
+
+  it('is idempotent', () => {
+    const once = fixAffiliateLinks(config, '<p><a href="https://www.amazon.de/dp/B000000001">Kaufen</a></p>');
+    expect(fixAffiliateLinks(config, once)).toBe(once);
+  });
+});
+
+describe('scanCompliance', () => {
+  it('does not treat a WordPress tag archive link as an affiliate link', () => {
+    expect(scanCompliance('<p>See <a href="https://myblog.com/?tag=espresso">all espresso posts</a>.</p>')).toEqual([]);
+  });
+
+  it('flags a missing disclosure, tag and rel on Amazon links', () => {
+    const types = scanCompliance('<p><a href="https://www.amazon.com/dp/B000000001">Buy</a></p>').map(i => i.type);
+    expect(types).toEqual(['missing_disclosure', 'missing_tag', 'missing_sponsored_rel']);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { parseBlocks, serializeBlocks } from '../utils';
+
+const GUTENBERG_POST = `<!-- wp:paragraph -->
+<p>Intro with <a href="https://www.amazon.com/dp/B000000001">a link</a>.</p>
+<!-- /wp:paragraph -->
+
+<!-- wp:heading {"level":3,"className":"is-style-underline"} -->
+<h3 class="wp-block-heading is-style-underline">Best overall</h3>
+<!-- /wp:heading -->
+
+<!-- wp:columns -->
+<div class="wp-block-columns"><!-- wp:column {"width":"66.66%"} -->
+<div class="wp-block-column" style="flex-basis:66.66%"><!-- wp:list -->
+<ul><!-- wp:list-item -->
+<li>Quiet</li>
+<!-- /wp:list-item -->
+
+<!-- wp:list-item -->
+<li>Fast</li>
+<!-- /wp:list-item --></ul>
+<!-- /wp:list --></div>
+<!-- /wp:column -->
+
+<!-- wp:column -->
+<div class="wp-block-column"><!-- wp:image {"id":42} -->
+<figure class="wp-block-image"><img src="x.jpg" alt=""/></figure>
+<!-- /wp:image --></div>
+<!-- /wp:column --></div>
+<!-- /wp:columns -->
+
+<!-- wp:spacer {"height":"20px"} /-->
+
+<!-- wp:acme/product-box {"asin":"B000000001","note":"a \\u003cb\\u003e tag"} /-->
+
+<!-- wp:separator -->
+<hr class="wp-block-separator"/>
+<!-- /wp:separator -->`;
+
+describe('parseBlocks / serializeBlocks', () => {
+  it('round-trips a Gutenberg post byte for byte', () => {
+    expect(serializeBlocks(parseBlocks(GUTENBERG_POST))).toBe(GUTENBERG_POST);
+  });
+
+  it('round-trips classic content and stray HTML between blocks', () => {
+    const classic = '<p>Classic editor post</p>\n<p>No block comments at all.</p>';
+    expect(serializeBlocks(parseBlocks(classic))).toBe(classic);
+    const mixed = `<p>Before</p>\n${GUTENBERG_POST}\n<p>After</p>`;
+    expect(serializeBlocks(parseBlocks(mixed))).toBe(mixed);
+  });
+
+  it('keeps unusual delimiter spelling', () => {
+    const odd = '<!--   wp:core/paragraph   {"align":"center"}   -->\n<p>x</p>\n<!-- /wp:core/paragraph -->';
+    const out = serializeBlocks(parseBlocks(odd));
+    expect(out).toContain('wp:core/paragraph {"align":"center"}');
+    expect(parseBlocks(out)[0]).toMatchObject({ blockName: 'core/paragraph', attrs: { align: 'center' } });
+  });
+
+  it('builds the block tree', () => {
+    const blocks = parseBlocks(GUTENBERG_POST).filter(b => b.blockName);
+    expect(blocks.map(b => b.blockName)).toEqual(['core/paragraph', 'core/heading', 'core/columns', 'core/spacer', 'acme/product-box', 'core/separator']);
+    expect(blocks[1].attrs).toEqual({ level: 3, className: 'is-style-underline' });
+    const [left, right] = blocks[2].innerBlocks;
+    expect(left.attrs).toEqual({ width: '66.66%' });
+    expect(left.innerBlocks[0].innerBlocks.map(b => b.innerHTML.trim())).toEqual(['<li>Quiet</li>', '<li>Fast</li>']);
+    expect(right.innerBlocks[0].blockName).toBe('core/image');
+    expect(blocks[4].attrs).toEqual({ asin: 'B000000001', note: 'a <b> tag' });
+  });
+
+  it('re-serializes changed attributes with WordPress escaping', () => {
+    const blocks = parseBlocks('<!-- wp:acme/product-box {"asin":"B000000001"} /-->');
+    blocks[0].attrs = { ...blocks[0].attrs, note: 'a <b> & "quote" --' };
+    const out = serializeBlocks(blocks);
+    expect(out).toBe('<!-- wp:acme/product-box {"asin":"B000000001","note":"a \\u003cb\\u003e \\u0026 \\u0022quote\\u0022 \\u002d\\u002d"} /-->');
+    expect(parseBlocks(out)[0].attrs.note).toBe('a <b> & "quote" --');
+  });
+
+  it('treats a closer without an opener as freeform, like WordPress', () => {
+    const broken = '<p>a</p><!-- /wp:paragraph --><p>b</p>';
+    const blocks = parseBlocks(broken);
+    expect(blocks.every(b => b.blockName === null)).toBe(true);
+    expect(serializeBlocks(blocks)).toBe(broken);
+  });
+
+  it('closes unterminated blocks at the end of the document', () => {
+    const open = '<!-- wp:group -->\n<div class="wp-block-group"><p>never closed</p></div>';
+    const [block] = parseBlocks(open);
+    expect(block.blockName).toBe('core/group');
+    expect(block.innerHTML).toContain('never closed');
+  });
+});
@@ -0,0 +1,85 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { AI_PROVIDER_ADAPTERS, AIProviderError, discoverCustomModels } from '../utils';
+import { AIResponseSchema } from '../types';
+
+// Runs the stub from mock/openai-compatible.mjs and drives the Custom provider against it
+let stub: ChildProcess;
+let baseUrl = '';
+
+const schema: AIResponseSchema = {
+  name: 'stub_answer',
+  description: 'Stub answer',
+  schema: { type: 'object', properties: { ok: { type: 'boolean' } }, required: ['ok'] },
+};
+
+const generate = (model: string) => AI_PROVIDER_ADAPTERS.custom.generate({ apiKey: '', model, baseUrl, prompt: 'Reply with JSON', schema });
+
+const formatsTried = async (model: string): Promise<string[]> => {
+  const res = await fetch(`${baseUrl.replace(/\/v1$/, '')}/stub/requests`);
+  const requests: { model: string; format: string }[] = await res.json();
+  return requests.filter(r => r.model === model).map(r => r.format);
+};
+
+beforeAll(async () => {
+  stub = spawn(process.execPath, ['mock/openai-compatible.mjs'], { env: { ...process.env, STUB_PORT: '0' } });
+  baseUrl = await new Promise<string>((resolve, reject) => {
+    stub.stdout!.on('data', (chunk: Buffer) => {
+      const match = chunk.toString().match(/(http:\/\/localhost:\d+\/v1)/);
+      if (match) resolve(match[1]);
+    });
+    stub.once('exit', code => reject(new Error(`Stub exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  stub?.kill();
+});
+
+beforeEach(() => {
+  // The adapter caches the accepted format per endpoint and model
+  localStorage.clear();
+});
+
+describe('custom provider', () => {
+  it('discovers the models the endpoint serves', async () => {
+    const models = await discoverCustomModels(baseUrl.replace(/^http:\/\//, ''));
+    expect(models).toEqual(['stub-broken', 'stub-json', 'stub-plain', 'stub-reasoning', 'stub-schema']);
+  });
+
+  it('uses json_schema when the endpoint accepts it', async () => {
+    const completion = await generate('stub-schema');
+    expect(JSON.parse(completion.text)).toMatchObject({ ok: true, format: 'json_schema' });
+    expect(completion.usage).toMatchObject({ inputTokens: 42, outputTokens: 7, estimated: false });
+    expect(await formatsTried('stub-schema')).toEqual(['json_schema']);
+  });
+
+  it('falls back from json_schema to json_object', async () => {
+    const completion = await generate('stub-json');
+    expect(JSON.parse(completion.text)).toMatchObject({ format: 'json_object' });
+    expect(await formatsTried('stub-json')).toEqual(['json_schema', 'json_object']);
+  });
+
+  it('falls back to no response_format on a grammar error and strips think blocks', async () => {
+    expect(JSON.parse((await generate('stub-plain')).text)).toMatchObject({ format: 'none' });
+    expect(await formatsTried('stub-plain')).toEqual(['json_schema', 'json_object', 'none']);
+    expect(JSON.parse((await generate('stub-reasoning')).text)).toMatchObject({ format: 'none' });
+  });
+
+  it('remembers the accepted format for the next call', async () => {
+    await generate('stub-json');
+    const before = (await formatsTried('stub-json')).length;
+    await generate('stub-json');
+    expect((await formatsTried('stub-json')).slice(before)).toEqual(['json_object']);
+  });
+
+  it('does not fall back on errors unrelated to the response format', async () => {
+    await expect(generate('stub-broken')).rejects.toBeInstanceOf(AIProviderError);
+    expect(await formatsTried('stub-broken')).toEqual(['json_schema']);
+  });
+
+  it('does not fall back when the model does not exist', async () => {
+    await expect(generate('missing-model')).rejects.toMatchObject({ status: 404 });
+    expect(await formatsTried('missing-model')).toEqual(['json_schema']);
+  });
+});
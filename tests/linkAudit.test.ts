@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { auditPostLinks, rewriteAffiliateLinks } from '../utils';
+import { DEFAULT_CONFIG } from '../constants';
+import { AppConfig, AuditedLink } from '../types';
+
+const config: AppConfig = { ...DEFAULT_CONFIG, amazonTag: 'site-20', amazonTags: { DE: 'site-21' } };
+
+const link = (patch: Partial<AuditedLink> & Pick<AuditedLink, 'href' | 'status'>): AuditedLink => ({ count: 1, ...patch });
+
+describe('rewriteAffiliateLinks', () => {
+  it('re-tags wrong and missing tags for the link marketplace', () => {
+    const html = '<a href="https://www.amazon.com/dp/B000000001?tag=other-20&amp;th=1">A</a> <a href="https://www.amazon.de/dp/B000000002">B</a>';
+    const { html: out, rewritten } = rewriteAffiliateLinks(config, html, [
+      link({ href: 'https://www.amazon.com/dp/B000000001?tag=other-20&amp;th=1', status: 'wrong_tag', marketplace: 'US', asin: 'B000000001', tag: 'other-20' }),
+      link({ href: 'https://www.amazon.de/dp/B000000002', status: 'untagged', marketplace: 'DE', asin: 'B000000002' }),
+    ]);
+    expect(rewritten).toBe(2);
+    expect(out).toBe('<a href="https://www.amazon.com/dp/B000000001?tag=site-20&amp;th=1" rel="nofollow sponsored">A</a> <a href="https://www.amazon.de/dp/B000000002?tag=site-21" rel="nofollow sponsored">B</a>');
+  });
+
+  it('replaces a resolved short link with a direct storefront link', () => {
+    const { html } = rewriteAffiliateLinks(config, '<a href="https://amzn.to/3abc" rel="sponsored">A</a>', [
+      link({ href: 'https://amzn.to/3abc', resolvedUrl: 'https://www.amazon.com/dp/B000000001?tag=other-20', status: 'wrong_tag', marketplace: 'US', asin: 'B000000001' }),
+    ]);
+    expect(html).toBe('<a href="https://www.amazon.com/dp/B000000001?tag=site-20" rel="sponsored">A</a>');
+  });
+
+  it('leaves tagged, dead and unresolved links alone', () => {
+    const html = '<a href="https://www.amazon.com/dp/B000000001?tag=site-20">A</a><a href="https://www.amazon.com/dp/B000000009">B</a><a href="https://amzn.to/x">C</a>';
+    const { html: out, rewritten } = rewriteAffiliateLinks(config, html, [
+      link({ href: 'https://www.amazon.com/dp/B000000001?tag=site-20', status: 'tagged', marketplace: 'US' }),
+      link({ href: 'https://www.amazon.com/dp/B000000009', status: 'dead_asin', marketplace: 'US', asin: 'B000000009' }),
+      link({ href: 'https://amzn.to/x', status: 'unresolved' }),
+    ]);
+    expect(rewritten).toBe(0);
+    expect(out).toBe(html);
+  });
+});
+
+describe('auditPostLinks', () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('classifies links per marketplace and follows short links through the relay', async () => {
+    // Amazon answers the last hop with an anti-bot page; the relay still reports where it ended up
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('robot check', {
+      status: 503,
+      headers: { 'X-Relay-Final-Url': 'https://www.amazon.de/dp/B000000003?tag=site-21' },
+    }));
+    const html = `<p><a href="https://www.amazon.com/dp/B000000001?tag=site-20">A</a>
+      <a href="https://www.amazon.com/dp/B000000001?tag=site-20">A again</a>
+      <a href="https://www.amazon.de/dp/B000000002?tag=site-20">B</a>
+      <a href="https://www.amazon.co.uk/gp/product/B000000004">C</a>
+      <a href="https://amzn.to/3abc">D</a>
+      <a href="https://myblog.com/?tag=coffee">not Amazon</a></p>`;
+    const links = await auditPostLinks({ ...config, relayUrl: 'https://relay.example.com', relaySecret: 's' }, html);
+    expect(fetchSpy).toHaveBeenCalledWith('https://relay.example.com/r/amzn.to/3abc', expect.anything());
+    expect(links.map(({ href, count, ...rest }) => ({ count, ...rest }))).toEqual([
+      { count: 2, asin: 'B000000001', tag: 'site-20', marketplace: 'US', status: 'tagged' },
+      { count: 1, asin: 'B000000002', tag: 'site-20', marketplace: 'DE', status: 'wrong_tag' },
+      { count: 1, asin: 'B000000004', marketplace: 'UK', status: 'untagged' },
+      { count: 1, asin: 'B000000003', tag: 'site-21', marketplace: 'DE', status: 'tagged', resolvedUrl: 'https://www.amazon.de/dp/B000000003?tag=site-21' },
+    ]);
+  });
+
+  it('marks ASINs dead only on the marketplace they were reported for', async () => {
+    const html = '<a href="https://www.amazon.com/dp/B000000001?tag=site-20">US</a><a href="https://www.amazon.de/dp/B000000001?tag=site-21">DE</a>';
+    const links = await auditPostLinks(config, html, new Set(['US:B000000001']));
+    expect(links.map(l => l.status)).toEqual(['dead_asin', 'tagged']);
+  });
+});
@@ -0,0 +1,160 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { analyzeContentAndFindProduct, getAmazonItems, getAmazonVariations, runPromptComparison, searchAmazonItems } from '../utils';
+import { DEFAULT_CONFIG } from '../constants';
+import { AppConfig, BlogPost, PromptTemplate } from '../types';
+
+// Runs the mock from mock/paapi.mjs and signs real requests against it
+let mock: ChildProcess;
+let config: AppConfig;
+
+const POST_HTML = `<p>Our favourite espresso machine this year is the Acme. It pulls a proper shot.</p>
+<p><a href="https://www.amazon.com/dp/B0MOCK0001?tag=site-20">Check the price</a></p>`;
+
+beforeAll(async () => {
+  mock = spawn(process.execPath, ['mock/paapi.mjs'], { env: { ...process.env, MOCK_PAAPI_PORT: '0' } });
+  const endpoint = await new Promise<string>((resolve, reject) => {
+    mock.stdout!.on('data', (chunk: Buffer) => {
+      const match = chunk.toString().match(/(http:\/\/localhost:\d+)/);
+      if (match) resolve(match[1]);
+    });
+    mock.once('exit', code => reject(new Error(`Mock exited with ${code}`)));
+  });
+  config = {
+    ...DEFAULT_CONFIG,
+    amazonTag: 'site-20',
+    amazonAccessKey: 'MOCKACCESSKEY',
+    amazonSecretKey: 'mock-secret',
+    amazonApiEndpoint: endpoint,
+    // No AI key: anything that reaches the AI fails loudly
+    aiProvider: 'openai',
+    aiApiKey: '',
+    aiModel: 'gpt-4o',
+  };
+});
+
+afterAll(() => {
+  mock?.kill();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('PA-API client', () => {
+  it('fills products from GetItems', async () => {
+    const [item] = await getAmazonItems(config, ['b0mock0002']);
+    expect(item).toMatchObject({
+      asin: 'B0MOCK0002',
+      title: 'Acme Burr Coffee Grinder',
+      price: '$89.50',
+      prime: false,
+      rating: 4.1,
+      reviewCount: 310,
+      pros: ['40 grind settings'],
+      source: 'paapi',
+    });
+  });
+
+  it('skips ASINs the catalog does not know', async () => {
+    const items = await getAmazonItems(config, ['B0MOCK0001', 'B0NOTREAL1']);
+    expect(items.map(i => i.asin)).toEqual(['B0MOCK0001']);
+  });
+
+  it('searches and lists variations', async () => {
+    expect((await searchAmazonItems(config, 'burr grinder')).map(i => i.asin)).toEqual(['B0MOCK0002']);
+    expect((await getAmazonVariations(config, 'B0MOCK0001')).map(i => i.asin)).toEqual(['B0MOCK0004', 'B0MOCK0005']);
+  });
+
+  it('fails on a wrong secret', async () => {
+    await expect(getAmazonItems({ ...config, amazonSecretKey: 'wrong' }, ['B0MOCK0001'])).rejects.toThrow(/InvalidSignature/);
+  });
+
+  it('goes through the relay for the real endpoint', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify({ ItemsResult: { Items: [] } }), { status: 200 }));
+    await getAmazonItems({ ...config, amazonApiEndpoint: '', relayUrl: 'https://relay.example.com', relaySecret: 's3cret' }, ['B0MOCK0001']);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://relay.example.com/r/webservices.amazon.com/paapi5/getitems');
+    expect((init?.headers as Record<string, string>)['X-Relay-Secret']).toBe('s3cret');
+    expect((init?.headers as Record<string, string>)['Authorization']).toMatch(/^AWS4-HMAC-SHA256 Credential=MOCKACCESSKEY\//);
+  });
+});
+
+// Answers AI calls with a canned Responses API reply and lets PA-API calls through to the mock
+const mockAI = (answer: object) => {
+  const realFetch = globalThis.fetch;
+  return vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) => String(input).startsWith('https://api.openai.com/')
+    ? Promise.resolve(new Response(JSON.stringify({ output: [{ type: 'message', content: [{ type: 'output_text', text: JSON.stringify(answer) }] }] }), { status: 200 }))
+    : realFetch(input, init));
+};
+
+const AI_ANSWER = {
+  found: true, confidence: 88, asin: 'B0MOCK0001', productName: 'Acme espresso machine', price: '$150', imageUrl: '',
+  verdict: 'Pulls a proper shot for the price.', award: 'Best Overall', pros: ['Fast heat-up'], cons: ['Loud'], rating: 4, prime: false, contextSnippet: '',
+};
+
+describe('analyzeContentAndFindProduct', () => {
+  it('lets the AI write the copy for a known ASIN and overlays the PA-API facts', async () => {
+    const fetchSpy = mockAI(AI_ANSWER);
+    const result = await analyzeContentAndFindProduct('Best espresso machine', POST_HTML, { ...config, aiApiKey: 'sk-test' });
+    expect(fetchSpy.mock.calls.some(([url]) => String(url).startsWith('https://api.openai.com/'))).toBe(true);
+    expect(result.error).toBeUndefined();
+    expect(result.confidence).toBe(88);
+    expect(result.product).toMatchObject({
+      asin: 'B0MOCK0001', title: 'Acme Espresso Machine 15 Bar', price: '$199.99', source: 'paapi',
+      verdict: 'Pulls a proper shot for the price.', award: 'Best Overall', cons: ['Loud'],
+    });
+    expect(result.product.schema).toContain('"name":"Acme Espresso Machine 15 Bar"');
+  });
+
+  it('keeps a manual image over the PA-API one', async () => {
+    mockAI(AI_ANSWER);
+    const manualImage = 'https://cdn.example.com/my-photo.jpg';
+    const result = await analyzeContentAndFindProduct('Best espresso machine', POST_HTML, { ...config, aiApiKey: 'sk-test' }, { manualImage });
+    expect(result.product).toMatchObject({ title: 'Acme Espresso Machine 15 Bar', imageUrl: manualImage });
+    expect(result.product.schema).toContain(`"image":"${manualImage}"`);
+  });
+
+  it('falls back to PA-API below the auto-publish threshold when the AI fails', async () => {
+    const result = await analyzeContentAndFindProduct('Best espresso machine', POST_HTML, config);
+    expect(result.error).toMatch(/Missing API Key/);
+    expect(result.product).toMatchObject({ asin: 'B0MOCK0001', title: 'Acme Espresso Machine 15 Bar' });
+    expect(result.confidence).toBeGreaterThan(50);
+    expect(result.confidence).toBeLessThan(DEFAULT_CONFIG.autoPublishThreshold);
+  });
+
+  it('reports the AI error when PA-API does not know the ASIN either', async () => {
+    const result = await analyzeContentAndFindProduct('Best espresso machine', POST_HTML.replace('B0MOCK0001', 'B0NOTREAL1'), config);
+    expect(result.error).toMatch(/Missing API Key/);
+    expect(result.detectedProducts).toEqual([]);
+  });
+});
+
+describe('runPromptComparison', () => {
+  it('sends both prompt versions to the AI when PA-API knows the ASIN', async () => {
+    const fetchSpy = mockAI(AI_ANSWER);
+    const realFetch = fetchSpy.getMockImplementation()!;
+    // The post itself comes from WordPress
+    fetchSpy.mockImplementation((input, init) => String(input).startsWith('https://blog.example/wp-json/')
+      ? Promise.resolve(new Response(JSON.stringify({ content: { raw: POST_HTML }, title: { raw: 'Best espresso machine' } }), { status: 200 }))
+      : realFetch(input, init));
+    const template = (id: string, mode: PromptTemplate['mode']): PromptTemplate => ({
+      id, mode, name: id, version: 1, createdAt: 0, body: `PROMPT ${id}: find the product in "{{title}}" (ASIN {{asin}}).\n{{context}}`,
+    });
+    const post: BlogPost = { id: 7, title: 'Best espresso machine', url: 'https://blog.example/best-espresso/', status: 'publish', content: '' };
+    const [row] = await runPromptComparison(
+      { ...config, aiApiKey: 'sk-test', wpUrl: 'https://blog.example', wpUser: 'admin', wpAppPassword: 'app' },
+      [post], [template('variant_a', 'single'), template('variant_b', 'manual_asin')], 1,
+    );
+    const prompts = fetchSpy.mock.calls
+      .filter(([url]) => String(url).startsWith('https://api.openai.com/'))
+      .map(([, init]) => JSON.parse(String(init?.body)).input as string);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toContain('PROMPT variant_a');
+    expect(prompts[1]).toContain('PROMPT variant_b');
+    for (const variant of [row.a, row.b]) {
+      expect(variant).toMatchObject({ productTitle: 'Acme Espresso Machine 15 Bar', confidence: 88, verdictWords: 7 });
+      expect(variant.error).toBeUndefined();
+    }
+  });
+});
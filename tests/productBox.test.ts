@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { extractProductBoxes, generateProductBoxMarkup, stripProductBoxes } from '../utils';
+import { DEFAULT_CONFIG } from '../constants';
+import { AppConfig, ProductDetails } from '../types';
+
+const config: AppConfig = { ...DEFAULT_CONFIG, amazonTag: 'site-20' };
+
+const product = (patch: Partial<ProductDetails> = {}): ProductDetails => ({
+  asin: 'B000000001', title: 'Acme Grinder', price: '$89.50', imageUrl: 'https://m.media-amazon.com/images/I/x.jpg',
+  rating: 4.5, prime: true, verdict: 'Quiet and consistent.', ...patch,
+});
+
+describe('generateProductBoxMarkup (shortcode)', () => {
+  it('writes the readable attributes next to the data', () => {
+    const markup = generateProductBoxMarkup(config, product(), 'glass', { mode: 'shortcode' });
+    expect(markup).toMatch(/\[amzpilot_product asin="B000000001" template="glass" data="[A-Za-z0-9+/=]+"\]/);
+    expect(extractProductBoxes(markup)[0].product).toMatchObject({ asin: 'B000000001', title: 'Acme Grinder' });
+  });
+
+  it('keeps a hostile ASIN out of the shortcode attributes', () => {
+    const asin = 'X" data="e30=" x="]<script>alert(1)</script>[';
+    const post = `<p>Intro</p>${generateProductBoxMarkup(config, product({ asin }), 'glass', { mode: 'shortcode' })}<p>Outro</p>`;
+    const [shortcode] = post.match(/\[amzpilot_product[^\]]*\]/g)!;
+    expect(shortcode).toMatch(/^\[amzpilot_product template="glass" data="[A-Za-z0-9+/=]+"\]$/);
+    expect(post).not.toContain('<script>');
+    // The payload still carries the value, and the box reads back and strips as one unit
+    expect(extractProductBoxes(post)[0].product.asin).toBe(asin);
+    expect(stripProductBoxes(post).replace(/\s+/g, '')).toBe('<p>Intro</p><p>Outro</p>');
+  });
+});
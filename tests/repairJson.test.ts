@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { AIResponseError, repairJson, validateAgainstSchema } from '../utils';
+import { JsonSchema } from '../types';
+
+describe('repairJson', () => {
+  it('parses valid JSON without repairs', () => {
+    expect(repairJson('{"a": [1, 2, {"b": "c"}]}')).toEqual({ value: { a: [1, 2, { b: 'c' }] }, repairs: [] });
+  });
+
+  it('strips code fences and surrounding prose', () => {
+    const { value, repairs } = repairJson('Sure! Here it is:\n```json\n{"found": true}\n```\nLet me know if you need more.');
+    expect(value).toEqual({ found: true });
+    expect(repairs).toEqual(expect.arrayContaining(['removed code fences', 'dropped text before JSON', 'dropped text after JSON']));
+  });
+
+  it('fixes the damage models produce', () => {
+    const raw = `{
+      // the product
+      asin: 'B000000001',
+      “productName”: “Acme Pro Grinder”,
+      "found": True, "prime": None,
+      "pros": ["quiet", "fast",],
+      "verdict": "line one
+line two",
+    }`;
+    const { value, repairs } = repairJson(raw);
+    expect(value).toEqual({
+      asin: 'B000000001',
+      productName: 'Acme Pro Grinder',
+      found: true,
+      prime: null,
+      pros: ['quiet', 'fast'],
+      verdict: 'line one\nline two',
+    });
+    expect(repairs).toEqual(expect.arrayContaining([
+      'removed comments', 'quoted keys', 'replaced single quotes', 'replaced smart quotes',
+      'converted literals', 'removed trailing commas', 'escaped raw newlines',
+    ]));
+  });
+
+  it('keeps escapes and apostrophes inside strings', () => {
+    expect(repairJson(`{"a": "it's \\"fine\\"", b: 'don\\'t'}`).value).toEqual({ a: 'it\'s "fine"', b: "don't" });
+  });
+
+  it('closes output cut off mid-value and drops a dangling key', () => {
+    expect(repairJson('{"products": [{"asin": "B000000001", "pros": ["quiet"').value)
+      .toEqual({ products: [{ asin: 'B000000001', pros: ['quiet'] }] });
+    expect(repairJson('{"asin": "B000000001", "productName"').value).toEqual({ asin: 'B000000001' });
+    expect(repairJson('{"asin": "B000000001", "verdict": "Great for sm').value).toEqual({ asin: 'B000000001', verdict: 'Great for sm' });
+    expect(repairJson('{"asin": "B000000001", "rating":').repairs).toContain('closed truncated JSON');
+  });
+
+  it('accepts a bare array', () => {
+    expect(repairJson('[{"asin": "B000000001"}, {"asin": "B000000002"},]').value).toEqual([{ asin: 'B000000001' }, { asin: 'B000000002' }]);
+  });
+
+  it('throws AIResponseError when there is nothing to repair', () => {
+    expect(() => repairJson('I could not find a product in this article.')).toThrow(AIResponseError);
+    expect(() => repairJson('{"a": 1 2}')).toThrow(/invalid JSON/);
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['asin', 'rating'],
+    properties: {
+      asin: { type: 'string' },
+      rating: { type: 'number', minimum: 0, maximum: 5 },
+      pros: { type: 'array', items: { type: 'string' } },
+    },
+  };
+
+  it('reports paths for every problem', () => {
+    expect(validateAgainstSchema({ asin: ' ', rating: 7, pros: ['ok', 3] }, schema)).toEqual([
+      { path: '$.asin', message: 'is required' },
+      { path: '$.rating', message: 'must be <= 5' },
+      { path: '$.pros[1]', message: 'expected string, got number' },
+    ]);
+  });
+
+  it('treats null optionals as absent', () => {
+    expect(validateAgainstSchema({ asin: 'B000000001', rating: 4, pros: null }, schema)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenBucket, rateLimitedFetch } from '../utils';
+
+// Resolves to how long (fake) time had to advance before take() returned
+const timeTake = async (bucket: TokenBucket): Promise<number> => {
+  const startedAt = Date.now();
+  let done = false;
+  const taken = bucket.take().then(() => { done = true; });
+  await vi.advanceTimersByTimeAsync(0);
+  while (!done) await vi.advanceTimersByTimeAsync(10);
+  await taken;
+  return Date.now() - startedAt;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('TokenBucket', () => {
+  it('hands out the burst at once, then one token per 1/rate seconds', async () => {
+    const bucket = new TokenBucket({ perSecond: 2, burst: 3 });
+    for (let i = 0; i < 3; i++) expect(await timeTake(bucket)).toBe(0);
+    expect(await timeTake(bucket)).toBeGreaterThanOrEqual(500);
+    expect(await timeTake(bucket)).toBeLessThanOrEqual(510);
+  });
+
+  it('refills up to the burst while idle', async () => {
+    const bucket = new TokenBucket({ perSecond: 1, burst: 2 });
+    await timeTake(bucket);
+    await timeTake(bucket);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(await timeTake(bucket)).toBe(0);
+    expect(await timeTake(bucket)).toBe(0);
+    expect(await timeTake(bucket)).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('holds every caller back for Retry-After and halves the rate', async () => {
+    const bucket = new TokenBucket({ perSecond: 4, burst: 1 });
+    expect(bucket.throttle(3000)).toBe(3000);
+    const waited = await timeTake(bucket);
+    expect(waited).toBeGreaterThanOrEqual(3000);
+    // Half of 4/s: the next token takes 500ms instead of 250ms
+    expect(await timeTake(bucket)).toBeGreaterThanOrEqual(500);
+  });
+
+  it('backs off exponentially without Retry-After and never below a sixteenth of the rate', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // No jitter
+    const bucket = new TokenBucket({ perSecond: 16, burst: 1 });
+    expect([1, 2, 3, 4, 5, 6].map(() => bucket.throttle())).toEqual([1000, 2000, 4000, 8000, 16000, 32000]);
+    expect(bucket.throttle()).toBe(60000);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await timeTake(bucket);
+    // 16/s floored at 1/s
+    expect(await timeTake(bucket)).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('wins the rate back a tenth at a time', async () => {
+    const bucket = new TokenBucket({ perSecond: 10, burst: 1 });
+    bucket.throttle(0);
+    await timeTake(bucket);
+    expect(await timeTake(bucket)).toBeGreaterThanOrEqual(200); // 5/s
+    for (let i = 0; i < 5; i++) bucket.recover();
+    expect(await timeTake(bucket)).toBeLessThanOrEqual(110); // Back to 10/s
+  });
+});
+
+describe('rateLimitedFetch', () => {
+  it('retries a 429 after Retry-After and returns the next response', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const pending = rateLimitedFetch('wordpress:test-retry.example', 'https://test-retry.example/wp-json');
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(600);
+    expect((await pending).status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the retries and hands the 429 back', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('slow down', { status: 429, headers: { 'Retry-After': '1' } }));
+    const pending = rateLimitedFetch('wordpress:test-giveup.example', 'https://test-giveup.example/wp-json', undefined, 1);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect((await pending).status).toBe(429);
+  });
+});
@@ -0,0 +1,123 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { CredentialDecryptError, ProfileStore, Vault, createProfile, exportProfile } from '../utils';
+import { DEFAULT_CONFIG } from '../constants';
+import { SiteProfile } from '../types';
+
+// The vault and the database are module state, so the tests below run as one sequence
+const PASSPHRASE = 'correct horse battery staple';
+
+const rawStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('amzpilot');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return db.transaction('profiles', mode).objectStore('profiles');
+};
+
+const readRaw = async (id: string): Promise<SiteProfile> => {
+  const request = (await rawStore('readonly')).get(id);
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeRaw = async (profile: SiteProfile): Promise<void> => {
+  const request = (await rawStore('readwrite')).put(profile);
+  await new Promise((resolve, reject) => {
+    request.onsuccess = resolve;
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// How pre-vault builds stored the Amazon keys
+const legacyXor = (plain: string) => btoa(plain.split('').map((c, i) => String.fromCharCode(c.charCodeAt(0) ^ (i % 255))).join(''));
+
+describe('Vault', () => {
+  const legacy = createProfile('Legacy Site', {
+    ...DEFAULT_CONFIG,
+    amazonAccessKey: legacyXor('AKIAEXAMPLE'),
+    aiApiKey: 'sk-plain',
+    aiFallbacks: [{ provider: 'openai', apiKey: 'sk-fallback', model: 'gpt-4o-mini' }],
+  });
+
+  beforeAll(async () => {
+    expect(await Vault.getState()).toBe('setup');
+    await writeRaw(legacy);
+  });
+
+  it('seals credentials that were stored before the vault existed', async () => {
+    await Vault.setup(PASSPHRASE, 0);
+    expect(await Vault.getState()).toBe('unlocked');
+    const raw = await readRaw(legacy.id);
+    expect(raw.config.amazonAccessKey).toMatch(/^enc:v1:/);
+    expect(raw.config.aiApiKey).toMatch(/^enc:v1:/);
+    expect(raw.config.aiFallbacks?.[0].apiKey).toMatch(/^enc:v1:/);
+    const revealed = await ProfileStore.get(legacy.id);
+    expect(revealed?.config).toMatchObject({ amazonAccessKey: 'AKIAEXAMPLE', aiApiKey: 'sk-plain' });
+    expect(revealed?.config.aiFallbacks?.[0].apiKey).toBe('sk-fallback');
+  });
+
+  it('stores only ciphertext and reads back the plain values', async () => {
+    const profile = createProfile('Shop', { ...DEFAULT_CONFIG, amazonSecretKey: 'secret', wpAppPassword: 'abcd efgh', relaySecret: 'relay' });
+    await ProfileStore.save(profile);
+    const first = await readRaw(profile.id);
+    expect(JSON.stringify(first)).not.toMatch(/secret"|abcd efgh|relay"/);
+    await ProfileStore.save(profile);
+    // A fresh IV per seal: the same value never produces the same ciphertext twice
+    expect((await readRaw(profile.id)).config.amazonSecretKey).not.toBe(first.config.amazonSecretKey);
+    expect((await ProfileStore.get(profile.id))?.config).toMatchObject({ amazonSecretKey: 'secret', wpAppPassword: 'abcd efgh', relaySecret: 'relay', amazonAccessKey: '' });
+  });
+
+  it('refuses to read or write credentials while locked', async () => {
+    await Vault.lock();
+    expect(await Vault.getState()).toBe('locked');
+    await expect(ProfileStore.get(legacy.id)).rejects.toThrow('Credential vault is locked');
+    await expect(ProfileStore.save(legacy)).rejects.toThrow('Credential vault is locked');
+  });
+
+  it('unlocks only with the right passphrase', async () => {
+    await expect(Vault.unlock('wrong passphrase')).rejects.toThrow('Wrong passphrase');
+    expect(Vault.isUnlocked()).toBe(false);
+    await Vault.unlock(PASSPHRASE);
+    expect((await ProfileStore.get(legacy.id))?.config.aiApiKey).toBe('sk-plain');
+  });
+
+  it('fails the read instead of blanking a credential that does not decrypt', async () => {
+    const raw = await readRaw(legacy.id);
+    const sealed = raw.config.aiApiKey;
+    const tampered = `${sealed.slice(0, -4)}${sealed.endsWith('AAA=') ? 'BBB=' : 'AAA='}`;
+    await writeRaw({ ...raw, config: { ...raw.config, aiApiKey: tampered } });
+    const error = await ProfileStore.get(legacy.id).catch(e => e);
+    expect(error).toBeInstanceOf(CredentialDecryptError);
+    expect(error).toMatchObject({ profileName: 'Legacy Site', fields: ['aiApiKey'] });
+    expect((await readRaw(legacy.id)).config.aiApiKey).toBe(tampered);
+  });
+
+  it('wipes the stored credentials on reset', async () => {
+    await Vault.reset();
+    expect(await Vault.getState()).toBe('setup');
+    const raw = await readRaw(legacy.id);
+    expect(raw.config).toMatchObject({ amazonAccessKey: '', aiApiKey: '' });
+    expect(raw.config.aiFallbacks?.[0].apiKey).toBe('');
+    expect(raw.name).toBe('Legacy Site');
+  });
+});
+
+describe('exportProfile', () => {
+  const profile = createProfile('Shop', {
+    ...DEFAULT_CONFIG,
+    amazonSecretKey: 'secret', wpAppPassword: 'abcd efgh', relaySecret: 'relay',
+    aiFallbacks: [{ provider: 'openai', apiKey: 'sk-fallback', model: 'gpt-4o-mini' }],
+  });
+
+  it('blanks every credential unless asked to include them', () => {
+    const { config } = JSON.parse(exportProfile(profile));
+    expect(config).toMatchObject({ amazonAccessKey: '', amazonSecretKey: '', wpAppPassword: '', aiApiKey: '', relaySecret: '' });
+    expect(config.aiFallbacks[0]).toEqual({ provider: 'openai', apiKey: '', model: 'gpt-4o-mini' });
+    expect(JSON.parse(exportProfile(profile, true)).config.relaySecret).toBe('relay');
+    expect(profile.config.amazonSecretKey).toBe('secret');
+  });
+});
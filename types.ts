@@ -1,11 +1,25 @@
 
-export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'groq' | 'openrouter';
+export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'groq' | 'openrouter' | 'custom'; // custom = any OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM)
+
+export type MarketplaceId = 'US' | 'UK' | 'DE' | 'FR' | 'IT' | 'ES' | 'CA' | 'JP';
+
+export interface Marketplace {
+  id: MarketplaceId;
+  label: string;
+  domain: string; // e.g. amazon.co.uk
+  currency: string; // ISO 4217
+  decimalComma: boolean; // "1.299,00" style prices
+  paapiHost: string;
+  paapiRegion: string;
+}
 
 export interface AppConfig {
-  amazonTag: string;
+  amazonTag: string; // Default associate tag
+  amazonTags?: Partial<Record<MarketplaceId, string>>; // Per-marketplace overrides
   amazonAccessKey: string;
   amazonSecretKey: string;
-  amazonRegion: string;
+  marketplace: MarketplaceId;
+  amazonApiEndpoint?: string; // Override PA-API host (e.g. local mock server)
   wpUrl: string;
   wpUser: string;
   wpAppPassword: string;
@@ -15,11 +29,200 @@ export interface AppConfig {
   concurrencyLimit: number; 
   enableSchema: boolean; 
   enableStickyBar: boolean;
+  defaultBoxTemplate?: ProductBoxTemplateId;
+  boxOutputMode?: BoxOutputMode; // block / shortcode need the companion plugin on the site
+  disclosureText?: string; // Falls back to DEFAULT_DISCLOSURE_TEXT
+  autoDisclosure?: boolean; // Add the disclosure whenever a box is inserted
   
   // AI Brain Configuration
   aiProvider: AIProvider;
   aiApiKey: string;
   aiModel: string;
+  aiBaseUrl?: string; // Only for the custom provider, e.g. http://localhost:11434/v1
+  aiFallbacks?: AIProviderSettings[]; // Tried in order when the primary provider fails or rate-limits
+  promptTemplates?: PromptTemplate[]; // User versions; the built-ins live in DEFAULT_PROMPT_TEMPLATES
+  activePrompts?: Partial<Record<PromptMode, string>>; // Template id per mode; missing = built-in
+
+  // Self-hosted CORS relay (relay/server.mjs) for sitemaps, page scrapes and AI calls
+  relayUrl?: string;
+  relaySecret?: string;
+  relayAiCalls?: boolean; // Hosted AI providers go through the relay too; custom endpoints stay direct
+  allowPublicProxies?: boolean; // corsproxy.io & co. as a last resort; off unless the user opts in
+}
+
+// manual_asin: the user typed an ASIN, so the prompt asks to look that exact product up
+export type PromptMode = 'single' | 'multi' | 'manual_asin';
+
+// Bodies use {{title}}, {{context}}, {{asin}}, {{marketplace}} and {{currency}}; the JSON output contract is appended in code
+export interface PromptTemplate {
+  id: string;
+  mode: PromptMode;
+  name: string;
+  version: number; // Per mode; every saved edit is a new version
+  body: string;
+  createdAt: number;
+  builtin?: boolean;
+}
+
+export interface PromptVariantResult {
+  templateId: string;
+  productTitle?: string;
+  productCount: number;
+  confidence: number;
+  completeness: number; // 0-1, share of optional product fields the model filled in
+  verdictWords: number;
+  cost: number; // USD, from the usage ledger
+  durationMs: number;
+  error?: string;
+}
+
+export interface PromptComparisonRow {
+  postId: number;
+  postTitle: string;
+  url: string;
+  a: PromptVariantResult;
+  b: PromptVariantResult;
+}
+
+export interface AIProviderSettings {
+  provider: AIProvider;
+  apiKey: string; // Optional for custom endpoints
+  model: string;
+  baseUrl?: string;
+}
+
+// What a custom endpoint accepted as response_format, strongest first; detected on first use
+export type CustomResponseFormat = 'json_schema' | 'json_object' | 'none';
+
+export interface AIProviderCapabilities {
+  structuredOutput: 'schema' | 'json_mode' | 'prompt'; // How a response schema is enforced
+  grounding: boolean; // Live web search during generation
+}
+
+export interface AIRequest {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  relay?: RelaySettings;
+  prompt: string;
+  useGrounding?: boolean;
+  schema?: AIResponseSchema;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // Provider sent no usage block; counted with the adapter's estimator
+}
+
+export interface AICompletion {
+  text: string;
+  usage: AIUsage;
+  grounded: boolean;
+}
+
+export interface AIProviderAdapter {
+  id: AIProvider;
+  label: string;
+  defaultModel: string;
+  capabilities: AIProviderCapabilities;
+  countTokens: (text: string) => number;
+  generate: (request: AIRequest) => Promise<AICompletion>;
+}
+
+export interface RelaySettings {
+  url: string; // Without trailing slash
+  secret: string;
+}
+
+// Token bucket: sustained requests per second plus how many may go out back to back
+export interface RateLimit {
+  perSecond: number;
+  burst: number;
+}
+
+// One settled worker-pool item, at its input index
+export interface PoolResult<T, R> {
+  item: T;
+  index: number;
+  value?: R;
+  error?: Error;
+}
+
+// USD per million tokens
+export interface AIModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface AIUsageRecord {
+  provider: AIProvider;
+  model: string;
+  timestamp: number;
+  ok: boolean;
+  error?: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+  cost: number; // USD; 0 when the model has no pricing entry
+  priced: boolean;
+  durationMs?: number;
+  ungrounded?: boolean; // A grounded request answered without web search by a provider that can't search
+}
+
+// Every AI call made during one autopilot run, including failed attempts that fell through the chain
+export interface AIUsageLedger {
+  runId: string;
+  startedAt: number;
+  finishedAt?: number;
+  records: AIUsageRecord[];
+}
+
+// Subset of JSON Schema understood by Gemini responseSchema, OpenAI json_schema and Anthropic tool input_schema
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface AIResponseSchema {
+  name: string;
+  description: string;
+  schema: JsonSchema; // Top level is always an object: OpenAI and Anthropic require it
+}
+
+export interface SchemaIssue {
+  path: string; // e.g. $.products[2].verdict
+  message: string;
+}
+
+// What the model is asked to return, before PA-API enrichment
+export interface AIProductCandidate {
+  asin?: string;
+  productName: string;
+  price?: string;
+  imageUrl?: string;
+  verdict: string;
+  award?: string;
+  pros?: string[];
+  cons?: string[];
+  rating?: number;
+  prime?: boolean;
+  contextSnippet?: string;
+}
+
+export interface AISingleProductResponse extends AIProductCandidate {
+  found: boolean;
+  confidence: number;
+}
+
+export interface AIMultiProductResponse {
+  products: AIProductCandidate[];
 }
 
 export interface ProductDetails {
@@ -39,6 +242,10 @@ export interface ProductDetails {
   url?: string;
   schema?: string; // JSON-LD
   contextSnippet?: string; // The H2/H3 header text to insert after (for listicles)
+  reviewCount?: number;
+  availability?: string;
+  gallery?: string[];
+  source?: 'paapi' | 'ai' | 'manual'; // Where title/price/image came from
 }
 
 export type PostPriority = 'critical' | 'high' | 'medium' | 'low';
@@ -48,29 +255,330 @@ export interface BlogPost {
   id: number;
   title: string;
   url: string;
-  status: 'draft' | 'publish';
+  status: 'draft' | 'publish' | 'pending' | 'future' | 'private';
   content: string; 
   date?: string;
   
+  // WordPress REST Fields (populated by REST discovery)
+  restBase?: string; // e.g. 'posts', 'pages', 'product'. Defaults to 'posts'.
+  categories?: number[];
+  tags?: number[];
+  author?: number;
+  
   // Intelligence Fields
   priority?: PostPriority;
   postType?: PostType;
   monetizationStatus?: 'analyzing' | 'monetized' | 'opportunity' | 'error' | 'queued';
   
-  autoPilotStatus?: 'idle' | 'analyzing' | 'found' | 'publishing' | 'published' | 'failed';
+  autoPilotStatus?: 'idle' | 'analyzing' | 'found' | 'publishing' | 'published' | 'failed' | 'rejected';
   proposedProduct?: ProductDetails;
   detectedProducts?: ProductDetails[]; // For multi-product posts
   aiConfidence?: number;
-  processingLog?: string[]; 
+  processingLog?: ProcessingLogEntry[]; // Most recent pipeline steps, capped
+  boxTemplate?: ProductBoxTemplateId; // Overrides config.defaultBoxTemplate
+  deadAsins?: string[]; // Flagged by the price refresh job
+  pricesRefreshedAt?: number;
+  complianceIssues?: ComplianceIssueType[]; // From the last compliance scan
+  linkAudit?: { auditedAt: number; links: AuditedLink[] };
+}
+
+export type ProcessingStep = 'fetch' | 'affiliate_check' | 'ai' | 'insert' | 'push' | 'result';
+
+export interface ProcessingLogEntry {
+  runId?: string;
+  step: ProcessingStep;
+  ok: boolean;
+  timestamp: number;
+  message: string;
+  durationMs?: number;
+  provider?: AIProvider; // AI steps
+  model?: string;
+  status?: number; // HTTP status: the push on success, any request that failed
+}
+
+export type SitemapType = 'post' | 'page' | 'product' | 'taxonomy' | 'author' | 'other';
+
+export interface SitemapProgress {
+  sitemapUrl: string;
+  type: SitemapType;
+  index: number; // 1-based position among child sitemaps
+  total: number;
+  urlsFound: number; // Unique URLs collected so far
+  error?: string;
+}
+
+export interface WpPostType {
+  slug: string;
+  name: string;
+  restBase: string;
+  taxonomies: string[];
+}
+
+export interface WpTerm {
+  id: number;
+  name: string;
+  count?: number;
 }
 
 export interface SitemapState {
   url: string;
+  source?: 'sitemap' | 'wp';
   posts: BlogPost[];
   lastScanned?: number;
 }
 
-export type InsertionMethod = 'top' | 'bottom' | 'smart_middle' | 'after_h2' | 'context_match';
+export interface SiteProfile {
+  id: string;
+  name: string;
+  schemaVersion: number;
+  config: AppConfig;
+  sitemap: SitemapState;
+  updatedAt: number;
+}
+
+export type VaultState = 'setup' | 'locked' | 'unlocked';
+
+// Stored next to the profiles; never holds the key itself
+export interface VaultMeta {
+  salt: string; // base64
+  iterations: number; // PBKDF2-SHA256
+  verifier: string; // A known string sealed with the key, to reject wrong passphrases
+  autoLockMinutes: number; // 0 = never
+  createdAt: number;
+}
+
+export type InsertionMethod = 'top' | 'bottom' | 'smart_middle' | 'after_h2' | 'context_match' | 'before_conclusion';
+
+// WordPress block grammar node, same shape as @wordpress/block-serialization-default-parser output
+export interface ParsedBlock {
+  blockName: string | null; // null = freeform HTML outside any block
+  attrs: Record<string, any>;
+  innerBlocks: ParsedBlock[];
+  innerHTML: string;
+  innerContent: (string | null)[]; // null marks where each inner block sits
+  delimiter?: { name: string; attrs: string | null; void: boolean }; // Source spelling, for lossless re-serialization
+}
+
+export type BlockTarget =
+  | { type: 'after_block'; index: number } // Nth top-level block
+  | { type: 'after_heading'; index: number } // Nth heading block, at any depth
+  | { type: 'after_heading_text'; text: string }
+  | { type: 'before_conclusion' }
+  | { type: 'inside_group'; index: number; position: 'start' | 'end' }
+  | { type: 'end' };
+
+export interface DiffLine {
+  type: 'add' | 'remove';
+  line: number; // 1-based line in the "before" (remove) or "after" (add) text
+  text: string;
+}
+
+export interface WordPressPushResult {
+  link: string;
+  status: number; // HTTP status of the update request
+}
+
+export interface RevisionMeta {
+  reason: 'manual' | 'autopilot' | 'review' | 'refresh' | 'compliance' | 'link_rewrite' | 'revert';
+  runId?: string; // Shared by every push of one autopilot run
+  postTitle?: string;
+  product?: ProductDetails;
+  insertionMethod?: InsertionMethod;
+}
+
+export interface RevisionEntry extends RevisionMeta {
+  id: string;
+  siteUrl: string;
+  postId: number;
+  restBase: string;
+  timestamp: number;
+  before: string; // Raw content as it was live before the push
+  after: string;
+  diff: DiffLine[];
+  revertedAt?: number;
+}
+
+export interface DryRunEntry {
+  postId: number;
+  postTitle: string;
+  url: string;
+  outcome: 'would_publish' | 'needs_review' | 'skipped';
+  reason?: string; // Why a post was skipped or held for review
+  product?: ProductDetails;
+  confidence?: number;
+  insertionMethod?: InsertionMethod;
+  insertionPoint?: string; // Human-readable anchor, e.g. "after: ...closing words of a paragraph"
+  before?: string;
+  after?: string;
+  diff?: DiffLine[];
+}
+
+export interface DryRunReport {
+  runId: string;
+  createdAt: number;
+  siteUrl: string;
+  threshold: number;
+  entries: DryRunEntry[];
+}
+
+// Built-in layouts; third-party templates can register any other id
+export type ProductBoxTemplateId = 'glass' | 'comparison_table' | 'compact_card' | 'top_picks' | 'minimal_cta' | (string & {});
+
+export interface BoxRenderContext {
+  id: string; // Unique DOM id of the box root
+  products: ProductDetails[];
+  marketplace: Marketplace;
+  link: (product: ProductDetails) => string;
+  reset: string; // Inline style reset against theme CSS
+}
+
+export interface ProductBoxTemplate {
+  id: ProductBoxTemplateId;
+  label: string;
+  description: string;
+  multiProduct: boolean; // Renders every product passed, not just the first
+  stickyBar: boolean;
+  rootStyle: string;
+  render: (ctx: BoxRenderContext) => string;
+}
+
+// Embedded in every generated box so it can be read back off the live site
+export interface ProductBoxMeta {
+  version: number;
+  template?: ProductBoxTemplateId;
+  asin: string;
+  generatedAt: number;
+  product: ProductDetails;
+  products?: ProductDetails[]; // Multi-product templates only
+}
+
+// 'html' inlines the full markup; 'block' and 'shortcode' only store the data and let the companion plugin render it
+export type BoxOutputMode = 'html' | 'block' | 'shortcode';
+
+// Attributes of the amzpilot/product block (and the decoded shortcode payload)
+export interface ProductBlockAttrs extends ProductBoxMeta {
+  marketplace: MarketplaceId;
+  domain: string;
+  tag: string;
+  stickyBar: boolean;
+}
+
+export interface ParsedProductBox extends ProductBoxMeta {
+  html: string; // Exact source slice, including the wp:html wrapper if present
+  start: number;
+  end: number;
+  legacy: boolean; // Pre-metadata box; fields recovered from markup
+  stickyBar: boolean;
+  format: BoxOutputMode;
+}
+
+export interface CompanionPluginFile {
+  path: string;
+  content: string;
+}
+
+export interface PriceRefreshBox {
+  asin: string;
+  oldPrice: string;
+  newPrice?: string;
+  availability?: string;
+  status: 'updated' | 'unchanged' | 'dead' | 'unavailable';
+}
+
+export interface PriceRefreshResult {
+  postId: number;
+  postTitle: string;
+  url: string;
+  boxes: PriceRefreshBox[];
+  pushed: boolean;
+  error?: string;
+}
+
+export type ComplianceIssueType =
+  | 'missing_disclosure'
+  | 'price_without_timestamp'
+  | 'cached_image'
+  | 'hotlinked_image'
+  | 'missing_tag'
+  | 'missing_sponsored_rel';
+
+export interface ComplianceIssue {
+  type: ComplianceIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  excerpt?: string; // Offending URL or text
+  fixable: boolean;
+}
+
+export interface ComplianceReport {
+  postId: number;
+  postTitle: string;
+  url: string;
+  issues: ComplianceIssue[];
+  fixed: number; // Issues auto-fixed and pushed
+  error?: string;
+}
+
+export type AffiliateLinkStatus = 'tagged' | 'wrong_tag' | 'untagged' | 'dead_asin' | 'unresolved';
+
+export interface AuditedLink {
+  href: string; // As written in the post
+  resolvedUrl?: string; // Where an amzn.to-style short link redirects
+  asin?: string;
+  tag?: string;
+  marketplace?: MarketplaceId;
+  status: AffiliateLinkStatus;
+  count: number; // Occurrences in the post
+}
+
+export interface LinkAuditResult {
+  postId: number;
+  postTitle: string;
+  url: string;
+  links: AuditedLink[];
+  rewritten?: number;
+  error?: string;
+}
+
+export interface AutopilotRunSummary {
+  runId: string;
+  startedAt: number;
+  postCount: number;
+  revertedCount: number;
+}
+
+export type AutopilotJobState = 'queued' | 'running' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+export interface AutopilotJob {
+  id: string; // `${runId}|${url}`
+  runId: string;
+  url: string;
+  postId: number;
+  postTitle: string;
+  order: number; // Priority order at enqueue time; the store returns jobs by key
+  state: AutopilotJobState;
+  attempts: number;
+  lastError?: string;
+  updatedAt: number;
+}
+
+export type AutopilotRunState = 'running' | 'paused' | 'cancelled' | 'completed';
+
+// One durable run per site; the jobs live in their own store keyed by runId
+export interface AutopilotRun {
+  runId: string;
+  siteKey: string; // Sitemap or WordPress URL the posts were discovered from
+  state: AutopilotRunState;
+  createdAt: number;
+  updatedAt: number;
+  options: { fullAuto: boolean; dryRun: boolean; threshold: number };
+}
+
+// Shared between the runner and the UI; a ref, so an in-flight run sees Pause/Cancel immediately
+export interface JobQueueControl {
+  paused: boolean;
+  cancelled: boolean;
+}
 
 export enum AppStep {
   CONFIG = 'CONFIG',
@@ -1,24 +1,7 @@
 
-import { ProductDetails, AppConfig, InsertionMethod, AIProvider, BlogPost, PostPriority, PostType } from './types';
-import { GoogleGenAI } from '@google/genai';
-
-/**
- * SECURITY UTILITY
- */
-export const SecureStorage = {
-  encrypt: (text: string) => {
-    if (!text) return '';
-    try {
-      return btoa(text.split('').map((c, i) => String.fromCharCode(c.charCodeAt(0) ^ (i % 255))).join(''));
-    } catch (e) { return text; }
-  },
-  decrypt: (cipher: string) => {
-    if (!cipher) return '';
-    try {
-      return atob(cipher).split('').map((c, i) => String.fromCharCode(c.charCodeAt(0) ^ (i % 255))).join('');
-    } catch (e) { return cipher; }
-  }
-};
+import { ProductDetails, AppConfig, InsertionMethod, AIProvider, BlogPost, PostPriority, PostType, Marketplace, SiteProfile, SitemapType, SitemapProgress, WpPostType, WpTerm, DiffLine, RevisionMeta, RevisionEntry, AutopilotRunSummary, DryRunEntry, DryRunReport, PriceRefreshResult, PriceRefreshBox, ProductBoxMeta, ParsedProductBox, ProductBoxTemplate, ProductBoxTemplateId, ParsedBlock, BlockTarget, BoxOutputMode, ProductBlockAttrs, CompanionPluginFile, ComplianceIssue, ComplianceReport, AuditedLink, LinkAuditResult, JsonSchema, AIResponseSchema, SchemaIssue, AIProductCandidate, AISingleProductResponse, AIMultiProductResponse, AIProviderAdapter, AIProviderSettings, AIUsage, AIUsageLedger, CustomResponseFormat, PromptMode, PromptTemplate, PromptVariantResult, PromptComparisonRow, AutopilotJob, AutopilotRun, JobQueueControl, RateLimit, PoolResult, ProcessingLogEntry, ProcessingStep, AIUsageRecord, VaultMeta, VaultState, RelaySettings, WordPressPushResult } from './types';
+import { MARKETPLACES, DEFAULT_CONFIG, DEFAULT_DISCLOSURE_TEXT, AI_MODEL_PRICING, DEFAULT_PROMPT_TEMPLATES, RATE_LIMITS } from './constants';
+import { GoogleGenAI, Schema as GeminiSchema } from '@google/genai';
 
 /**
  * ULTRA SMART CACHE SERVICE
@@ -27,6 +10,24 @@ const CACHE_TTLS = {
     CONTENT: 1000 * 60 * 30, // 30 Minutes for WP Content
     AI: 1000 * 60 * 60 * 24 * 7, // 7 Days for AI Product Results (Products don't change often)
     SITEMAP: 1000 * 60 * 60, // 1 Hour
+    LINK: 1000 * 60 * 60 * 24 * 30, // 30 Days for resolved short links
+};
+
+const CACHE_PREFIXES = ['ai_', 'wp_', 'scrape_', 'link_'];
+
+// Drop the oldest half of our own cache entries. Never touches foreign keys.
+const evictOldestCacheEntries = () => {
+    const entries: { key: string; timestamp: number }[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !CACHE_PREFIXES.some(prefix => key.startsWith(prefix))) continue;
+        try {
+            entries.push({ key, timestamp: JSON.parse(localStorage.getItem(key) || '{}').timestamp || 0 });
+        } catch (e) { entries.push({ key, timestamp: 0 }); }
+    }
+    entries.sort((a, b) => a.timestamp - b.timestamp)
+        .slice(0, Math.max(1, Math.ceil(entries.length / 2)))
+        .forEach(e => localStorage.removeItem(e.key));
 };
 
 const CacheService = {
@@ -35,7 +36,7 @@ const CacheService = {
       const item = localStorage.getItem(key);
       if (!item) return null;
       const parsed = JSON.parse(item);
-      const ttl = key.startsWith('ai_') ? CACHE_TTLS.AI : (key.startsWith('wp_') ? CACHE_TTLS.CONTENT : CACHE_TTLS.SITEMAP);
+      const ttl = key.startsWith('ai_') ? CACHE_TTLS.AI : key.startsWith('wp_') ? CACHE_TTLS.CONTENT : key.startsWith('link_') ? CACHE_TTLS.LINK : CACHE_TTLS.SITEMAP;
       
       if (Date.now() - parsed.timestamp > ttl) {
         localStorage.removeItem(key);
@@ -50,7 +51,7 @@ const CacheService = {
             localStorage.setItem(key, JSON.stringify({ timestamp: Date.now(), data }));
         } catch (e) {
             console.warn("Cache full, clearing old entries...");
-            localStorage.clear(); 
+            evictOldestCacheEntries();
             localStorage.setItem(key, JSON.stringify({ timestamp: Date.now(), data }));
         }
     } catch (e) { console.warn("Storage unavailable"); }
@@ -67,20 +68,362 @@ const CacheService = {
   }
 };
 
+/**
+ * PERSISTENCE LAYER (IndexedDB)
+ * Named site profiles holding config + sitemap scan state. Each stored profile
+ * carries a schemaVersion; older ones are upgraded through PROFILE_MIGRATIONS on read/import.
+ */
+const DB_NAME = 'amzpilot';
+const DB_VERSION = 3;
+const PROFILE_STORE = 'profiles';
+const META_STORE = 'meta';
+const REVISION_STORE = 'revisions';
+const JOB_STORE = 'jobs';
+export const PROFILE_SCHEMA_VERSION = 3;
+
+// Each entry upgrades a profile from version N to N + 1.
+const PROFILE_MIGRATIONS: Record<number, (profile: any) => any> = {
+    // v1 -> v2: the free-form PA-API region was replaced by the marketplace model
+    1: (profile) => {
+        const regionToMarketplace: Record<string, string> = {
+            'us-east-1': 'US', 'eu-west-1': 'UK', 'eu-central-1': 'DE', 'eu-west-3': 'FR', 'eu-south-1': 'IT', 'eu-west-2': 'ES'
+        };
+        const { amazonRegion, ...config } = profile.config || {};
+        return { ...profile, config: { ...config, marketplace: config.marketplace || regionToMarketplace[amazonRegion] || 'US' } };
+    },
+    // v2 -> v3: processingLog went from plain failure strings to structured entries
+    2: (profile) => {
+        const posts = (profile.sitemap?.posts || []).map((post: any) => Array.isArray(post.processingLog)
+            ? { ...post, processingLog: post.processingLog.map((e: any) => typeof e === 'string' ? { step: 'result', ok: false, timestamp: profile.updatedAt || 0, message: e } : e) }
+            : post);
+        return profile.sitemap ? { ...profile, sitemap: { ...profile.sitemap, posts } } : profile;
+    },
+};
+
+const migrateProfile = (raw: any): SiteProfile => {
+    let profile = { ...raw, schemaVersion: raw.schemaVersion || 1 };
+    if (profile.schemaVersion > PROFILE_SCHEMA_VERSION) {
+        throw new Error(`Profile schema v${profile.schemaVersion} is newer than this app (v${PROFILE_SCHEMA_VERSION})`);
+    }
+    while (profile.schemaVersion < PROFILE_SCHEMA_VERSION) {
+        const migrate = PROFILE_MIGRATIONS[profile.schemaVersion];
+        if (!migrate) throw new Error(`No migration from profile schema v${profile.schemaVersion}`);
+        profile = { ...migrate(profile), schemaVersion: profile.schemaVersion + 1 };
+    }
+    return {
+        ...profile,
+        config: { ...DEFAULT_CONFIG, ...profile.config },
+        sitemap: { url: '', posts: [], ...profile.sitemap },
+    };
+};
+
+const idbRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROFILE_STORE)) db.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+                if (!db.objectStoreNames.contains(REVISION_STORE)) {
+                    const revisions = db.createObjectStore(REVISION_STORE, { keyPath: 'id' });
+                    revisions.createIndex('postId', 'postId');
+                    revisions.createIndex('runId', 'runId');
+                }
+                if (!db.objectStoreNames.contains(JOB_STORE)) {
+                    db.createObjectStore(JOB_STORE, { keyPath: 'id' }).createIndex('runId', 'runId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => { dbPromise = null; reject(request.error); };
+        });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return idbRequest(fn(db.transaction(store, mode).objectStore(store)));
+};
+
+const generateProfileId = () => `site_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
+
+export const createProfile = (name: string, config: AppConfig = DEFAULT_CONFIG): SiteProfile => ({
+    id: generateProfileId(),
+    name,
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    config,
+    sitemap: { url: '', posts: [] },
+    updatedAt: Date.now(),
+});
+
+// Credentials are sealed on the way into the store and revealed on the way out (see CREDENTIAL VAULT)
+export const ProfileStore = {
+    list: async (): Promise<SiteProfile[]> => {
+        const raw = await withStore<any[]>(PROFILE_STORE, 'readonly', s => s.getAll());
+        const profiles = await Promise.all(raw.map(r => revealProfile(migrateProfile(r))));
+        return profiles.sort((a, b) => a.name.localeCompare(b.name));
+    },
+    get: async (id: string): Promise<SiteProfile | null> => {
+        const raw = await withStore<any>(PROFILE_STORE, 'readonly', s => s.get(id));
+        return raw ? revealProfile(migrateProfile(raw)) : null;
+    },
+    save: async (profile: SiteProfile): Promise<void> => {
+        const sealed = await sealProfile(profile);
+        await withStore(PROFILE_STORE, 'readwrite', s => s.put({ ...sealed, schemaVersion: PROFILE_SCHEMA_VERSION, updatedAt: Date.now() }));
+    },
+    remove: async (id: string): Promise<void> => {
+        await withStore(PROFILE_STORE, 'readwrite', s => s.delete(id));
+    },
+    getActiveId: async (): Promise<string | null> => {
+        return (await withStore<any>(META_STORE, 'readonly', s => s.get('activeProfileId'))) || null;
+    },
+    setActiveId: async (id: string): Promise<void> => {
+        await withStore(META_STORE, 'readwrite', s => s.put(id, 'activeProfileId'));
+    },
+    // Loads the active profile, falling back to the first stored one, or creates a default.
+    loadActive: async (): Promise<SiteProfile> => {
+        const activeId = await ProfileStore.getActiveId();
+        const active = activeId ? await ProfileStore.get(activeId) : null;
+        if (active) return active;
+        const [first] = await ProfileStore.list();
+        const profile = first || createProfile('Default Site');
+        if (!first) await ProfileStore.save(profile);
+        await ProfileStore.setActiveId(profile.id);
+        return profile;
+    },
+};
+
+const CREDENTIAL_FIELDS = ['amazonAccessKey', 'amazonSecretKey', 'wpAppPassword', 'aiApiKey', 'relaySecret'] as const satisfies readonly (keyof AppConfig)[];
+
+// Applies fn to every credential in a config, fallback provider keys included. Empty values are left alone.
+const mapCredentials = async (config: AppConfig, fn: (value: string, field: keyof AppConfig) => Promise<string>): Promise<AppConfig> => {
+    const next: any = { ...config };
+    for (const field of CREDENTIAL_FIELDS) {
+        if (next[field]) next[field] = await fn(next[field], field);
+    }
+    if (config.aiFallbacks) {
+        next.aiFallbacks = await Promise.all(config.aiFallbacks.map(async f => f.apiKey ? { ...f, apiKey: await fn(f.apiKey, 'aiApiKey') } : f));
+    }
+    return next;
+};
+
+/**
+ * CREDENTIAL VAULT
+ * Stored credentials are AES-GCM encrypted with a key derived (PBKDF2-SHA256) from a
+ * passphrase the user unlocks once per session. The unlocked config in memory is plain;
+ * the key stays in this module and is dropped on lock or after the auto-lock timeout.
+ */
+const VAULT_META_KEY = 'vault';
+const SEALED_PREFIX = 'enc:v1:';
+const VAULT_CHECK = 'amzpilot-vault';
+const PBKDF2_ITERATIONS = 600000;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+let vaultKey: CryptoKey | null = null;
+let autoLockMs = 0;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+const lockListeners = new Set<() => void | Promise<void>>();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveVaultKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', textEncoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+const sealWith = async (key: CryptoKey, text: string): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, textEncoder.encode(text));
+    return `${SEALED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(cipher))}`;
+};
+
+const openWith = async (key: CryptoKey, sealed: string): Promise<string> => {
+    const [iv, cipher] = sealed.slice(SEALED_PREFIX.length).split(':');
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(cipher));
+    return new TextDecoder().decode(plain);
+};
+
+// Pre-vault builds stored the Amazon keys XOR'd with the character index, base64'd, and everything else in plain text
+const decodeLegacyXor = (cipher: string): string => {
+    try {
+        return atob(cipher).split('').map((c, i) => String.fromCharCode(c.charCodeAt(0) ^ (i % 255))).join('');
+    } catch (e) { return cipher; }
+};
+
+const requireVaultKey = (): CryptoKey => {
+    if (!vaultKey) throw new Error("Credential vault is locked");
+    return vaultKey;
+};
+
+const sealProfile = async (profile: SiteProfile): Promise<SiteProfile> => {
+    const key = requireVaultKey();
+    return { ...profile, config: await mapCredentials(profile.config, value => value.startsWith(SEALED_PREFIX) ? Promise.resolve(value) : sealWith(key, value)) };
+};
+
+export class CredentialDecryptError extends Error {
+    constructor(public profileName: string, public fields: string[]) {
+        super(`Could not decrypt ${fields.join(', ')} for profile "${profileName}". The stored values are corrupted or were sealed by another vault.`);
+        this.name = 'CredentialDecryptError';
+    }
+}
+
+// A credential that fails to open (foreign vault, corrupted) fails the whole read; blanking it would let the next save wipe it
+const revealProfile = async (profile: SiteProfile): Promise<SiteProfile> => {
+    const key = requireVaultKey();
+    const failed: string[] = [];
+    const config = await mapCredentials(profile.config, async (value, field) => {
+        if (value.startsWith(SEALED_PREFIX)) {
+            return openWith(key, value).catch(() => {
+                failed.push(field);
+                return value;
+            });
+        }
+        return field === 'amazonAccessKey' || field === 'amazonSecretKey' ? decodeLegacyXor(value) : value;
+    });
+    if (failed.length) throw new CredentialDecryptError(profile.name, [...new Set(failed)]);
+    return { ...profile, config };
+};
+
+const readVaultMeta = async (): Promise<VaultMeta | null> =>
+    (await withStore<VaultMeta | undefined>(META_STORE, 'readonly', s => s.get(VAULT_META_KEY))) || null;
+
+const writeVaultMeta = async (meta: VaultMeta): Promise<void> => {
+    await withStore(META_STORE, 'readwrite', s => s.put(meta, VAULT_META_KEY));
+};
+
+const armAutoLock = () => {
+    if (autoLockTimer) clearTimeout(autoLockTimer);
+    autoLockTimer = vaultKey && autoLockMs > 0 ? setTimeout(() => { Vault.lock(); }, autoLockMs) : null;
+};
+
+// Re-saves every stored profile so legacy XOR / plain credentials end up sealed
+const sealStoredProfiles = async (): Promise<void> => {
+    const raw = await withStore<any[]>(PROFILE_STORE, 'readonly', s => s.getAll());
+    for (const r of raw) {
+        const profile = await revealProfile(migrateProfile(r));
+        const sealed = await sealProfile(profile);
+        await withStore(PROFILE_STORE, 'readwrite', s => s.put({ ...sealed, schemaVersion: PROFILE_SCHEMA_VERSION }));
+    }
+};
+
+export const Vault = {
+    getState: async (): Promise<VaultState> => vaultKey ? 'unlocked' : (await readVaultMeta()) ? 'locked' : 'setup',
+    getAutoLockMinutes: async (): Promise<number> => (await readVaultMeta())?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    // First run: creates the vault and encrypts whatever credentials are already stored
+    setup: async (passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> => {
+        if (await readVaultMeta()) throw new Error("A vault already exists");
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const key = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+        // Salt and verifier go in first: anything sealed before they are stored could never be opened again
+        await writeVaultMeta({ salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, verifier: await sealWith(key, VAULT_CHECK), autoLockMinutes, createdAt: Date.now() });
+        vaultKey = key;
+        await sealStoredProfiles();
+        autoLockMs = autoLockMinutes * 60000;
+        armAutoLock();
+    },
+    unlock: async (passphrase: string, autoLockMinutes?: number): Promise<void> => {
+        const meta = await readVaultMeta();
+        if (!meta) throw new Error("No vault has been set up");
+        const key = await deriveVaultKey(passphrase, fromBase64(meta.salt), meta.iterations);
+        const check = await openWith(key, meta.verifier).catch(() => '');
+        if (check !== VAULT_CHECK) throw new Error("Wrong passphrase");
+        vaultKey = key;
+        if (autoLockMinutes !== undefined && autoLockMinutes !== meta.autoLockMinutes) await writeVaultMeta({ ...meta, autoLockMinutes });
+        autoLockMs = (autoLockMinutes ?? meta.autoLockMinutes) * 60000;
+        armAutoLock();
+    },
+    // Listeners run while the key is still available, so they can flush a pending save
+    lock: async (): Promise<void> => {
+        if (!vaultKey) return;
+        await Promise.all(Array.from(lockListeners, l => Promise.resolve(l()).catch(e => console.warn("Lock listener failed", e))));
+        vaultKey = null;
+        armAutoLock();
+    },
+    onLock: (listener: () => void | Promise<void>): (() => void) => {
+        lockListeners.add(listener);
+        return () => { lockListeners.delete(listener); };
+    },
+    // User activity (and running jobs) push the auto-lock back
+    touch: (): void => { if (vaultKey) armAutoLock(); },
+    isUnlocked: (): boolean => !!vaultKey,
+    // Forgotten passphrase: stored credentials are unrecoverable, so they are wiped with the vault
+    reset: async (): Promise<void> => {
+        const raw = await withStore<any[]>(PROFILE_STORE, 'readonly', s => s.getAll());
+        for (const r of raw) {
+            const config = await mapCredentials(r.config || {}, async () => '');
+            await withStore(PROFILE_STORE, 'readwrite', s => s.put({ ...r, config }));
+        }
+        await withStore(META_STORE, 'readwrite', s => s.delete(VAULT_META_KEY));
+        vaultKey = null;
+        armAutoLock();
+    },
+};
+
+export const exportProfile = (profile: SiteProfile, includeCredentials: boolean = false): string => {
+    const config = { ...profile.config };
+    if (!includeCredentials) {
+        for (const field of CREDENTIAL_FIELDS) config[field] = '';
+        config.aiFallbacks = config.aiFallbacks?.map(f => ({ ...f, apiKey: '' }));
+    }
+    return JSON.stringify({ ...profile, config, schemaVersion: PROFILE_SCHEMA_VERSION }, null, 2);
+};
+
+// Imported profiles always get a fresh id so they never overwrite an existing site.
+export const importProfile = (json: string): SiteProfile => {
+    let raw: any;
+    try { raw = JSON.parse(json); } catch (e) { throw new Error("Import failed: file is not valid JSON"); }
+    if (!raw || typeof raw !== 'object' || !raw.config) throw new Error("Import failed: not an AmzPilot profile");
+    const profile = migrateProfile(raw);
+    return { ...profile, id: generateProfileId(), name: profile.name || 'Imported Site', updatedAt: Date.now() };
+};
+
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Rate limits back off harder than other failures: the server's Retry-After when it sent one, else doubling
 async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
     try {
         return await fn();
     } catch (err: any) {
         if (retries === 0) throw err;
-        const isRateLimit = err.message?.includes('429') || err.message?.includes('Quota') || err.message?.includes('Throttl');
-        const nextDelay = isRateLimit ? delay * 2 : delay;
+        const nextDelay = isRateLimitError(err) ? Math.max(delay * 2, err.retryAfterMs || 0) : delay;
         await sleep(nextDelay);
         return withRetry(fn, retries - 1, nextDelay);
     }
 }
 
+/**
+ * MARKETPLACE RESOLUTION
+ */
+export const getMarketplace = (config: AppConfig): Marketplace => MARKETPLACES[config.marketplace] || MARKETPLACES.US;
+
+export const getAffiliateTag = (config: AppConfig, marketplace: Marketplace = getMarketplace(config)): string =>
+    config.amazonTags?.[marketplace.id]?.trim() || config.amazonTag;
+
+export const buildAmazonLink = (asin: string, affiliateTag: string, marketplace: Marketplace = MARKETPLACES.US): string =>
+    `https://www.${marketplace.domain}/dp/${asin}?tag=${affiliateTag}`;
+
+// Any Amazon storefront, any short-link domain, or a bare tag= parameter
+const AMAZON_LINK_REGEX = new RegExp(
+    `(?:${Object.values(MARKETPLACES).map(m => m.domain.replace(/\./g, '\\.')).join('|')})\\/|amzn\\.(?:to|eu|asia)\\/|\\ba\\.co\\/|tag=`,
+    'i'
+);
+
+// "£1,299.99" -> "1299.99", "1.299,00 €" -> "1299.00", "￥3,980" -> "3980"
+export const parsePriceAmount = (price: string, marketplace: Marketplace): string => {
+    const raw = (price || '').replace(/[^0-9.,]/g, '');
+    if (!raw) return '';
+    const normalized = marketplace.decimalComma ? raw.replace(/\./g, '').replace(',', '.') : raw.replace(/,/g, '');
+    return isNaN(parseFloat(normalized)) ? '' : normalized;
+};
+
 /**
  * INTELLIGENCE ENGINE (Heuristic First)
  */
@@ -98,7 +441,7 @@ export const calculatePostPriority = (title: string, html: string = ''): { prior
         return { priority: 'low', type, status: 'opportunity' };
     }
 
-    const hasLinks = /amazon\.com\/|amzn\.to\/|tag=/i.test(html);
+    const hasLinks = AMAZON_LINK_REGEX.test(html);
     let priority: PostPriority = 'low';
     let status: 'monetized' | 'opportunity' = hasLinks ? 'monetized' : 'opportunity';
 
@@ -144,36 +487,215 @@ const constructAmazonImageUrl = (asin: string): string => {
 
 export const checkForAffiliateLinks = (html: string): boolean => {
   if (!html) return false;
-  return /amazon\.com\/|amzn\.to\/|tag=/i.test(html);
+  return AMAZON_LINK_REGEX.test(html);
+};
+
+/**
+ * WORKER POOL & RATE LIMITS
+ * A sliding-window pool (a free worker picks up the next item at once) and token
+ * buckets per WordPress host, CORS proxy, PA-API and AI vendor, shared by every pool.
+ */
+export class RateLimitError extends Error {
+    constructor(message: string, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'RateLimitError';
+    }
+}
+
+const isRateLimitError = (err: any): boolean =>
+    err instanceof RateLimitError || (err instanceof AIProviderError && err.rateLimited);
+
+// Retry-After is either delta-seconds or an HTTP date; cross-origin responses only expose it when the server allows
+const readRetryAfter = (res: Response): number | undefined => {
+    const header = res.headers.get('Retry-After');
+    if (!header) return undefined;
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    return Number.isFinite(ms) && ms > 0 ? Math.min(ms, 120000) : undefined;
+};
+
+export class TokenBucket {
+    private tokens: number;
+    private rate: number;
+    private refilledAt = Date.now();
+    private blockedUntil = 0;
+    private strikes = 0;
+
+    constructor(private limit: RateLimit) {
+        this.tokens = limit.burst;
+        this.rate = limit.perSecond;
+    }
+
+    async take(): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+            this.refilledAt = now;
+            if (now >= this.blockedUntil && this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            await sleep(Math.max(this.blockedUntil - now, ((1 - this.tokens) / this.rate) * 1000, 10));
+        }
+    }
+
+    // A 429 halves the rate and holds every caller back, for Retry-After or a jittered exponential guess
+    throttle(retryAfterMs?: number): number {
+        this.strikes++;
+        this.rate = Math.max(this.limit.perSecond / 16, this.rate / 2);
+        this.tokens = 0;
+        const wait = retryAfterMs ?? Math.min(60000, 1000 * 2 ** (this.strikes - 1)) * (0.8 + Math.random() * 0.4);
+        this.blockedUntil = Math.max(this.blockedUntil, Date.now() + wait);
+        return wait;
+    }
+
+    // Each success wins back a tenth of the configured rate
+    recover(): void {
+        this.strikes = 0;
+        this.rate = Math.min(this.limit.perSecond, this.rate + this.limit.perSecond / 10);
+    }
+}
+
+const rateLimitBuckets = new Map<string, TokenBucket>();
+
+// Keys look like `wordpress:example.com`, `proxy:corsproxy.io` or `ai:groq`
+const getRateLimitBucket = (key: string): TokenBucket => {
+    let bucket = rateLimitBuckets.get(key);
+    if (!bucket) {
+        const [kind, id] = key.split(':');
+        bucket = new TokenBucket(RATE_LIMITS[id] || RATE_LIMITS[kind] || RATE_LIMITS.proxy);
+        rateLimitBuckets.set(key, bucket);
+    }
+    return bucket;
+};
+
+const hostRateLimitKey = (kind: string, url: string): string => {
+    try { return `${kind}:${new URL(url).host}`; } catch (e) { return kind; }
+};
+
+// fetch behind a bucket. 429s throttle the bucket and are retried up to `retries` times;
+// after that the 429 response is returned for the caller to handle.
+export const rateLimitedFetch = async (key: string, url: string, init?: RequestInit, retries: number = 2): Promise<Response> => {
+    const bucket = getRateLimitBucket(key);
+    for (let attempt = 0; ; attempt++) {
+        await bucket.take();
+        const res = await fetch(url, init);
+        if (res.status !== 429) {
+            bucket.recover();
+            return res;
+        }
+        bucket.throttle(readRetryAfter(res));
+        if (attempt >= retries) return res;
+    }
 };
 
+// Sliding-window pool. Every item settles into its own slot, so results keep input order
+// and a failure carries its item instead of vanishing.
 export const runConcurrent = async <T, R>(
   items: T[],
   concurrency: number,
-  fn: (item: T) => Promise<R>
-): Promise<R[]> => {
-  const results: R[] = [];
-  const queue = items.map((item, index) => ({ item, index }));
-  
-  for (let i = 0; i < queue.length; i += concurrency) {
-      const chunk = queue.slice(i, i + concurrency);
-      const chunkResults = await Promise.all(chunk.map(async ({ item, index }) => {
+  fn: (item: T, index: number) => Promise<R>,
+  onSettled?: (result: PoolResult<T, R>) => void
+): Promise<PoolResult<T, R>[]> => {
+  const results: PoolResult<T, R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+      while (next < items.length) {
+          const index = next++;
+          const item = items[index];
           try {
-              return await fn(item);
-          } catch (e) {
+              results[index] = { item, index, value: await fn(item, index) };
+          } catch (e: any) {
               console.error(`Task ${index} failed`, e);
-              return null;
+              results[index] = { item, index, error: e instanceof Error ? e : new Error(String(e)) };
           }
-      }));
-      results.push(...chunkResults.filter(r => r !== null) as R[]);
-      await sleep(50);
-  }
+          onSettled?.(results[index]);
+      }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
   return results;
 };
 
+// Values of the items that succeeded, still in input order
+export const poolValues = <T, R>(results: PoolResult<T, R>[]): R[] =>
+    results.filter(r => !r.error).map(r => r.value as R);
+
+/**
+ * CORS RELAY
+ * Sitemaps, page scrapes, short links and (opt-in) AI calls go through the self-hosted relay in
+ * relay/server.mjs. Public CORS proxies see every URL we fetch, so they are only a fallback the user enables.
+ */
+const RELAY_SECRET_HEADER = 'X-Relay-Secret';
+
+export const getRelay = (config: AppConfig): RelaySettings | null => {
+    const url = (config.relayUrl || '').trim().replace(/\/+$/, '');
+    if (!url) return null;
+    return { url: /^https?:\/\//i.test(url) ? url : `https://${url}`, secret: config.relaySecret || '' };
+};
+
+// https://example.com/sitemap.xml -> <relay>/r/example.com/sitemap.xml. The relay only talks https upstream.
+const toRelayUrl = (relay: RelaySettings, target: string): string => {
+    const u = new URL(target);
+    if (u.protocol !== 'https:') throw new Error(`The relay only fetches https URLs: ${target}`);
+    return `${relay.url}/r/${u.host}${u.pathname}${u.search}`;
+};
+
+const withRelaySecret = (relay: RelaySettings, headers: Record<string, string> = {}): Record<string, string> =>
+    ({ ...headers, [RELAY_SECRET_HEADER]: relay.secret });
+
+// The relay answers its own failures (allowlist, secret, timeouts) as { error }; upstream errors pass through as-is
+const readRelayError = async (res: Response): Promise<string> => {
+    try {
+        const data = await res.json();
+        if (typeof data?.error === 'string') return data.error;
+    } catch (e) { /* upstream page */ }
+    return `HTTP ${res.status}`;
+};
+
+const relayFetch = (relay: RelaySettings, target: string, init: RequestInit = {}): Promise<Response> =>
+    rateLimitedFetch(hostRateLimitKey('relay', relay.url), toRelayUrl(relay, target), { ...init, headers: withRelaySecret(relay, init.headers as Record<string, string>) });
+
+const relayAllowsHost = (patterns: string[], host: string): boolean =>
+    patterns.some(p => p.startsWith('*.') ? host === p.slice(2) || host.endsWith(p.slice(1)) : host === p);
+
+export const testRelay = async (config: AppConfig): Promise<{ success: boolean; message: string }> => {
+    const relay = getRelay(config);
+    if (!relay) return { success: false, message: "Enter the relay URL first." };
+    let res: Response;
+    try {
+        res = await fetch(`${relay.url}/health`, { headers: withRelaySecret(relay) });
+    } catch (e) {
+        const currentOrigin = typeof window !== 'undefined' ? window.location.origin : 'this origin';
+        return { success: false, message: `Cannot reach ${relay.url}. Is it running, and does RELAY_ALLOWED_ORIGINS include ${currentOrigin}?` };
+    }
+    if (res.status === 401) return { success: false, message: "Relay rejected the shared secret." };
+    if (!res.ok) return { success: false, message: `Relay returned ${res.status}` };
+    const { allowedHosts = [] }: { allowedHosts?: string[] } = await res.json().catch(() => ({}));
+    let siteHost = '';
+    try { siteHost = new URL(config.wpUrl.startsWith('http') ? config.wpUrl : `https://${config.wpUrl}`).host.toLowerCase(); } catch (e) { /* no site yet */ }
+    if (siteHost && !relayAllowsHost(allowedHosts, siteHost)) return { success: false, message: `Relay is up, but ${siteHost} is not in RELAY_ALLOWED_HOSTS.` };
+    const { paapiHost } = getMarketplace(config);
+    if (hasAmazonApi(config) && !config.amazonApiEndpoint?.trim() && !relayAllowsHost(allowedHosts, paapiHost)) return { success: false, message: `Relay is up, but ${paapiHost} (PA-API) is not in RELAY_ALLOWED_HOSTS.` };
+    return { success: true, message: `Relay OK (${allowedHosts.length} allowed hosts).` };
+};
+
 // SMART PROXY
+// Relay first. Public proxies only run when the user opted in, and rotate to whichever answered last.
 let preferredProxyIndex = 0;
-const fetchWithProxy = async (url: string) => {
+const fetchWithProxy = async (config: AppConfig, url: string) => {
+    const relay = getRelay(config);
+    let relayError = "No CORS relay configured. Set one up under Settings > Relay, or allow public proxies there.";
+    if (relay) {
+        try {
+            const response = await relayFetch(relay, url);
+            if (response.ok) return response;
+            relayError = `Relay Error: ${await readRelayError(response)} (${url})`;
+        } catch (e: any) {
+            relayError = `Relay Error: ${e.message}`;
+        }
+    }
+    if (!config.allowPublicProxies) throw new Error(relayError);
+
     const proxies = [
         `https://corsproxy.io/?${encodeURIComponent(url)}`,
         `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
@@ -187,7 +709,8 @@ const fetchWithProxy = async (url: string) => {
 
     for (let i = 0; i < orderedProxies.length; i++) {
         try {
-            const response = await fetch(orderedProxies[i]);
+            // No 429 retries here: the next proxy is the better retry
+            const response = await rateLimitedFetch(hostRateLimitKey('proxy', orderedProxies[i]), orderedProxies[i], undefined, 0);
             if (response.ok) {
                 const originalIndex = proxies.indexOf(orderedProxies[i]);
                 if (originalIndex !== -1) preferredProxyIndex = originalIndex;
@@ -195,7 +718,7 @@ const fetchWithProxy = async (url: string) => {
             }
         } catch (e) { console.warn(`Proxy failed`); }
     }
-    throw new Error("Proxy Error: All proxies failed. Check internet connection.");
+    throw new Error(relay ? `${relayError}. Public proxies failed too.` : "Proxy Error: All proxies failed. Check internet connection.");
 };
 
 export const testConnection = async (config: AppConfig): Promise<{ success: boolean; message: string }> => {
@@ -230,30 +753,119 @@ export const testConnection = async (config: AppConfig): Promise<{ success: bool
     }
 };
 
-export const fetchAndParseSitemap = async (url: string): Promise<any[]> => {
+/**
+ * SITEMAP ENGINE
+ * Handles plain urlsets, Yoast / RankMath / WP core sitemap indexes and .gz sitemaps.
+ */
+export const DEFAULT_SITEMAP_TYPES: SitemapType[] = ['post', 'page', 'product', 'other'];
+const MAX_SITEMAP_DEPTH = 3;
+
+// post-sitemap2.xml (Yoast/RankMath), wp-sitemap-posts-page-1.xml (WP core), product-sitemap.xml (WooCommerce)
+export const classifySitemap = (url: string): SitemapType => {
+    const file = (url.split('?')[0].split('/').pop() || '').toLowerCase();
+    if (/^wp-sitemap-posts-post-|^post-sitemap/.test(file)) return 'post';
+    if (/^wp-sitemap-posts-page-|^page-sitemap/.test(file)) return 'page';
+    // Taxonomies first: WooCommerce's product_cat / product_tag sitemaps list archives, not products
+    if (/^wp-sitemap-taxonomies-|category|_cat-|tag-sitemap|_tag|taxonom/.test(file)) return 'taxonomy';
+    if (/^product-sitemap|^wp-sitemap-posts-product-/.test(file)) return 'product';
+    if (/^wp-sitemap-users-|author/.test(file)) return 'author';
+    return 'other';
+};
+
+const normalizeSitemapUrl = (url: string): string => {
     try {
-        const response = await fetchWithProxy(url);
-        const text = await response.text();
-        const parser = new DOMParser();
-        const xml = parser.parseFromString(text, "text/xml");
-        if (xml.querySelector("parsererror")) throw new Error("Invalid XML");
+        const u = new URL(url.trim());
+        u.hash = '';
+        return `${u.protocol}//${u.host.toLowerCase()}${u.pathname.replace(/\/+$/, '')}${u.search}`;
+    } catch (e) { return url.trim().replace(/\/+$/, ''); }
+};
+
+// Gzip'd sitemaps are detected by magic bytes, not extension: proxies often decompress already.
+const readSitemapText = async (response: Response): Promise<string> => {
+    const buffer = await response.arrayBuffer();
+    const bytes = new Uint8Array(buffer);
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+        const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+        return new Response(stream).text();
+    }
+    return new TextDecoder().decode(buffer);
+};
+
+const fetchSitemapXml = async (config: AppConfig, url: string): Promise<Document> => {
+    const response = await fetchWithProxy(config, url);
+    const text = await readSitemapText(response);
+    const xml = new DOMParser().parseFromString(text, "text/xml");
+    if (xml.querySelector("parsererror")) throw new Error("Invalid XML");
+    return xml;
+};
 
-        const urls = Array.from(xml.querySelectorAll("url"));
-        return urls.map(u => {
-            const loc = u.querySelector("loc")?.textContent || "";
+export const fetchAndParseSitemap = async (
+    config: AppConfig,
+    url: string,
+    options?: { types?: SitemapType[]; onProgress?: (progress: SitemapProgress) => void }
+): Promise<any[]> => {
+    const types = options?.types || DEFAULT_SITEMAP_TYPES;
+    const found = new Map<string, { url: string; date?: string | null; title: string; id: number }>();
+    const visited = new Set<string>();
+
+    const collectUrls = (xml: Document) => {
+        Array.from(xml.querySelectorAll("url")).forEach(u => {
+            const loc = u.querySelector("loc")?.textContent?.trim() || "";
+            if (!loc) return;
+            const key = normalizeSitemapUrl(loc);
+            if (found.has(key)) return;
             const slug = loc.split('/').filter(Boolean).pop() || "";
             const title = slug.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-            return { url: loc, date: u.querySelector("lastmod")?.textContent, title: title || loc, id: 0 };
-        }).filter(u => u.url);
+            found.set(key, { url: loc, date: u.querySelector("lastmod")?.textContent, title: title || loc, id: 0 });
+        });
+    };
+
+    // Depth-first over nested indexes; children are reported in document order
+    const walk = async (sitemapUrl: string, xml: Document, depth: number) => {
+        const children = Array.from(xml.querySelectorAll("sitemap > loc"))
+            .map(loc => loc.textContent?.trim() || "")
+            .filter(Boolean)
+            .filter(child => !visited.has(normalizeSitemapUrl(child)));
+
+        if (children.length === 0) {
+            collectUrls(xml);
+            return;
+        }
+        if (depth >= MAX_SITEMAP_DEPTH) {
+            console.warn("Sitemap index nested too deep, skipping", sitemapUrl);
+            return;
+        }
+
+        for (let i = 0; i < children.length; i++) {
+            const child = children[i];
+            visited.add(normalizeSitemapUrl(child));
+            const type = classifySitemap(child);
+            // Nested indexes are always followed; leaf sitemaps are filtered by type
+            const isIndex = /sitemap_index|sitemap-index|wp-sitemap\.xml/i.test(child);
+            if (!isIndex && !types.includes(type)) continue;
+            try {
+                await walk(child, await fetchSitemapXml(config, child), depth + 1);
+                options?.onProgress?.({ sitemapUrl: child, type, index: i + 1, total: children.length, urlsFound: found.size });
+            } catch (e: any) {
+                console.warn("Child sitemap failed", child, e);
+                options?.onProgress?.({ sitemapUrl: child, type, index: i + 1, total: children.length, urlsFound: found.size, error: e.message });
+            }
+        }
+    };
+
+    try {
+        visited.add(normalizeSitemapUrl(url));
+        await walk(url, await fetchSitemapXml(config, url), 0);
+        return Array.from(found.values());
     } catch(e) { console.error("Sitemap Error", e); throw e; }
 };
 
-export const fetchPageContent = async (url: string): Promise<{id: number, title: string, content: string}> => {
+export const fetchPageContent = async (config: AppConfig, url: string): Promise<{id: number, title: string, content: string}> => {
     const cacheKey = `scrape_${CacheService.generateHash(url)}`;
     const cached = CacheService.get<{id:number, title:string, content:string}>(cacheKey);
     if(cached) return cached;
 
-    const response = await fetchWithProxy(url);
+    const response = await fetchWithProxy(config, url);
     if (!response.ok) throw new Error("Failed to load page");
     const html = await response.text();
     const parser = new DOMParser();
@@ -277,146 +889,1004 @@ export const fetchPageContent = async (url: string): Promise<{id: number, title:
     return result;
 };
 
-const generateAIContent = async (provider: AIProvider, apiKey: string, model: string, prompt: string, useGrounding: boolean = false): Promise<string> => {
-    return withRetry(async () => {
-        if (provider === 'gemini') {
-            const key = apiKey || process.env.API_KEY || '';
-            if (!key) throw new Error("Missing Gemini API Key");
-            const ai = new GoogleGenAI({ apiKey: key });
-            
-            const tools = useGrounding ? [{ googleSearch: {} }] : [];
-            
-            const response = await ai.models.generateContent({
-                model: model || 'gemini-2.5-flash',
-                contents: prompt,
-                config: { tools } 
-            });
-            return response.text || "{}";
-        }
-        
-        if (!apiKey) throw new Error(`Missing API Key for ${provider}`);
-        let baseUrl = 'https://api.openai.com/v1';
-        if (provider === 'groq') baseUrl = 'https://api.groq.com/openai/v1';
-        if (provider === 'openrouter') baseUrl = 'https://openrouter.ai/api/v1';
-
-        const body: any = { model: model, messages: [{ role: 'user', content: prompt }], temperature: 0.2 };
-        if (provider !== 'anthropic') body.response_format = { type: "json_object" };
-
-        const headers: any = { 'Content-Type': 'application/json' };
-        if (provider === 'anthropic') {
-            headers['x-api-key'] = apiKey;
-            headers['anthropic-version'] = '2023-06-01';
-            headers['dangerously-allow-browser'] = 'true';
-            body.max_tokens = 4096;
-            const res = await fetch('https://api.anthropic.com/v1/messages', { method: 'POST', headers, body: JSON.stringify(body) });
-            const data = await res.json();
-            return data.content?.[0]?.text || "{}";
-        } else {
-            headers['Authorization'] = `Bearer ${apiKey}`;
-            if (provider === 'openrouter') headers['HTTP-Referer'] = window.location.origin;
-            const res = await fetch(`${baseUrl}/chat/completions`, { method: 'POST', headers, body: JSON.stringify(body) });
-            return (await res.json()).choices?.[0]?.message?.content || "{}";
-        }
-    }, 2, 2000);
+/**
+ * AI RESPONSE SCHEMAS
+ * One schema per analysis mode. It is sent through each provider's native
+ * structured output (Gemini responseSchema, OpenAI json_schema, Anthropic
+ * tool use), and every response is repaired and validated against it again
+ * here. Missing fields are reported, never filled with made-up copy.
+ */
+export class AIResponseError extends Error {
+    constructor(message: string, public issues: SchemaIssue[], public raw: string) {
+        super(message);
+        this.name = 'AIResponseError';
+    }
+}
+
+const PRODUCT_CANDIDATE_PROPERTIES: Record<string, JsonSchema> = {
+    asin: { type: 'string', description: '10-character ASIN valid on the target marketplace; empty if unknown' },
+    productName: { type: 'string', description: 'Full product name as sold on Amazon' },
+    price: { type: 'string', description: 'Current price with currency symbol; empty if unknown' },
+    imageUrl: { type: 'string', description: 'Product image URL; empty if unknown' },
+    verdict: { type: 'string', description: 'Two-sentence verdict' },
+    award: { type: 'string', description: 'Short award label, e.g. "Best Budget Pick"' },
+    pros: { type: 'array', items: { type: 'string' } },
+    cons: { type: 'array', items: { type: 'string' } },
+    rating: { type: 'number', minimum: 0, maximum: 5, description: 'Amazon star rating; omit if unknown' },
+    prime: { type: 'boolean' },
+    contextSnippet: { type: 'string', description: 'Exact text of the H2/H3 heading that introduces this product' },
 };
 
-const resolveWordpressId = async (config: AppConfig, slug: string): Promise<number | null> => {
-    let url = config.wpUrl.trim().replace(/\/$/, "");
-    if (!url.startsWith('http')) url = 'https://' + url;
-    try {
-        const response = await fetch(`${url}/wp-json/wp/v2/posts?slug=${slug}&_fields=id`, { method: 'GET' });
-        if(response.ok) {
-            const data = await response.json();
-            if(data && data.length > 0) return data[0].id;
-        }
-    } catch(e) {}
-    return null;
-}
+export const PRODUCT_CANDIDATE_SCHEMA: JsonSchema = { type: 'object', properties: PRODUCT_CANDIDATE_PROPERTIES, required: ['productName', 'verdict'] };
 
-export const fetchRawPostContent = async (config: AppConfig, postId: number, postUrl?: string): Promise<{content: string, title: string, resolvedId: number, featuredImage?: string}> => {
-    const cacheKey = `wp_full_${postId}_${CacheService.generateHash(postUrl||'')}`;
-    const cached = CacheService.get<{content: string, title: string, resolvedId: number, featuredImage?: string}>(cacheKey);
-    if(cached) return cached;
+export const AI_RESPONSE_SCHEMAS: Record<'single' | 'multi', AIResponseSchema> = {
+    single: {
+        name: 'product_match',
+        description: 'The primary Amazon product the article is about',
+        schema: {
+            type: 'object',
+            properties: {
+                found: { type: 'boolean' },
+                confidence: { type: 'integer', minimum: 0, maximum: 100 },
+                ...PRODUCT_CANDIDATE_PROPERTIES,
+            },
+            // Product fields are checked against PRODUCT_CANDIDATE_SCHEMA only when found is true
+            required: ['found', 'confidence'],
+        },
+    },
+    multi: {
+        name: 'product_list',
+        description: 'Every distinct product the article reviews, in article order',
+        schema: { type: 'object', properties: { products: { type: 'array', items: PRODUCT_CANDIDATE_SCHEMA } }, required: ['products'] },
+    },
+};
 
-    let url = config.wpUrl.trim().replace(/\/$/, "");
-    if (!url.startsWith('http')) url = 'https://' + url;
-    const auth = btoa(`${config.wpUser}:${config.wpAppPassword}`);
-    
-    const fetchById = async (id: number) => {
-        const endpoint = `${url}/wp-json/wp/v2/posts/${id}?context=edit&_embed`;
-        const res = await fetch(endpoint, { method: 'GET', headers: { 'Authorization': `Basic ${auth}` } });
-        if (!res.ok) throw new Error(res.status.toString());
-        const data = await res.json();
-        
-        let featImg = '';
-        try {
-            if (data._embedded && data._embedded['wp:featuredmedia'] && data._embedded['wp:featuredmedia'][0]) {
-                featImg = data._embedded['wp:featuredmedia'][0].source_url;
-            }
-        } catch(e) {}
-        
-        const result = { 
-            content: data.content.rendered || data.content.raw || "", 
-            title: data.title.rendered || data.title.raw || "",
-            resolvedId: id,
-            featuredImage: featImg
-        };
-        CacheService.set(cacheKey, result);
-        return result;
-    };
+// Gemini's Schema is OpenAPI-flavoured: upper-case types and an explicit property order
+const toGeminiSchema = (schema: JsonSchema): GeminiSchema => ({
+    type: schema.type.toUpperCase() as GeminiSchema['type'],
+    description: schema.description,
+    enum: schema.enum,
+    minimum: schema.minimum,
+    maximum: schema.maximum,
+    required: schema.required,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+    propertyOrdering: schema.properties && Object.keys(schema.properties),
+});
+
+// OpenAI strict mode: every property required, no extras; optional ones become nullable instead
+const toOpenAiStrictSchema = (schema: JsonSchema, nullable = false): Record<string, any> => {
+    const { properties, items, required, ...rest } = schema;
+    const out: Record<string, any> = { ...rest, type: nullable ? [schema.type, 'null'] : schema.type };
+    if (items) out.items = toOpenAiStrictSchema(items);
+    if (properties) {
+        out.properties = Object.fromEntries(Object.entries(properties).map(([k, v]) => [k, toOpenAiStrictSchema(v, !required?.includes(k))]));
+        out.required = Object.keys(properties);
+        out.additionalProperties = false;
+    }
+    return out;
+};
+
+// Single pass over the text: fixes the damage models actually produce (comments, smart or single
+// quotes, unquoted keys, Python literals, trailing commas, raw newlines) and closes truncated output
+const scanAndRepairJson = (body: string): { json: string; fixes: Set<string> } => {
+    const fixes = new Set<string>();
+    const stack: string[] = [];
+    const literals: Record<string, string> = { True: 'true', False: 'false', None: 'null', undefined: 'null', NaN: 'null' };
+    let out = '';
+    let closeQuote: string | null = null;
+    let i = 0;
+    for (; i < body.length; i++) {
+        const ch = body[i];
+        if (closeQuote) {
+            if (ch === '\\') { out += closeQuote === "'" && body[i + 1] === "'" ? "'" : ch + (body[i + 1] ?? ''); i++; }
+            else if (ch === closeQuote || (closeQuote === '”' && ch === '"')) { out += '"'; closeQuote = null; }
+            else if (ch === '\n') { out += '\\n'; fixes.add('escaped raw newlines'); }
+            else if (ch === '"') out += '\\"';
+            else out += ch;
+            continue;
+        }
+        if (ch === '"') { out += ch; closeQuote = '"'; }
+        else if (ch === '“') { out += '"'; closeQuote = '”'; fixes.add('replaced smart quotes'); }
+        else if (ch === "'") { out += '"'; closeQuote = "'"; fixes.add('replaced single quotes'); }
+        else if (ch === '/' && (body[i + 1] === '/' || body[i + 1] === '*')) {
+            const end = body[i + 1] === '/' ? body.indexOf('\n', i) : body.indexOf('*/', i + 2) + 1;
+            i = end <= 0 ? body.length : end;
+            fixes.add('removed comments');
+        } else if (ch === '{' || ch === '[') { stack.push(ch); out += ch; }
+        else if (ch === '}' || ch === ']') {
+            if (/,\s*$/.test(out)) { out = out.replace(/,\s*$/, ''); fixes.add('removed trailing commas'); }
+            stack.pop();
+            out += ch;
+            if (stack.length === 0) break;
+        } else if (/[A-Za-z_$]/.test(ch)) {
+            const word = body.slice(i).match(/^[A-Za-z0-9_$]+/)![0];
+            i += word.length - 1;
+            if (/^\s*:/.test(body.slice(i + 1))) { out += `"${word}"`; fixes.add('quoted keys'); }
+            else if (literals[word]) { out += literals[word]; fixes.add('converted literals'); }
+            else out += word;
+        } else out += ch;
+    }
+    if (body.slice(i + 1).trim()) fixes.add('dropped text after JSON');
+    if (closeQuote || stack.length > 0) {
+        if (closeQuote) out += '"';
+        // Drop a half-written member ("key" or "key":) before closing the containers; a cut-off value is kept
+        const danglingKey = stack[stack.length - 1] === '{' ? /([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/ : /(,)\s*"(?:[^"\\]|\\.)*"\s*:\s*$/;
+        out = out.replace(danglingKey, (_, lead) => lead === '{' ? '{' : '').replace(/,\s*$/, '');
+        out += stack.reverse().map(c => c === '{' ? '}' : ']').join('');
+        fixes.add('closed truncated JSON');
+    }
+    return { json: out, fixes };
+};
 
+export const repairJson = (text: string): { value: unknown; repairs: string[] } => {
+    const repairs: string[] = [];
+    let body = (text || '').trim();
+    if (body.includes('```')) { body = body.replace(/```(?:json)?/gi, '').trim(); repairs.push('removed code fences'); }
+    const start = body.search(/[{[]/);
+    if (start === -1) throw new AIResponseError('AI response contains no JSON', [], text);
+    if (start > 0) repairs.push('dropped text before JSON');
+    body = body.slice(start);
     try {
-        if (postId > 0) return await fetchById(postId);
-        throw new Error("404");
+        return { value: JSON.parse(body), repairs };
+    } catch (e) { /* repair below */ }
+    const { json, fixes } = scanAndRepairJson(body);
+    try {
+        return { value: JSON.parse(json), repairs: [...repairs, ...fixes] };
     } catch (e: any) {
-        if (postUrl) {
-            const slug = postUrl.split('/').filter(Boolean).pop() || "";
-            if (slug) {
-                const realId = await resolveWordpressId(config, slug);
-                if (realId) return await fetchById(realId);
-            }
+        throw new AIResponseError(`AI returned invalid JSON (${e.message})`, [], text);
+    }
+};
+
+const describeJsonType = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+// Null counts as absent, so OpenAI's nullable optionals validate like omitted ones
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema, path: string = '$'): SchemaIssue[] => {
+    const typeOk = schema.type === 'integer' ? Number.isInteger(value)
+        : schema.type === 'array' ? Array.isArray(value)
+        : schema.type === 'object' ? describeJsonType(value) === 'object'
+        : typeof value === schema.type;
+    if (!typeOk) return [{ path, message: `expected ${schema.type}, got ${describeJsonType(value)}` }];
+
+    const issues: SchemaIssue[] = [];
+    if (schema.enum && !schema.enum.includes(value as string)) issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path, message: `must be >= ${schema.minimum}` });
+        if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+    if (schema.type === 'object') {
+        const obj = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            const field = obj[key];
+            if (field === undefined || field === null || (typeof field === 'string' && !field.trim())) issues.push({ path: `${path}.${key}`, message: 'is required' });
         }
-        if (postUrl) {
-             const page = await fetchPageContent(postUrl);
-             return { content: page.content, title: page.title, resolvedId: page.id || 0, featuredImage: '' };
+        for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+            if (obj[key] !== undefined && obj[key] !== null) issues.push(...validateAgainstSchema(obj[key], propSchema, `${path}.${key}`));
         }
-        throw new Error(`Failed to sync post. Ensure Permalinks are set to 'Post Name' in WP.`);
     }
+    return issues;
 };
 
-const generateJsonLd = (product: ProductDetails): string => {
-    const schema = {
-        "@context": "https://schema.org/",
-        "@type": "Product",
-        "name": product.title,
-        "image": product.imageUrl,
-        "description": product.verdict || product.title,
-        "brand": { "@type": "Brand", "name": "Amazon" },
-        "aggregateRating": {
-            "@type": "AggregateRating",
-            "ratingValue": product.rating,
-            "bestRating": "5",
-            "ratingCount": "120"
+const summarizeIssues = (issues: SchemaIssue[]): string =>
+    issues.slice(0, 3).map(i => `${i.path} ${i.message}`).join('; ') + (issues.length > 3 ? ` (+${issues.length - 3} more)` : '');
+
+export const parseAIResponse = <T>(raw: string, spec: AIResponseSchema): { data: T; repairs: string[] } => {
+    const { value, repairs } = repairJson(raw);
+    const issues = validateAgainstSchema(value, spec.schema);
+    if (issues.length > 0) throw new AIResponseError(`AI response failed ${spec.name} validation: ${summarizeIssues(issues)}`, issues, raw);
+    return { data: value as T, repairs };
+};
+
+/**
+ * AI PROVIDER ADAPTERS
+ * One adapter per AIProvider behind a common interface. generateAIContent walks the
+ * configured chain (primary provider, then config.aiFallbacks) and books every attempt,
+ * failed or not, into the caller's usage ledger.
+ */
+export class AIProviderError extends Error {
+    constructor(message: string, public provider: AIProvider, public status?: number, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'AIProviderError';
+    }
+    get rateLimited(): boolean { return this.status === 429; }
+    // Auth and bad-request errors fail the same way on every retry
+    get retryable(): boolean { return this.status === undefined || this.status === 429 || this.status >= 500; }
+}
+
+// ~4 characters per token holds for English prose across current tokenizers; only used when a provider omits usage
+const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+const readUsage = (adapter: Pick<AIProviderAdapter, 'countTokens'>, prompt: string, text: string, input?: number, output?: number): AIUsage =>
+    input !== undefined && output !== undefined
+        ? { inputTokens: input, outputTokens: output, estimated: false }
+        : { inputTokens: adapter.countTokens(prompt), outputTokens: adapter.countTokens(text), estimated: true };
+
+const postProviderJson = async (provider: AIProvider, url: string, headers: Record<string, string>, body: unknown, relay?: RelaySettings): Promise<any> => {
+    let res: Response;
+    try {
+        const init = { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) };
+        res = relay ? await fetch(toRelayUrl(relay, url), { ...init, headers: withRelaySecret(relay, init.headers) }) : await fetch(url, init);
+    } catch (e: any) {
+        throw new AIProviderError(`${provider}: ${e?.message || 'network error'}`, provider);
+    }
+    if (!res.ok) {
+        let message = `${res.status} ${res.statusText}`.trim();
+        const raw = await res.text().catch(() => '');
+        try {
+            const data = JSON.parse(raw);
+            message = data.error?.message || (typeof data.error === 'string' ? data.error : message);
+        } catch (e) {
+            // Some local servers answer with plain text; it usually names the rejected field
+            if (raw.trim()) message = `${message}: ${raw.trim().slice(0, 200)}`;
+        }
+        throw new AIProviderError(`${provider}: ${message}`, provider, res.status, readRetryAfter(res));
+    }
+    return res.json();
+};
+
+const geminiAdapter: AIProviderAdapter = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+    capabilities: { structuredOutput: 'schema', grounding: true },
+    countTokens: estimateTokens,
+    generate: async ({ apiKey, model, prompt, useGrounding, schema, relay }) => {
+        const key = apiKey || process.env.API_KEY || '';
+        if (!key) throw new AIProviderError("gemini: Missing API Key", 'gemini', 401);
+        const httpOptions = relay ? { baseUrl: toRelayUrl(relay, 'https://generativelanguage.googleapis.com'), headers: withRelaySecret(relay) } : undefined;
+        const ai = new GoogleGenAI({ apiKey: key, httpOptions });
+        const tools = useGrounding ? [{ googleSearch: {} }] : [];
+        // Search grounding cannot be combined with a response schema; validation still runs on the text
+        const structured = schema && !useGrounding ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema.schema) } : {};
+        try {
+            const response = await ai.models.generateContent({ model, contents: prompt, config: { tools, ...structured } });
+            const text = response.text || '';
+            const meta = response.usageMetadata;
+            return {
+                text,
+                grounded: !!useGrounding,
+                usage: readUsage(geminiAdapter, prompt, text, meta?.promptTokenCount, meta && (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0)),
+            };
+        } catch (e: any) {
+            throw new AIProviderError(`gemini: ${e?.message || e}`, 'gemini', typeof e?.status === 'number' ? e.status : undefined);
+        }
+    },
+};
+
+// Older chat models reject json_schema response formats
+const OPENAI_LEGACY_MODEL_REGEX = /^(gpt-4-turbo|gpt-4-\d{4}|gpt-3\.5)/;
+
+// Responses API: the only OpenAI endpoint that offers web search to regular models
+const openaiAdapter: AIProviderAdapter = {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-4o',
+    capabilities: { structuredOutput: 'schema', grounding: true },
+    countTokens: estimateTokens,
+    generate: async ({ apiKey, model, prompt, useGrounding, schema, relay }) => {
+        if (!apiKey) throw new AIProviderError("openai: Missing API Key", 'openai', 401);
+        const format = schema && !OPENAI_LEGACY_MODEL_REGEX.test(model)
+            ? { type: 'json_schema', name: schema.name, description: schema.description, strict: true, schema: toOpenAiStrictSchema(schema.schema) }
+            : { type: 'json_object' };
+        const body: any = { model, input: prompt, temperature: 0.2, text: { format } };
+        if (useGrounding) body.tools = [{ type: 'web_search' }];
+        const data = await postProviderJson('openai', 'https://api.openai.com/v1/responses', { 'Authorization': `Bearer ${apiKey}` }, body, relay);
+        const content: any[] = data.output?.find((o: any) => o.type === 'message')?.content || [];
+        const refusal = content.find(c => c.type === 'refusal');
+        if (refusal) throw new AIProviderError(`openai refused: ${refusal.refusal}`, 'openai', 400);
+        const text = content.filter(c => c.type === 'output_text').map(c => c.text).join('');
+        return { text, grounded: !!useGrounding, usage: readUsage(openaiAdapter, prompt, text, data.usage?.input_tokens, data.usage?.output_tokens) };
+    },
+};
+
+const anthropicAdapter: AIProviderAdapter = {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultModel: 'claude-sonnet-4-5',
+    capabilities: { structuredOutput: 'schema', grounding: true },
+    countTokens: estimateTokens,
+    generate: async ({ apiKey, model, prompt, useGrounding, schema, relay }) => {
+        if (!apiKey) throw new AIProviderError("anthropic: Missing API Key", 'anthropic', 401);
+        const body: any = { model, max_tokens: 4096, temperature: 0.2, messages: [{ role: 'user', content: prompt }] };
+        const tools: any[] = [];
+        if (useGrounding) tools.push({ type: 'web_search_20250305', name: 'web_search', max_uses: 5 });
+        if (schema) tools.push({ name: schema.name, description: schema.description, input_schema: schema.schema });
+        if (tools.length) body.tools = tools;
+        // Forcing the schema tool makes its input the response; with search the model must be free to search first
+        if (schema) body.tool_choice = useGrounding ? { type: 'auto' } : { type: 'tool', name: schema.name };
+        const data = await postProviderJson('anthropic', 'https://api.anthropic.com/v1/messages', {
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true',
+        }, body, relay);
+        const blocks: any[] = data.content || [];
+        const toolUse = schema && blocks.find(b => b.type === 'tool_use' && b.name === schema.name);
+        const text = toolUse ? JSON.stringify(toolUse.input) : blocks.filter(b => b.type === 'text').map(b => b.text).join('');
+        return { text, grounded: !!useGrounding, usage: readUsage(anthropicAdapter, prompt, text, data.usage?.input_tokens, data.usage?.output_tokens) };
+    },
+};
+
+// Groq and OpenRouter speak the OpenAI chat-completions dialect
+const createChatCompletionsAdapter = (id: AIProvider, label: string, baseUrl: string, defaultModel: string, grounding: boolean): AIProviderAdapter => {
+    const adapter: AIProviderAdapter = {
+        id,
+        label,
+        defaultModel,
+        capabilities: { structuredOutput: 'json_mode', grounding },
+        countTokens: estimateTokens,
+        generate: async ({ apiKey, model, prompt, useGrounding, relay }) => {
+            if (!apiKey) throw new AIProviderError(`${id}: Missing API Key`, id, 401);
+            const body: any = { model, messages: [{ role: 'user', content: prompt }], temperature: 0.2, response_format: { type: "json_object" } };
+            const headers: Record<string, string> = { 'Authorization': `Bearer ${apiKey}` };
+            if (id === 'openrouter') {
+                headers['HTTP-Referer'] = window.location.origin;
+                headers['X-Title'] = 'AmzPilot';
+                if (useGrounding) body.plugins = [{ id: 'web' }];
+            }
+            const data = await postProviderJson(id, `${baseUrl}/chat/completions`, headers, body, relay);
+            const message = data.choices?.[0]?.message;
+            if (message?.refusal) throw new AIProviderError(`${id} refused: ${message.refusal}`, id, 400);
+            const text = message?.content || '';
+            return { text, grounded: grounding && !!useGrounding, usage: readUsage(adapter, prompt, text, data.usage?.prompt_tokens, data.usage?.completion_tokens) };
+        },
+    };
+    return adapter;
+};
+
+// "localhost:11434" and ".../v1/chat/completions" both mean base ".../v1"
+export const normalizeCustomBaseUrl = (url: string): string => {
+    let base = (url || '').trim().replace(/\/+$/, '').replace(/\/(chat\/completions|models)$/, '');
+    if (base && !/^https?:\/\//i.test(base)) base = `http://${base}`;
+    return base;
+};
+
+const CUSTOM_RESPONSE_FORMATS: CustomResponseFormat[] = ['json_schema', 'json_object', 'none'];
+
+// Reasoning models served locally (DeepSeek-R1, Qwen3) think out loud before the JSON
+const THINK_BLOCK_REGEX = /<think>[\s\S]*?(<\/think>|$)/gi;
+
+const customAdapter: AIProviderAdapter = {
+    id: 'custom',
+    label: 'Custom (OpenAI-compatible)',
+    defaultModel: 'llama3.1',
+    // Nominal: the format the endpoint really accepts is probed and cached per base URL and model
+    capabilities: { structuredOutput: 'schema', grounding: false },
+    countTokens: estimateTokens,
+    generate: async ({ apiKey, model, prompt, baseUrl, schema }) => {
+        const base = normalizeCustomBaseUrl(baseUrl || '');
+        if (!base) throw new AIProviderError("custom: Missing base URL", 'custom', 400);
+        const headers: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+        const capsKey = `ai_caps_${CacheService.generateHash(`${base}|${model}`)}`;
+        const known = CacheService.get<CustomResponseFormat>(capsKey);
+        const ladder = known ? [known] : CUSTOM_RESPONSE_FORMATS.filter(f => schema || f !== 'json_schema');
+
+        for (const format of ladder) {
+            const body: any = { model, messages: [{ role: 'user', content: prompt }], temperature: 0.2 };
+            if (format === 'json_schema' && schema) body.response_format = { type: 'json_schema', json_schema: { name: schema.name, schema: schema.schema } };
+            else if (format !== 'none') body.response_format = { type: 'json_object' };
+            try {
+                const data = await postProviderJson('custom', `${base}/chat/completions`, headers, body);
+                if (!known) CacheService.set(capsKey, format);
+                const text = (data.choices?.[0]?.message?.content || '').replace(THINK_BLOCK_REGEX, '').trim();
+                return { text, grounded: false, usage: readUsage(customAdapter, prompt, text, data.usage?.prompt_tokens, data.usage?.completion_tokens) };
+            } catch (e: any) {
+                // Only an error that names the format means "try a simpler one"; a bad model name or prompt is a real failure
+                const unsupported = e instanceof AIProviderError && /response_format|json_schema|json_object|grammar/i.test(e.message);
+                if (!unsupported || format === 'none' || known) throw e;
+            }
+        }
+        throw new AIProviderError("custom: endpoint rejected every response format", 'custom', 400);
+    },
+};
+
+// Works against Ollama, llama.cpp server, vLLM and LM Studio, which all expose the OpenAI model list
+export const discoverCustomModels = async (baseUrl: string, apiKey?: string): Promise<string[]> => {
+    const base = normalizeCustomBaseUrl(baseUrl);
+    if (!base) throw new Error("Enter the endpoint base URL first");
+    let res: Response;
+    try {
+        res = await fetch(`${base}/models`, { headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {} });
+    } catch (e) {
+        throw new Error(`Cannot reach ${base}. Is the server running and allowing this origin (e.g. OLLAMA_ORIGINS)?`);
+    }
+    if (!res.ok) throw new Error(`${base}/models returned ${res.status}`);
+    const data = await res.json();
+    const ids: string[] = (data.data || data.models || []).map((m: any) => m.id || m.name || m.model).filter(Boolean);
+    return [...new Set(ids)].sort();
+};
+
+export const AI_PROVIDER_ADAPTERS: Record<AIProvider, AIProviderAdapter> = {
+    gemini: geminiAdapter,
+    openai: openaiAdapter,
+    anthropic: anthropicAdapter,
+    groq: createChatCompletionsAdapter('groq', 'Groq', 'https://api.groq.com/openai/v1', 'llama-3.3-70b-versatile', false),
+    openrouter: createChatCompletionsAdapter('openrouter', 'OpenRouter', 'https://openrouter.ai/api/v1', 'openai/gpt-4o', true),
+    custom: customAdapter,
+};
+
+// Primary first, then fallbacks; a provider/model/endpoint combination is only tried once
+export const getAIProviderChain = (config: AppConfig): AIProviderSettings[] => {
+    const seen = new Set<string>();
+    return [{ provider: config.aiProvider, apiKey: config.aiApiKey, model: config.aiModel, baseUrl: config.aiBaseUrl }, ...(config.aiFallbacks || [])].filter(s => {
+        const key = `${s.provider}:${s.model}:${s.baseUrl || ''}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+export const estimateAICost = (model: string, usage: Pick<AIUsage, 'inputTokens' | 'outputTokens'>): { cost: number; priced: boolean } => {
+    const id = (model.split('/').pop() || '').toLowerCase();
+    const key = Object.keys(AI_MODEL_PRICING).filter(k => id.startsWith(k)).sort((a, b) => b.length - a.length)[0];
+    if (!key) return { cost: 0, priced: false };
+    const price = AI_MODEL_PRICING[key];
+    return { cost: (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000, priced: true };
+};
+
+export const createUsageLedger = (runId: string): AIUsageLedger => ({ runId, startedAt: Date.now(), records: [] });
+
+const recordUsage = (ledger: AIUsageLedger | undefined, provider: AIProvider, model: string, startedAt: number, usage: AIUsage, error?: string, ungrounded?: boolean) => {
+    if (!ledger) return;
+    ledger.records.push({ provider, model, timestamp: Date.now(), ok: !error, error, ...usage, ...estimateAICost(model, usage), durationMs: Date.now() - startedAt, ...(ungrounded ? { ungrounded } : {}) });
+};
+
+// Replaces the prompt's "search the web" step for providers that cannot search, so they don't invent products
+const UNGROUNDED_PROMPT_NOTE = `
+
+IMPORTANT: Web search is NOT available for this request. Do not invent ASINs, prices, ratings or image URLs.
+Only use products and ASINs that appear in the content above; leave anything you cannot verify empty and set a low confidence.`;
+
+// A rate-limited provider hands over to the next one immediately; other transient failures get one retry first
+const generateAIContent = async (
+    config: AppConfig,
+    prompt: string,
+    options: { useGrounding?: boolean; schema?: AIResponseSchema; ledger?: AIUsageLedger } = {}
+): Promise<string> => {
+    const failures: string[] = [];
+    // The custom adapter ignores the relay: self-hosted endpoints are usually not reachable from it
+    const relay = config.relayAiCalls ? getRelay(config) || undefined : undefined;
+    const chain = getAIProviderChain(config);
+    const canSearch = (s: AIProviderSettings) => AI_PROVIDER_ADAPTERS[s.provider].capabilities.grounding;
+    // Grounded requests try every provider that can search before downgrading to one that can't
+    const ordered = options.useGrounding ? [...chain.filter(canSearch), ...chain.filter(s => !canSearch(s))] : chain;
+    for (const settings of ordered) {
+        const adapter = AI_PROVIDER_ADAPTERS[settings.provider];
+        const model = settings.model || adapter.defaultModel;
+        const ungrounded = !!options.useGrounding && !adapter.capabilities.grounding;
+        const request = ungrounded
+            ? { prompt: prompt + UNGROUNDED_PROMPT_NOTE, useGrounding: false }
+            : { prompt, useGrounding: options.useGrounding };
+        const bucket = getRateLimitBucket(`ai:${adapter.id}`);
+        for (let attempt = 0; attempt < 2; attempt++) {
+            let error: AIProviderError;
+            await bucket.take();
+            const startedAt = Date.now();
+            try {
+                const completion = await adapter.generate({ apiKey: settings.apiKey, model, baseUrl: settings.baseUrl, relay, ...request, schema: options.schema });
+                bucket.recover();
+                if (completion.text.trim()) {
+                    recordUsage(options.ledger, adapter.id, model, startedAt, completion.usage, undefined, ungrounded);
+                    return completion.text;
+                }
+                error = new AIProviderError(`${adapter.id}: empty response`, adapter.id);
+                recordUsage(options.ledger, adapter.id, model, startedAt, completion.usage, error.message, ungrounded);
+            } catch (e: any) {
+                error = e instanceof AIProviderError ? e : new AIProviderError(`${adapter.id}: ${e?.message || e}`, adapter.id);
+                recordUsage(options.ledger, adapter.id, model, startedAt, { inputTokens: 0, outputTokens: 0, estimated: false }, error.message, ungrounded);
+            }
+            // Concurrent callers of this provider slow down too, whichever provider ends up answering
+            if (error.rateLimited) bucket.throttle(error.retryAfterMs);
+            if (error.rateLimited || !error.retryable || attempt === 1) {
+                failures.push(error.message);
+                break;
+            }
+            await sleep(2000);
+        }
+    }
+    throw new AIProviderError(failures.length > 1 ? `All AI providers failed: ${failures.join(' | ')}` : failures[0], config.aiProvider);
+};
+
+const resolveWordpressId = async (config: AppConfig, slug: string): Promise<number | null> => {
+    let url = config.wpUrl.trim().replace(/\/$/, "");
+    if (!url.startsWith('http')) url = 'https://' + url;
+    try {
+        const response = await rateLimitedFetch(hostRateLimitKey('wordpress', url), `${url}/wp-json/wp/v2/posts?slug=${slug}&_fields=id`, { method: 'GET' });
+        if(response.ok) {
+            const data = await response.json();
+            if(data && data.length > 0) return data[0].id;
+        }
+    } catch(e) {}
+    return null;
+}
+
+// fresh skips the cache, e.g. after a restore changed the live content behind our back
+export const fetchRawPostContent = async (config: AppConfig, postId: number, postUrl?: string, restBase: string = 'posts', fresh: boolean = false): Promise<{content: string, title: string, resolvedId: number, featuredImage?: string}> => {
+    const cacheKey = `wp_full_${restBase}_${postId}_${CacheService.generateHash(postUrl||'')}`;
+    const cached = fresh ? null : CacheService.get<{content: string, title: string, resolvedId: number, featuredImage?: string}>(cacheKey);
+    if(cached) return cached;
+
+    let url = config.wpUrl.trim().replace(/\/$/, "");
+    if (!url.startsWith('http')) url = 'https://' + url;
+    const auth = btoa(`${config.wpUser}:${config.wpAppPassword}`);
+    
+    const fetchById = async (id: number) => {
+        const endpoint = `${url}/wp-json/wp/v2/${restBase}/${id}?context=edit&_embed`;
+        const res = await rateLimitedFetch(hostRateLimitKey('wordpress', url), endpoint, { method: 'GET', headers: { 'Authorization': `Basic ${auth}` } });
+        if (!res.ok) throw new Error(res.status.toString());
+        const data = await res.json();
+        
+        let featImg = '';
+        try {
+            if (data._embedded && data._embedded['wp:featuredmedia'] && data._embedded['wp:featuredmedia'][0]) {
+                featImg = data._embedded['wp:featuredmedia'][0].source_url;
+            }
+        } catch(e) {}
+        
+        const result = { 
+            // Raw keeps block comments intact; rendered HTML would flatten them on push
+            content: data.content.raw ?? data.content.rendered ?? "", 
+            title: data.title.raw || data.title.rendered || "",
+            resolvedId: id,
+            featuredImage: featImg
+        };
+        CacheService.set(cacheKey, result);
+        return result;
+    };
+
+    try {
+        if (postId > 0) return await fetchById(postId);
+        throw new Error("404");
+    } catch (e: any) {
+        if (postUrl) {
+            const slug = postUrl.split('/').filter(Boolean).pop() || "";
+            if (slug) {
+                const realId = await resolveWordpressId(config, slug);
+                if (realId) return await fetchById(realId);
+            }
+        }
+        if (postUrl) {
+             const page = await fetchPageContent(config, postUrl);
+             return { content: page.content, title: page.title, resolvedId: page.id || 0, featuredImage: '' };
+        }
+        throw new Error(`Failed to sync post. Ensure Permalinks are set to 'Post Name' in WP.`);
+    }
+};
+
+/**
+ * WORDPRESS REST DISCOVERY
+ * Alternative to sitemap scraping: real IDs, titles, status and taxonomy straight from /wp-json.
+ */
+const IGNORED_POST_TYPES = ['attachment', 'nav_menu_item', 'wp_block', 'wp_template', 'wp_template_part', 'wp_navigation', 'wp_global_styles', 'wp_font_family', 'wp_font_face'];
+
+const decodeHtmlEntities = (text: string): string =>
+    new DOMParser().parseFromString(text || '', 'text/html').documentElement.textContent || '';
+
+const fetchWpJson = async (config: AppConfig, path: string): Promise<{ data: any; totalPages: number }> => {
+    let url = config.wpUrl.trim().replace(/\/$/, "");
+    if (!url.startsWith('http')) url = 'https://' + url;
+    const auth = btoa(`${config.wpUser}:${config.wpAppPassword}`);
+    const res = await withRetry(() => rateLimitedFetch(hostRateLimitKey('wordpress', url), `${url}/wp-json/wp/v2/${path}`, { method: 'GET', headers: { 'Authorization': `Basic ${auth}` } }), 2, 1000);
+    if (!res.ok) {
+        if (res.status === 401 || res.status === 403) throw new Error(`WP Auth Failed (${res.status})`);
+        throw new Error(`WP Error: ${res.status}`);
+    }
+    return { data: await res.json(), totalPages: parseInt(res.headers.get('X-WP-TotalPages') || '0') };
+};
+
+export const fetchWpPostTypes = async (config: AppConfig): Promise<WpPostType[]> => {
+    const { data } = await fetchWpJson(config, 'types?context=edit');
+    return Object.values(data as Record<string, any>)
+        .filter(t => t.rest_base && !IGNORED_POST_TYPES.includes(t.slug))
+        .map(t => ({ slug: t.slug, name: t.name, restBase: t.rest_base, taxonomies: t.taxonomies || [] }));
+};
+
+// Pages through any collection endpoint (`categories`, `users`, ...) until exhausted.
+const fetchAllWpPages = async (config: AppConfig, path: string, onPage?: (loaded: number, page: number, totalPages: number) => void): Promise<any[]> => {
+    const items: any[] = [];
+    const separator = path.includes('?') ? '&' : '?';
+    for (let page = 1; ; page++) {
+        const { data, totalPages } = await fetchWpJson(config, `${path}${separator}per_page=100&page=${page}`);
+        items.push(...data);
+        onPage?.(items.length, page, totalPages);
+        // X-WP-TotalPages is missing when a CORS config hides it; fall back to short-page detection
+        if (data.length < 100 || (totalPages && page >= totalPages)) break;
+    }
+    return items;
+};
+
+export const fetchWpTerms = async (config: AppConfig): Promise<{ categories: WpTerm[]; authors: WpTerm[] }> => {
+    const [categories, authors] = await Promise.all([
+        fetchAllWpPages(config, 'categories?_fields=id,name,count&hide_empty=true'),
+        fetchAllWpPages(config, 'users?_fields=id,name&who=authors').catch(() => []),
+    ]);
+    return {
+        categories: categories.map(c => ({ id: c.id, name: decodeHtmlEntities(c.name), count: c.count })),
+        authors: authors.map(a => ({ id: a.id, name: a.name })),
+    };
+};
+
+export const discoverWordPressPosts = async (
+    config: AppConfig,
+    options: {
+        postTypes: WpPostType[];
+        categories?: number[];
+        authors?: number[];
+        statuses?: BlogPost['status'][];
+        onProgress?: (progress: { postType: string; loaded: number; page: number; totalPages: number }) => void;
+    }
+): Promise<BlogPost[]> => {
+    const statuses = options.statuses?.length ? options.statuses : ['publish'];
+    const posts: BlogPost[] = [];
+
+    for (const type of options.postTypes) {
+        const params = new URLSearchParams({
+            context: 'edit',
+            status: statuses.join(','),
+            _fields: 'id,title,link,status,date,categories,tags,author',
+        });
+        // Category filters only apply to types registered with that taxonomy (pages would 400)
+        if (options.categories?.length) {
+            if (!type.taxonomies.includes('category')) continue;
+            params.set('categories', options.categories.join(','));
+        }
+        if (options.authors?.length) params.set('author', options.authors.join(','));
+
+        const items = await fetchAllWpPages(config, `${type.restBase}?${params.toString()}`, (loaded, page, totalPages) =>
+            options.onProgress?.({ postType: type.name, loaded: posts.length + loaded, page, totalPages })
+        );
+        posts.push(...items.map((item): BlogPost => ({
+            id: item.id,
+            title: decodeHtmlEntities(item.title?.raw ?? item.title?.rendered ?? '') || item.link,
+            url: item.link,
+            status: item.status,
+            date: item.date,
+            content: '',
+            restBase: type.restBase,
+            categories: item.categories,
+            tags: item.tags,
+            author: item.author,
+        })));
+    }
+    return posts;
+};
+
+// REST-discovered posts carry a real ID; sitemap posts fall back to scraping the public page.
+export const loadPostContent = async (config: AppConfig, post: BlogPost): Promise<{ id: number; title: string; content: string }> => {
+    if (post.id > 0 && config.wpUrl) {
+        const raw = await fetchRawPostContent(config, post.id, post.url, post.restBase);
+        return { id: raw.resolvedId, title: raw.title, content: raw.content };
+    }
+    return fetchPageContent(config, post.url);
+};
+
+/**
+ * AMAZON PA-API 5.0 CLIENT
+ * SigV4-signed GetItems / SearchItems / GetVariations. Amazon sends no CORS headers,
+ * so requests go through the relay. `amazonApiEndpoint` lets the client talk to a
+ * local mock server (mock/paapi.mjs) instead of webservices.amazon.*.
+ */
+const PAAPI_RESOURCES = [
+    'ItemInfo.Title',
+    'ItemInfo.Features',
+    'ItemInfo.ByLineInfo',
+    'Images.Primary.Large',
+    'Images.Variants.Large',
+    'Offers.Listings.Price',
+    'Offers.Listings.Availability.Message',
+    'Offers.Listings.DeliveryInfo.IsPrimeEligible',
+    'CustomerReviews.StarRating',
+    'CustomerReviews.Count',
+];
+
+type PaapiOperation = 'GetItems' | 'SearchItems' | 'GetVariations';
+
+const textEncoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: string): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', textEncoder.encode(data)));
+
+const hmacSha256 = async (key: BufferSource, data: string): Promise<ArrayBuffer> => {
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, textEncoder.encode(data));
+};
+
+export const hasAmazonApi = (config: AppConfig): boolean =>
+    !!(getAffiliateTag(config) && config.amazonAccessKey && config.amazonSecretKey);
+
+// Other storefronts need their own tag: the default one is only registered with the primary marketplace
+const hasAmazonApiFor = (config: AppConfig, marketplace: Marketplace): boolean =>
+    marketplace.id === getMarketplace(config).id ? hasAmazonApi(config) : !!(config.amazonTags?.[marketplace.id]?.trim() && config.amazonAccessKey && config.amazonSecretKey);
+
+const paapiRequest = async (config: AppConfig, operation: PaapiOperation, payload: Record<string, any>): Promise<any> => {
+    const accessKey = config.amazonAccessKey;
+    const secretKey = config.amazonSecretKey;
+    if (!accessKey || !secretKey) throw new Error("Missing Amazon PA-API credentials");
+
+    const marketplace = getMarketplace(config);
+    const endpoint = (config.amazonApiEndpoint?.trim() || `https://${marketplace.paapiHost}`).replace(/\/$/, '');
+    const { host } = new URL(endpoint);
+    const path = `/paapi5/${operation.toLowerCase()}`;
+    const service = 'ProductAdvertisingAPI';
+
+    const body = JSON.stringify({
+        ...payload,
+        PartnerTag: getAffiliateTag(config, marketplace),
+        PartnerType: 'Associates',
+        Marketplace: `www.${marketplace.domain}`,
+        Resources: PAAPI_RESOURCES,
+    });
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.substring(0, 8);
+    const headers: Record<string, string> = {
+        'content-encoding': 'amz-1.0',
+        'content-type': 'application/json; charset=utf-8',
+        'host': host,
+        'x-amz-date': amzDate,
+        'x-amz-target': `com.amazon.paapi5.v1.ProductAdvertisingAPIv1.${operation}`,
+    };
+
+    // SigV4: canonical request -> string to sign -> derived signing key
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalHeaders = Object.keys(headers).sort().map(k => `${k}:${headers[k]}\n`).join('');
+    const canonicalRequest = ['POST', path, '', canonicalHeaders, signedHeaders, await sha256Hex(body)].join('\n');
+    const scope = `${dateStamp}/${marketplace.paapiRegion}/${service}/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+    const kDate = await hmacSha256(textEncoder.encode(`AWS4${secretKey}`), dateStamp);
+    const kRegion = await hmacSha256(kDate, marketplace.paapiRegion);
+    const kService = await hmacSha256(kRegion, service);
+    const kSigning = await hmacSha256(kService, 'aws4_request');
+    const signature = toHex(await hmacSha256(kSigning, stringToSign));
+
+    // Browsers forbid setting Host; fetch (and the relay upstream) derive the same value from the URL.
+    const { host: _host, ...requestHeaders } = headers;
+    const init: RequestInit = {
+        method: 'POST',
+        headers: {
+            ...requestHeaders,
+            'Authorization': `AWS4-HMAC-SHA256 Credential=${accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
         },
+        body,
+    };
+    // The relay only fetches https, so a local http mock is called directly
+    const relay = getRelay(config);
+    const viaRelay = !!relay && endpoint.startsWith('https:');
+    let response: Response;
+    try {
+        response = viaRelay
+            ? await relayFetch(relay!, `${endpoint}${path}`, init)
+            : await rateLimitedFetch(hostRateLimitKey('paapi', endpoint), `${endpoint}${path}`, init);
+    } catch (e: any) {
+        if (viaRelay || !endpoint.startsWith('https:')) throw e;
+        throw new Error(`PA-API is not reachable from the browser (no CORS). Set up the relay under Settings > Relay and allow ${host}.`);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        const error = data.Errors?.[0];
+        // The relay reports its own failures (allowlist, secret) as { error }
+        if (!error && viaRelay && typeof data.error === 'string') throw new Error(`PA-API via relay: ${data.error}`);
+        const message = `PA-API Error ${response.status}: ${error?.Code || 'Unknown'} ${error?.Message || ''}`.trim();
+        if (response.status === 429) throw new RateLimitError(message, readRetryAfter(response));
+        throw new Error(message);
+    }
+    return data;
+};
+
+const mapPaapiItem = (item: any): ProductDetails => {
+    const listing = item.Offers?.Listings?.[0];
+    const product: ProductDetails = {
+        asin: item.ASIN,
+        title: item.ItemInfo?.Title?.DisplayValue || '',
+        price: listing?.Price?.DisplayAmount || 'Check Price',
+        imageUrl: item.Images?.Primary?.Large?.URL || constructAmazonImageUrl(item.ASIN),
+        rating: item.CustomerReviews?.StarRating?.Value || 0,
+        reviewCount: item.CustomerReviews?.Count,
+        prime: !!listing?.DeliveryInfo?.IsPrimeEligible,
+        availability: listing?.Availability?.Message,
+        gallery: (item.Images?.Variants || []).map((v: any) => v.Large?.URL).filter(Boolean),
+        pros: item.ItemInfo?.Features?.DisplayValues?.slice(0, 3),
+        url: item.DetailPageURL,
+        lastUpdated: Date.now(),
+        source: 'paapi',
+    };
+    return product;
+};
+
+export const getAmazonItems = async (config: AppConfig, asins: string[]): Promise<ProductDetails[]> => {
+    const unique = Array.from(new Set(asins.map(a => a.trim().toUpperCase()).filter(Boolean)));
+    const products: ProductDetails[] = [];
+    // GetItems accepts at most 10 ItemIds per call
+    for (let i = 0; i < unique.length; i += 10) {
+        const data = await withRetry(() => paapiRequest(config, 'GetItems', { ItemIds: unique.slice(i, i + 10) }), 2, 1500);
+        products.push(...(data.ItemsResult?.Items || []).map(mapPaapiItem));
+    }
+    return products;
+};
+
+export const searchAmazonItems = async (config: AppConfig, keywords: string, itemCount: number = 5): Promise<ProductDetails[]> => {
+    const data = await withRetry(() => paapiRequest(config, 'SearchItems', { Keywords: keywords, ItemCount: itemCount }), 2, 1500);
+    return (data.SearchResult?.Items || []).map(mapPaapiItem);
+};
+
+export const getAmazonVariations = async (config: AppConfig, asin: string): Promise<ProductDetails[]> => {
+    const data = await withRetry(() => paapiRequest(config, 'GetVariations', { ASIN: asin.trim() }), 2, 1500);
+    return (data.VariationsResult?.Items || []).map(mapPaapiItem);
+};
+
+// Overlay live PA-API facts (title, price, image, prime, rating) onto AI-produced products.
+// Copy fields (verdict, pros, award, contextSnippet) stay with the AI, and a manual image beats Amazon's.
+const enrichWithAmazonData = async (config: AppConfig, products: ProductDetails[], manualImage?: string): Promise<ProductDetails[]> => {
+    if (!hasAmazonApi(config)) return products;
+    try {
+        // Products the AI named but could not pin to an ASIN get a keyword lookup
+        const resolved = await Promise.all(products.map(async p => {
+            if (p.asin || !p.title) return p;
+            const [hit] = await searchAmazonItems(config, p.title, 1);
+            return hit ? { ...p, asin: hit.asin } : p;
+        }));
+        const live = await getAmazonItems(config, resolved.map(p => p.asin).filter(Boolean));
+        const byAsin = new Map(live.map(p => [p.asin, p]));
+        return resolved.map(p => {
+            const hit = byAsin.get(p.asin?.toUpperCase());
+            if (!hit) return p;
+            const merged: ProductDetails = {
+                ...p,
+                ...hit,
+                imageUrl: manualImage || hit.imageUrl,
+                pros: p.pros?.length ? p.pros : hit.pros,
+                award: p.award,
+                verdict: p.verdict,
+                specs: p.specs,
+                contextSnippet: p.contextSnippet,
+            };
+            merged.schema = generateJsonLd(merged, getMarketplace(config));
+            return merged;
+        });
+    } catch (e) {
+        console.warn("PA-API lookup failed, keeping AI data", e);
+        return products;
+    }
+};
+
+const generateJsonLd = (product: ProductDetails, marketplace: Marketplace = MARKETPLACES.US): string => {
+    const schema = {
+        "@context": "https://schema.org/",
+        "@type": "Product",
+        "name": product.title,
+        "image": product.imageUrl,
+        "description": product.verdict || product.title,
+        "brand": { "@type": "Brand", "name": "Amazon" },
+        // Only real ratings: AggregateRating without a count is invalid markup
+        ...(product.rating > 0 && product.reviewCount ? { "aggregateRating": {
+            "@type": "AggregateRating",
+            "ratingValue": product.rating,
+            "bestRating": "5",
+            "ratingCount": String(product.reviewCount)
+        } } : {}),
         "offers": {
             "@type": "Offer",
-            "url": `https://amazon.com/dp/${product.asin}`,
-            "priceCurrency": "USD",
-            "price": product.price.replace(/[^0-9.]/g, '') || "0.00",
+            "url": `https://www.${marketplace.domain}/dp/${product.asin}`,
+            "priceCurrency": marketplace.currency,
+            "price": parsePriceAmount(product.price, marketplace) || "0.00",
             "availability": "https://schema.org/InStock"
         }
     };
     return JSON.stringify(schema);
 };
 
+/**
+ * PROMPT TEMPLATES
+ * Analysis prompts are versioned per mode and stored with the config. A saved edit is
+ * always a new version, so A/B results keep pointing at the text that produced them.
+ */
+export const PROMPT_VARIABLES = ['title', 'context', 'asin', 'marketplace', 'currency'];
+
+const PROMPT_VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const renderPromptTemplate = (body: string, vars: Record<string, string>): string =>
+    body.replace(PROMPT_VARIABLE_REGEX, (match, name) => name in vars ? vars[name] : match);
+
+export const findUnknownPromptVariables = (body: string): string[] =>
+    [...new Set([...body.matchAll(PROMPT_VARIABLE_REGEX)].map(m => m[1]))].filter(name => !PROMPT_VARIABLES.includes(name));
+
+export const getPromptTemplates = (config: AppConfig, mode?: PromptMode): PromptTemplate[] =>
+    [...DEFAULT_PROMPT_TEMPLATES, ...(config.promptTemplates || [])].filter(t => !mode || t.mode === mode);
+
+export const resolvePromptTemplate = (config: AppConfig, mode: PromptMode): PromptTemplate => {
+    const templates = getPromptTemplates(config, mode);
+    return templates.find(t => t.id === config.activePrompts?.[mode]) || templates.find(t => t.builtin)!;
+};
+
+export const createPromptVersion = (config: AppConfig, mode: PromptMode, body: string, name: string): PromptTemplate => {
+    const version = Math.max(0, ...getPromptTemplates(config, mode).map(t => t.version)) + 1;
+    return { id: `prompt_${mode}_v${version}_${Date.now().toString(36)}`, mode, name: name.trim() || `Version ${version}`, version, body, createdAt: Date.now() };
+};
+
+// Filled-in optional fields; a placeholder price does not count
+const productCompleteness = (p: ProductDetails): number => {
+    const checks = [!!p.asin, !!p.price && p.price !== 'Check Price', !!p.verdict, !!p.award, !!p.pros?.length, !!p.cons?.length, p.rating > 0, !!p.contextSnippet];
+    return checks.filter(Boolean).length / checks.length;
+};
+
+const countWords = (text?: string): number => (text || '').trim().split(/\s+/).filter(Boolean).length;
+
+const runPromptVariant = async (config: AppConfig, page: { title: string; content: string }, template: PromptTemplate): Promise<PromptVariantResult> => {
+    const ledger = createUsageLedger(`ab_${template.id}`);
+    const started = Date.now();
+    const asin = extractAsinFromHtml(page.content);
+    const base = { templateId: template.id, productCount: 0, confidence: 0, completeness: 0, verdictWords: 0 };
+    if (template.mode === 'manual_asin' && !asin) return { ...base, cost: 0, durationMs: 0, error: 'No ASIN in post' };
+
+    const res = await analyzeContentAndFindProduct(page.title, page.content, config, {
+        mode: template.mode === 'multi' ? 'multi' : 'single',
+        manualAsin: template.mode === 'manual_asin' ? asin! : undefined,
+        promptTemplate: template,
+        ledger,
+    });
+    const products = res.detectedProducts.filter(p => p.title);
+    const average = (fn: (p: ProductDetails) => number) => products.length ? products.reduce((n, p) => n + fn(p), 0) / products.length : 0;
+    return {
+        ...base,
+        productTitle: products[0]?.title,
+        productCount: products.length,
+        confidence: products.length ? res.confidence : 0,
+        completeness: average(productCompleteness),
+        verdictWords: average(p => countWords(p.verdict)),
+        cost: ledger.records.reduce((n, r) => n + r.cost, 0),
+        durationMs: Date.now() - started,
+        error: res.error,
+    };
+};
+
+// Both versions see the same posts with the same loaded content; a random sample keeps one site section from dominating
+export const runPromptComparison = async (
+    config: AppConfig,
+    posts: BlogPost[],
+    templates: [PromptTemplate, PromptTemplate],
+    sampleSize: number,
+    onRow?: (row: PromptComparisonRow) => void
+): Promise<PromptComparisonRow[]> => {
+    const pool = [...posts];
+    for (let i = pool.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    const rows: PromptComparisonRow[] = [];
+    await runConcurrent(pool.slice(0, sampleSize), config.concurrencyLimit || 3, async (post: BlogPost) => {
+        let row: PromptComparisonRow;
+        try {
+            const page = await loadPostContent(config, post);
+            const a = await runPromptVariant(config, page, templates[0]);
+            const b = await runPromptVariant(config, page, templates[1]);
+            row = { postId: page.id || post.id, postTitle: post.title, url: post.url, a, b };
+        } catch (e: any) {
+            const failed = (t: PromptTemplate): PromptVariantResult => ({ templateId: t.id, productCount: 0, confidence: 0, completeness: 0, verdictWords: 0, cost: 0, durationMs: 0, error: e?.message || 'Failed to load post' });
+            row = { postId: post.id, postTitle: post.title, url: post.url, a: failed(templates[0]), b: failed(templates[1]) };
+        }
+        rows.push(row);
+        onRow?.(row);
+    });
+    return rows;
+};
+
 // SOTA v21: FALLBACK-READY AI
 // If AI fails but manual inputs exist, return a valid product object.
+// Responses that fail schema validation come back with `error` and `issues` instead of invented fields.
 export const analyzeContentAndFindProduct = async (
     title: string, 
     htmlContent: string, 
     config: AppConfig,
-    options?: { manualAsin?: string; manualImage?: string; mode?: 'single' | 'multi'; fallbackImage?: string }
-): Promise<{ product: ProductDetails, detectedProducts: ProductDetails[], confidence: number }> => {
+    options?: { manualAsin?: string; manualImage?: string; mode?: 'single' | 'multi'; fallbackImage?: string; ledger?: AIUsageLedger; promptTemplate?: PromptTemplate }
+): Promise<{ product: ProductDetails, detectedProducts: ProductDetails[], confidence: number, error?: string, issues?: SchemaIssue[] }> => {
     
     // 1. DATA PREP
     const mode = options?.mode || 'single';
@@ -424,6 +1894,7 @@ export const analyzeContentAndFindProduct = async (
     const manualImage = options?.manualImage?.trim();
     const existingAsin = manualAsin || extractAsinFromHtml(htmlContent);
     const context = extractContext(htmlContent);
+    const marketplace = getMarketplace(config);
 
     // 2. HELPER: Manual Product Construction (Fallback)
     const createFallbackProduct = (): ProductDetails => {
@@ -435,72 +1906,63 @@ export const analyzeContentAndFindProduct = async (
             asin: manualAsin || "",
             title: manualAsin ? "Amazon Product (Check Details)" : "Detected Product",
             price: "Check Price",
-            rating: 4.8,
-            prime: true,
+            rating: 0,
+            prime: false,
             imageUrl: fallbackImg,
             description: "",
-            pros: ["Verified Quality", "Fast Shipping"],
+            pros: [],
             cons: [],
-            award: "Top Pick",
-            verdict: "A solid choice based on current specifications.",
+            verdict: "",
             specs: {},
-            contextSnippet: ""
+            contextSnippet: "",
+            source: 'manual'
         };
     };
 
     if (!htmlContent || htmlContent.length < 50) return { product: createFallbackProduct(), detectedProducts: [], confidence: 0 };
-    
-    const useGrounding = !!manualAsin || !existingAsin || mode === 'multi';
 
-    let instruction = "";
-    if (manualAsin) {
-        instruction = `CRITICAL TASK: I have provided a specific ASIN: ${manualAsin}. You MUST find the details for THIS specific product on Amazon. Use Google Search to find the REAL-TIME Price and specific product title.`;
-    } else if (mode === 'multi') {
-        instruction = `DEEP SCAN MODE: Identify ALL distinct products reviewed.`;
-    } else if (existingAsin) {
-        instruction = `Detected ASIN ${existingAsin}. Verify details.`;
-    } else {
-        instruction = `SEARCH the web for the primary product. Find its ASIN, current price, and image URL.`;
-    }
+    // 3. PA-API FALLBACK: a known ASIN still resolves to real facts when the AI fails, but carries no copy
+    const knownAsin = manualAsin || existingAsin;
+    const lookupKnownAsin = async (): Promise<ProductDetails | null> => {
+        const [live] = await getAmazonItems(config, [knownAsin!]);
+        if (!live) return null;
+        if (manualImage) live.imageUrl = manualImage;
+        live.schema = generateJsonLd(live, marketplace);
+        return live;
+    };
+
+    // 4. AI: writes the copy (verdict, award, pros, cons); PA-API overlays the facts (title, price, image, prime, rating)
+    const useGrounding = !!manualAsin || !existingAsin || mode === 'multi';
 
+    // Spelled out for providers (and grounded Gemini calls) that cannot enforce the schema natively
     const outputFormat = mode === 'multi' 
-        ? `[ { "asin": "...", "productName": "...", "price": "...", "imageUrl": "...", "verdict": "...", "contextSnippet": "..." } ]`
-        : `{ "found": boolean, "confidence": number, "asin": "...", "productName": "...", "price": "...", "imageUrl": "...", "verdict": "...", "contextSnippet": "..." }`;
-
-    const prompt = `
-      You are an Elite Direct-Response Copywriter.
-      Task: ${instruction}
-      Requirements:
-      1. PRICE: Find exact current price.
-      2. VERDICT: Write a 2-sentence "Verdict".
-      Input Context: Title: "${title}", Snippet: "${context.substring(0, 5000)}..."
-      Return JSON Only: ${outputFormat}
-    `;
+        ? `{ "products": [ { "asin": "...", "productName": "...", "price": "...", "imageUrl": "...", "verdict": "...", "award": "...", "pros": ["..."], "cons": ["..."], "rating": number, "prime": boolean, "contextSnippet": "exact text of the H2/H3 heading that introduces this product" } ] }`
+        : `{ "found": boolean, "confidence": number, "asin": "...", "productName": "...", "price": "...", "imageUrl": "...", "verdict": "...", "award": "...", "pros": ["..."], "cons": ["..."], "rating": number, "prime": boolean, "contextSnippet": "..." }`;
+
+    const template = options?.promptTemplate || resolvePromptTemplate(config, manualAsin ? 'manual_asin' : mode);
+    const prompt = renderPromptTemplate(template.body, {
+        title,
+        context: context.substring(0, 5000),
+        asin: manualAsin || existingAsin || 'none',
+        marketplace: marketplace.domain,
+        currency: marketplace.currency,
+    }) + `\nReturn JSON Only: ${outputFormat}`;
 
     try {
-        const jsonString = await generateAIContent(config.aiProvider, config.aiApiKey, config.aiModel, prompt, useGrounding);
-        
-        let cleanJson = jsonString.replace(/```json|```/g, '').trim();
-        const jsonMatch = cleanJson.match(/(\{|\[)[\s\S]*(\}|\])/);
-        if (jsonMatch) cleanJson = jsonMatch[0];
-        
-        let data: any;
-        try {
-             data = JSON.parse(cleanJson);
-        } catch(e) {
-             throw new Error("AI returned invalid JSON");
-        }
+        const spec = AI_RESPONSE_SCHEMAS[mode];
+        const raw = await generateAIContent(config, prompt, { useGrounding, schema: spec, ledger: options?.ledger });
 
-        const mapToProduct = (d: any): ProductDetails => {
+        const manualOverrideImage = manualImage?.startsWith('http') ? manualImage : undefined;
+        const mapToProduct = (d: AIProductCandidate): ProductDetails => {
             let finalImage = "https://placehold.co/500?text=Product";
 
             // Priority 1: User Manual Override (Absolute Truth)
-            if (manualImage && manualImage.startsWith('http')) {
-                finalImage = manualImage;
+            if (manualOverrideImage) {
+                finalImage = manualOverrideImage;
             } 
             // Priority 2: Constructed Amazon URL from ASIN (Mathematical Certainty)
             else if (d.asin || manualAsin) {
-                 finalImage = constructAmazonImageUrl(d.asin || manualAsin);
+                 finalImage = constructAmazonImageUrl((d.asin || manualAsin)!);
             }
             // Priority 3: AI Found Image
             else if (d.imageUrl && d.imageUrl.startsWith('http')) {
@@ -512,45 +1974,84 @@ export const analyzeContentAndFindProduct = async (
             }
 
             const prod: ProductDetails = {
-                asin: manualAsin || d.asin || '',
-                title: d.productName || "Unknown Product",
-                price: d.price || "Check Price",
-                rating: 4.8,
-                prime: true,
+                asin: manualAsin || d.asin?.trim() || '',
+                title: d.productName.trim(),
+                price: d.price?.trim() || "Check Price",
+                rating: d.rating ?? 0,
+                prime: d.prime ?? false,
                 imageUrl: finalImage,
                 description: "",
-                pros: d.pros || ["High Quality", "Great Value"],
-                cons: d.cons,
-                award: d.award || "Top Pick",
-                verdict: d.verdict || "This product delivers outstanding value and performance that you simply cannot ignore.",
-                specs: d.specs,
-                contextSnippet: d.contextSnippet 
+                pros: d.pros ?? undefined,
+                cons: d.cons ?? undefined,
+                award: d.award?.trim() || undefined,
+                verdict: d.verdict.trim(),
+                contextSnippet: d.contextSnippet ?? undefined,
+                source: 'ai'
             };
-            prod.schema = generateJsonLd(prod);
+            prod.schema = generateJsonLd(prod, marketplace);
             return prod;
         };
 
-        if (mode === 'multi' && Array.isArray(data)) {
-             const products = data.map(mapToProduct);
-             return { product: products[0], detectedProducts: products, confidence: 90 };
+        if (mode === 'multi') {
+             const { value, repairs } = repairJson(raw);
+             if (repairs.length) console.warn("Repaired AI JSON:", repairs.join(', '));
+             // Grounded calls cannot enforce the schema and often answer with a bare array
+             const list = Array.isArray(value) ? value : (value as AIMultiProductResponse)?.products;
+             if (!Array.isArray(list)) throw new AIResponseError("AI response has no products array", [{ path: '$.products', message: 'is required' }], raw);
+             // One malformed entry should not cost the rest of the listicle
+             const issues: SchemaIssue[] = [];
+             const valid = list.filter((item, i) => {
+                 const found = validateAgainstSchema(item, PRODUCT_CANDIDATE_SCHEMA, `$.products[${i}]`);
+                 issues.push(...found);
+                 return found.length === 0;
+             }) as AIProductCandidate[];
+             if (valid.length === 0) throw new AIResponseError(`AI returned no valid products${issues.length ? `: ${summarizeIssues(issues)}` : ''}`, issues, raw);
+             const products = await enrichWithAmazonData(config, valid.map(mapToProduct), manualOverrideImage);
+             const dropped = list.length - valid.length;
+             return {
+                 product: products[0], detectedProducts: products, confidence: 90,
+                 ...(dropped > 0 ? { error: `Dropped ${dropped} invalid product(s): ${summarizeIssues(issues)}`, issues } : {})
+             };
         } else {
+             const { data, repairs } = parseAIResponse<AISingleProductResponse>(raw, spec);
+             if (repairs.length) console.warn("Repaired AI JSON:", repairs.join(', '));
+             if (!data.found && !manualAsin) throw new AIResponseError(`AI found no product (confidence ${data.confidence}%)`, [], raw);
+             const issues = validateAgainstSchema(data, PRODUCT_CANDIDATE_SCHEMA);
+             if (issues.length > 0) throw new AIResponseError(`AI response failed product validation: ${summarizeIssues(issues)}`, issues, raw);
              const prod = mapToProduct(data);
              if(manualAsin) prod.asin = manualAsin; 
-             return { product: prod, detectedProducts: [prod], confidence: data.confidence || 85 };
+             const [verified] = await enrichWithAmazonData(config, [prod], manualOverrideImage);
+             return { product: verified, detectedProducts: [verified], confidence: data.confidence };
         }
 
-    } catch (e) {
+    } catch (e: any) {
         console.warn("AI Analysis Failed", e);
+        const failure = { error: e?.message || String(e), issues: e instanceof AIResponseError && e.issues.length ? e.issues : undefined };
+        // Without the AI a known ASIN still gives one real product. It has no verdict and the ASIN may be any link
+        // in the post, so unless the user named it, it only just clears the review cutoff (50) and waits for a human.
+        if (knownAsin && hasAmazonApi(config)) {
+             try {
+                 const live = await lookupKnownAsin();
+                 if (live) return { product: live, detectedProducts: [live], confidence: manualAsin ? 100 : 51, ...failure };
+             } catch (err) { console.warn("PA-API Fallback Failed", err); }
+        }
         // CRITICAL FALLBACK: If AI failed but we have manual data, return a functional product object
         if (manualAsin || manualImage) {
              const fallback = createFallbackProduct();
-             return { product: fallback, detectedProducts: [fallback], confidence: 100 };
+             return { product: fallback, detectedProducts: [fallback], confidence: 100, ...failure };
         }
-        return { product: {} as ProductDetails, detectedProducts: [], confidence: 0 };
+        return { product: {} as ProductDetails, detectedProducts: [], confidence: 0, ...failure };
     }
 };
 
-export const pushToWordPress = async (config: AppConfig, postId: number, content: string): Promise<string> => {
+export class WordPressError extends Error {
+    constructor(message: string, public status?: number) {
+        super(message);
+        this.name = 'WordPressError';
+    }
+}
+
+export const pushToWordPress = async (config: AppConfig, postId: number, content: string, restBase: string = 'posts', revision: RevisionMeta = { reason: 'manual' }): Promise<WordPressPushResult> => {
     let url = config.wpUrl.trim().replace(/\/$/, "");
     if (!url.startsWith('http')) url = 'https://' + url;
     if (typeof window !== 'undefined' && window.location.protocol === 'https:' && url.startsWith('http:')) {
@@ -558,16 +2059,46 @@ export const pushToWordPress = async (config: AppConfig, postId: number, content
     }
     const auth = btoa(`${config.wpUser}:${config.wpAppPassword}`);
     try {
-        const response = await fetch(`${url}/wp-json/wp/v2/posts/${postId}`, {
+        const before = await fetchLiveRawContent(url, auth, restBase, postId);
+        // The undo record goes in before the content goes live; no journal, no push
+        const entry: RevisionEntry = {
+            ...revision,
+            id: `rev_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`,
+            siteUrl: url,
+            postId,
+            restBase,
+            timestamp: Date.now(),
+            before,
+            after: content,
+            diff: computeLineDiff(before, content),
+        };
+        try {
+            await RevisionStore.add(entry);
+        } catch (err: any) {
+            throw new Error(`Push aborted: could not journal the current content (${err?.message || err})`);
+        }
+        // context=edit echoes back the raw content as WordPress stored it (after kses etc.)
+        const response = await rateLimitedFetch(hostRateLimitKey('wordpress', url), `${url}/wp-json/wp/v2/${restBase}/${postId}?context=edit`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json', 'Authorization': `Basic ${auth}` },
             body: JSON.stringify({ content: content })
+        }).catch(err => {
+            RevisionStore.remove(entry.id).catch(() => {});
+            throw err;
         });
         if (!response.ok) {
-            if (response.status === 401) throw new Error("WP Auth Failed (401)");
-            throw new Error(`WP Error: ${response.status}`);
+            RevisionStore.remove(entry.id).catch(() => {});
+            if (response.status === 401) throw new WordPressError("WP Auth Failed (401)", 401);
+            throw new WordPressError(`WP Error: ${response.status}`, response.status);
         }
-        return (await response.json()).link;
+        const data = await response.json();
+        const after = data.content?.raw ?? content;
+        // Conflict checks on revert compare against what WordPress stored, not what we sent
+        if (after !== content) {
+            await RevisionStore.update({ ...entry, after, diff: computeLineDiff(before, after) })
+                .catch(err => console.warn("Revision journal update failed", err));
+        }
+        return { link: data.link, status: response.status };
     } catch (e: any) {
         if (e.message.includes('Failed to fetch')) {
              const currentOrigin = typeof window !== 'undefined' ? window.location.origin : 'APP_URL';
@@ -577,66 +2108,378 @@ export const pushToWordPress = async (config: AppConfig, postId: number, content
     }
 };
 
-export const generateProductBoxHtml = (product: ProductDetails, affiliateTag: string, enableStickyBar: boolean = true): string => {
-  const cleanAsin = product.asin?.trim() || "";
-  const link = cleanAsin ? `https://www.amazon.com/dp/${cleanAsin}?tag=${affiliateTag}` : "#";
-  const uniqueId = `amz-${Math.random().toString(36).substr(2, 9)}`;
-  const reset = `all: unset; box-sizing: border-box; font-family: -apple-system, system-ui, sans-serif; line-height: 1.5; color: #1e293b; display: block;`;
-  
-  // Clean logic: If price is "Not specified in context", we hide the specific text and just show Check Price button.
-  let displayPrice = product.price;
-  if (!displayPrice || displayPrice.toLowerCase().includes('not specified') || displayPrice.toLowerCase().includes('check price')) {
-      displayPrice = "Check Price";
-  }
-
-  const styles = `
-    <style>
-      @keyframes amz-pulse-${uniqueId} {
-        0% { transform: scale(1); box-shadow: 0 0 0 0 rgba(16, 185, 129, 0.7); }
-        70% { transform: scale(1.02); box-shadow: 0 0 0 10px rgba(16, 185, 129, 0); }
-        100% { transform: scale(1); box-shadow: 0 0 0 0 rgba(16, 185, 129, 0); }
-      }
-      .amz-btn-pulse-${uniqueId} {
-        animation: amz-pulse-${uniqueId} 2s infinite;
-      }
-      .amz-glass-${uniqueId} {
-        background: rgba(255, 255, 255, 0.95);
-        backdrop-filter: blur(20px);
-        -webkit-backdrop-filter: blur(20px);
-      }
-    </style>
-  `;
+/**
+ * REVISION JOURNAL
+ * Every push snapshots the live content first, so any single post or a whole
+ * autopilot run can be restored through the REST API.
+ */
+const normalizeSiteUrl = (config: AppConfig): string => {
+    let url = config.wpUrl.trim().replace(/\/$/, "");
+    if (!url.startsWith('http')) url = 'https://' + url;
+    return url;
+};
 
-  let stickyHtml = '';
-  if (enableStickyBar && cleanAsin) {
-      stickyHtml = `
-      <div id="${uniqueId}-sticky" style="${reset} position: fixed; bottom: 0; left: 0; right: 0; background: rgba(255,255,255,0.9); backdrop-filter: blur(15px); padding: 12px 20px; border-top: 1px solid rgba(0,0,0,0.05); box-shadow: 0 -4px 30px rgba(0,0,0,0.1); z-index: 99999; display: none; justify-content: space-between; align-items: center; transform: translateY(100%); transition: transform 0.4s cubic-bezier(0.16, 1, 0.3, 1);">
-          <div style="${reset} display: flex; flex-direction: column;">
-             <span style="font-size: 9px; text-transform: uppercase; color: #64748b; font-weight: 800; letter-spacing: 1px;">Available On Amazon</span>
-             <span style="font-weight: 900; color: #0f172a; font-size: 16px;">${displayPrice}</span>
-          </div>
-          <a href="${link}" target="_blank" rel="nofollow sponsored" style="${reset} background: #000; color: white; padding: 10px 24px; border-radius: 99px; font-weight: 700; font-size: 13px; text-decoration: none; box-shadow: 0 4px 15px rgba(0,0,0,0.2);">
-             Check Deal
-          </a>
-      </div>
-      <script>
-         (function(){
-            var bar = document.getElementById('${uniqueId}-sticky');
-            if(window.innerWidth < 768 && bar) {
-                bar.style.display = 'flex';
-                setTimeout(function(){ bar.style.transform = 'translateY(0)'; }, 800);
+// Line diff: trim the common prefix/suffix (insertions are localized), then LCS the middle.
+export const computeLineDiff = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length, endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const diff: DiffLine[] = [];
+
+    // Guard against pathological rewrites: report the block as replaced
+    if (midA.length * midB.length > 4_000_000) {
+        midA.forEach((text, i) => diff.push({ type: 'remove', line: start + i + 1, text }));
+        midB.forEach((text, i) => diff.push({ type: 'add', line: start + i + 1, text }));
+        return diff;
+    }
+
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i * cols + j] = midA[i] === midB[j] ? lcs[(i + 1) * cols + j + 1] + 1 : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+        }
+    }
+    let i = 0, j = 0;
+    while (i < midA.length || j < midB.length) {
+        if (i < midA.length && j < midB.length && midA[i] === midB[j]) { i++; j++; }
+        else if (i < midA.length && (j >= midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+            diff.push({ type: 'remove', line: start + i + 1, text: midA[i] }); i++;
+        } else {
+            diff.push({ type: 'add', line: start + j + 1, text: midB[j] }); j++;
+        }
+    }
+    return diff;
+};
+
+const fetchLiveRawContent = async (siteUrl: string, auth: string, restBase: string, postId: number): Promise<string> => {
+    const res = await rateLimitedFetch(hostRateLimitKey('wordpress', siteUrl), `${siteUrl}/wp-json/wp/v2/${restBase}/${postId}?context=edit&_fields=content`, {
+        method: 'GET',
+        headers: { 'Authorization': `Basic ${auth}` }
+    });
+    if (!res.ok) throw new WordPressError(`Snapshot failed (WP ${res.status}). Push aborted to keep rollback possible.`, res.status);
+    const data = await res.json();
+    return data.content?.raw ?? data.content?.rendered ?? '';
+};
+
+export const RevisionStore = {
+    add: async (entry: RevisionEntry): Promise<void> => {
+        await withStore(REVISION_STORE, 'readwrite', s => s.put(entry));
+    },
+    update: async (entry: RevisionEntry): Promise<void> => {
+        await withStore(REVISION_STORE, 'readwrite', s => s.put(entry));
+    },
+    remove: async (id: string): Promise<void> => {
+        await withStore(REVISION_STORE, 'readwrite', s => s.delete(id));
+    },
+    listForPost: async (config: AppConfig, postId: number): Promise<RevisionEntry[]> => {
+        const entries = await withStore<RevisionEntry[]>(REVISION_STORE, 'readonly', s => s.index('postId').getAll(postId));
+        const siteUrl = normalizeSiteUrl(config);
+        return entries.filter(e => e.siteUrl === siteUrl).sort((a, b) => b.timestamp - a.timestamp);
+    },
+    listForRun: async (runId: string): Promise<RevisionEntry[]> => {
+        const entries = await withStore<RevisionEntry[]>(REVISION_STORE, 'readonly', s => s.index('runId').getAll(runId));
+        return entries.sort((a, b) => a.timestamp - b.timestamp);
+    },
+    listRuns: async (config: AppConfig): Promise<AutopilotRunSummary[]> => {
+        const entries = await withStore<RevisionEntry[]>(REVISION_STORE, 'readonly', s => s.getAll());
+        const siteUrl = normalizeSiteUrl(config);
+        const runs = new Map<string, AutopilotRunSummary>();
+        entries.filter(e => e.runId && e.siteUrl === siteUrl).forEach(e => {
+            const run = runs.get(e.runId!) || { runId: e.runId!, startedAt: e.timestamp, postCount: 0, revertedCount: 0 };
+            run.startedAt = Math.min(run.startedAt, e.timestamp);
+            run.postCount++;
+            if (e.revertedAt) run.revertedCount++;
+            runs.set(e.runId!, run);
+        });
+        return Array.from(runs.values()).sort((a, b) => b.startedAt - a.startedAt);
+    },
+};
+
+// Restores the pre-push content. Refuses (unless forced) when the post was edited after our push.
+export const revertRevision = async (config: AppConfig, entry: RevisionEntry, force: boolean = false): Promise<'reverted' | 'conflict'> => {
+    const siteUrl = normalizeSiteUrl(config);
+    const auth = btoa(`${config.wpUser}:${config.wpAppPassword}`);
+    if (!force) {
+        const live = await fetchLiveRawContent(siteUrl, auth, entry.restBase, entry.postId);
+        if (live.trim() !== entry.after.trim()) return 'conflict';
+    }
+    await pushToWordPress(config, entry.postId, entry.before, entry.restBase, { reason: 'revert', postTitle: entry.postTitle });
+    await RevisionStore.update({ ...entry, revertedAt: Date.now() });
+    return 'reverted';
+};
+
+export const revertRun = async (
+    config: AppConfig,
+    runId: string,
+    onProgress?: (done: number, total: number) => void
+): Promise<{ reverted: number; conflicts: RevisionEntry[]; failed: RevisionEntry[] }> => {
+    const entries = (await RevisionStore.listForRun(runId)).filter(e => !e.revertedAt);
+    const conflicts: RevisionEntry[] = [];
+    const failed: RevisionEntry[] = [];
+    let reverted = 0, done = 0;
+    await runConcurrent(entries, config.concurrencyLimit || 3, async (entry) => {
+        try {
+            const result = await revertRevision(config, entry);
+            if (result === 'reverted') reverted++;
+            else conflicts.push(entry);
+        } catch (e) {
+            console.warn("Revert failed", entry.postId, e);
+            failed.push(entry);
+        } finally {
+            onProgress?.(++done, entries.length);
+        }
+    });
+    return { reverted, conflicts, failed };
+};
+
+// Shared publish path for anything that already has chosen products (review queue approvals).
+export const publishProductToPost = async (
+    config: AppConfig,
+    post: BlogPost,
+    products: ProductDetails | ProductDetails[],
+    method: InsertionMethod,
+    revision: RevisionMeta
+): Promise<{ id: number; link: string }> => {
+    const list = Array.isArray(products) ? products : [products];
+    const page = await loadPostContent(config, post);
+    const id = page.id || post.id;
+    if (!id) throw new Error("Could not resolve the WordPress post ID");
+    const { html } = applyProductsToContent(config, page.content, list, method, resolveBoxTemplate(config, post));
+    const { link } = await pushToWordPress(config, id, html, post.restBase, { postTitle: post.title, product: list[0], insertionMethod: method, ...revision });
+    return { id, link };
+};
+
+/**
+ * AUTOPILOT JOB QUEUE
+ * Each post of a run is a durable job, so a run survives a reload and can be
+ * paused, resumed or cancelled between posts. The run record sits in the meta store.
+ */
+const autopilotRunKey = (siteKey: string) => `autopilotRun:${siteKey}`;
+
+// Writes many records in one transaction; withStore only covers single requests
+const putAll = async (store: string, records: any[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    records.forEach(r => tx.objectStore(store).put(r));
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const JobStore = {
+    saveRun: async (run: AutopilotRun): Promise<void> => {
+        await withStore(META_STORE, 'readwrite', s => s.put({ ...run, updatedAt: Date.now() }, autopilotRunKey(run.siteKey)));
+    },
+    putJob: async (job: AutopilotJob): Promise<void> => {
+        await withStore(JOB_STORE, 'readwrite', s => s.put(job));
+    },
+    putJobs: (jobs: AutopilotJob[]): Promise<void> => putAll(JOB_STORE, jobs),
+    listJobs: async (runId: string): Promise<AutopilotJob[]> => {
+        const jobs = await withStore<AutopilotJob[]>(JOB_STORE, 'readonly', s => s.index('runId').getAll(runId));
+        return jobs.sort((a, b) => a.order - b.order);
+    },
+    // Last run for the site. Jobs that were mid-flight when the tab closed go back to the queue.
+    load: async (siteKey: string): Promise<{ run: AutopilotRun; jobs: AutopilotJob[] } | null> => {
+        const run = await withStore<AutopilotRun | undefined>(META_STORE, 'readonly', s => s.get(autopilotRunKey(siteKey)));
+        if (!run) return null;
+        const jobs = await JobStore.listJobs(run.runId);
+        const interrupted = jobs.filter(j => j.state === 'running').map(j => ({ ...j, state: 'queued' as const, updatedAt: Date.now() }));
+        if (interrupted.length) await JobStore.putJobs(interrupted);
+        const byId = new Map(interrupted.map(j => [j.id, j]));
+        return { run, jobs: jobs.map(j => byId.get(j.id) || j) };
+    },
+    clearRun: async (run: AutopilotRun): Promise<void> => {
+        const db = await openDatabase();
+        const keys = await idbRequest(db.transaction(JOB_STORE, 'readonly').objectStore(JOB_STORE).index('runId').getAllKeys(run.runId));
+        const tx = db.transaction([JOB_STORE, META_STORE], 'readwrite');
+        keys.forEach(k => tx.objectStore(JOB_STORE).delete(k));
+        tx.objectStore(META_STORE).delete(autopilotRunKey(run.siteKey));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    },
+};
+
+export const createAutopilotJobs = (runId: string, posts: BlogPost[]): AutopilotJob[] => posts.map((post, order) => ({
+    id: `${runId}|${post.url}`,
+    runId,
+    url: post.url,
+    postId: post.id,
+    postTitle: post.title,
+    order,
+    state: 'queued',
+    attempts: 0,
+    updatedAt: Date.now(),
+}));
+
+// Worker pool over the queued jobs. `control` is read before every job, so Pause and
+// Cancel take effect as soon as the in-flight posts finish. A throwing handler fails the job.
+export const runJobQueue = async (
+    jobs: AutopilotJob[],
+    control: JobQueueControl,
+    concurrency: number,
+    handler: (job: AutopilotJob) => Promise<Pick<AutopilotJob, 'state' | 'lastError'>>,
+    onJobChange: (job: AutopilotJob) => void
+): Promise<void> => {
+    const pending = jobs.filter(j => j.state === 'queued');
+    const update = async (job: AutopilotJob, patch: Partial<AutopilotJob>): Promise<AutopilotJob> => {
+        const next = { ...job, ...patch, updatedAt: Date.now() };
+        onJobChange(next);
+        await JobStore.putJob(next).catch(e => console.warn("Job not persisted", next.id, e));
+        return next;
+    };
+
+    const worker = async () => {
+        while (pending.length && !control.paused && !control.cancelled) {
+            const queued = pending.shift()!;
+            const job = await update(queued, { state: 'running', attempts: queued.attempts + 1, lastError: undefined });
+            try {
+                await update(job, await handler(job));
+            } catch (e: any) {
+                await update(job, { state: 'failed', lastError: e?.message || 'Unknown error' });
             }
-         })();
-      </script>`;
-  }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+
+    if (control.cancelled && pending.length) {
+        const cancelled = pending.map(j => ({ ...j, state: 'cancelled' as const, updatedAt: Date.now() }));
+        cancelled.forEach(onJobChange);
+        await JobStore.putJobs(cancelled).catch(e => console.warn("Cancelled jobs not persisted", e));
+    }
+};
 
-  const schemaHtml = product.schema ? `<script type="application/ld+json">${product.schema}</script>` : '';
+/**
+ * PROCESSING LOG
+ * Per-post trail of pipeline steps (fetch, affiliate check, AI calls, insertion,
+ * push) so a failed overnight run can be read back post by post.
+ */
+const PROCESSING_LOG_LIMIT = 60;
 
-  return `
-    <!-- wp:html -->
-    <div id="${uniqueId}" class="amz-sota-box amz-glass-${uniqueId}" style="${reset} margin: 4rem auto; max-width: 850px; border-radius: 24px; border: 1px solid rgba(0,0,0,0.06); box-shadow: 0 25px 50px -12px rgba(0,0,0,0.1); overflow: hidden; position: relative;">
-      ${schemaHtml}
-      ${styles}
+export const logStep = (log: ProcessingLogEntry[], step: ProcessingStep, ok: boolean, message: string, extra?: Partial<ProcessingLogEntry>) => {
+    log.push({ step, ok, timestamp: Date.now(), message, ...extra });
+};
+
+// Books one step, failed or not. HTTP status comes from a result that carries one (a push) or from
+// AIProviderError / WordPressError. Errors are rethrown.
+export const timeStep = async <T>(
+    log: ProcessingLogEntry[],
+    step: ProcessingStep,
+    describe: string | ((value: T) => string),
+    fn: () => Promise<T>
+): Promise<T> => {
+    const startedAt = Date.now();
+    try {
+        const value = await fn();
+        const status = typeof value === 'object' && value !== null && 'status' in value && typeof value.status === 'number' ? value.status : undefined;
+        log.push({ step, ok: true, timestamp: startedAt, durationMs: Date.now() - startedAt, message: typeof describe === 'function' ? describe(value) : describe, ...(status !== undefined ? { status } : {}) });
+        return value;
+    } catch (e: any) {
+        log.push({ step, ok: false, timestamp: startedAt, durationMs: Date.now() - startedAt, message: e?.message || 'Unknown error', status: typeof e?.status === 'number' ? e.status : undefined });
+        throw e;
+    }
+};
+
+// One entry per AI attempt, fallbacks included
+export const usageToLogEntries = (records: AIUsageRecord[]): ProcessingLogEntry[] => records.map(r => ({
+    step: 'ai',
+    ok: r.ok,
+    timestamp: r.timestamp - (r.durationMs || 0),
+    durationMs: r.durationMs,
+    provider: r.provider,
+    model: r.model,
+    message: (r.ok ? `${(r.inputTokens + r.outputTokens).toLocaleString()} tokens${r.estimated ? ' (est.)' : ''}` : r.error || 'Failed') + (r.ungrounded ? ' · no web search' : ''),
+}));
+
+// Stamps the run and keeps only the newest entries, so stored profiles stay small
+export const appendProcessingLog = (previous: ProcessingLogEntry[] | undefined, entries: ProcessingLogEntry[], runId?: string): ProcessingLogEntry[] =>
+    [...(previous || []), ...entries.map(e => ({ ...e, runId }))].slice(-PROCESSING_LOG_LIMIT);
+
+export const exportRunLogCsv = (posts: BlogPost[], runId: string): string => {
+    const header = ['Post ID', 'Title', 'URL', 'Time', 'Step', 'OK', 'Message', 'Provider', 'Model', 'Duration (ms)', 'HTTP Status'];
+    const rows = posts.flatMap(p => (p.processingLog || []).filter(e => e.runId === runId).map(e => [
+        p.id, p.title, p.url, new Date(e.timestamp).toISOString(), e.step, e.ok ? 'yes' : 'no', e.message, e.provider, e.model, e.durationMs, e.status
+    ]));
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+/**
+ * PRODUCT BOX TEMPLATES
+ * One renderer feeds both the WordPress output and the in-app preview. Templates
+ * only draw the body; the root element, metadata blob, schema and sticky bar are
+ * shared so stripping, parsing and price refresh work for every layout.
+ */
+// AI and PA-API copy lands in markup and attributes on the live post; every field goes through these
+const escapeHtml = (text?: string): string =>
+    (text || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Escaping alone lets javascript: and data: URLs through
+const escapeUrl = (url: string, fallback: string = ''): string =>
+    /^https?:\/\//i.test((url || '').trim()) ? escapeHtml(url.trim()) : fallback;
+
+const BOX_RESET = `all: unset; box-sizing: border-box; font-family: -apple-system, system-ui, sans-serif; line-height: 1.5; color: #1e293b; display: block;`;
+
+// Clean logic: If price is "Not specified in context", we hide the specific text and just show Check Price button.
+const formatDisplayPrice = (product: ProductDetails): string => {
+    const price = product.price;
+    if (!price || price.toLowerCase().includes('not specified') || price.toLowerCase().includes('check price')) return "Check Price";
+    return price;
+};
+
+// Amazon requires a date/time next to any displayed price
+const formatPriceTimestamp = (product: ProductDetails): string =>
+    product.lastUpdated && formatDisplayPrice(product) !== "Check Price"
+        ? `Price as of ${new Date(product.lastUpdated).toISOString().slice(0, 16).replace('T', ' ')} UTC`
+        : '';
+
+const renderPriceTimestamp = (product: ProductDetails): string => {
+    const stamp = formatPriceTimestamp(product);
+    return stamp ? `<span class="amz-price-date" style="font-size:9px; color:#94a3b8;">${stamp}</span>` : '';
+};
+
+const PRODUCT_BOX_TEMPLATES: Record<string, ProductBoxTemplate> = {};
+
+export const registerProductBoxTemplate = (template: ProductBoxTemplate) => {
+    PRODUCT_BOX_TEMPLATES[template.id] = template;
+};
+
+export const getProductBoxTemplates = (): ProductBoxTemplate[] => Object.values(PRODUCT_BOX_TEMPLATES);
+
+export const getProductBoxTemplate = (id?: ProductBoxTemplateId): ProductBoxTemplate =>
+    PRODUCT_BOX_TEMPLATES[id || ''] || PRODUCT_BOX_TEMPLATES.glass;
+
+export const resolveBoxTemplate = (config: AppConfig, post?: BlogPost): ProductBoxTemplateId =>
+    post?.boxTemplate || config.defaultBoxTemplate || 'glass';
+
+registerProductBoxTemplate({
+    id: 'glass',
+    label: 'Glass Showcase',
+    description: 'Full-width hero box with verdict, specs and CTA',
+    multiProduct: false,
+    stickyBar: true,
+    rootStyle: 'margin: 4rem auto; max-width: 850px; border-radius: 24px; border: 1px solid rgba(0,0,0,0.06); box-shadow: 0 25px 50px -12px rgba(0,0,0,0.1); overflow: hidden; position: relative; background: rgba(255, 255, 255, 0.95); backdrop-filter: blur(20px); -webkit-backdrop-filter: blur(20px);',
+    render: ({ id, products: [product], link, reset }) => {
+        const href = link(product);
+        return `
+      <style>
+        @keyframes amz-pulse-${id} {
+          0% { transform: scale(1); box-shadow: 0 0 0 0 rgba(16, 185, 129, 0.7); }
+          70% { transform: scale(1.02); box-shadow: 0 0 0 10px rgba(16, 185, 129, 0); }
+          100% { transform: scale(1); box-shadow: 0 0 0 0 rgba(16, 185, 129, 0); }
+        }
+        .amz-btn-pulse-${id} {
+          animation: amz-pulse-${id} 2s infinite;
+        }
+      </style>
       
       <!-- Verified Header -->
       <div style="${reset} background: linear-gradient(to right, #f8fafc, #fff); border-bottom: 1px solid #f1f5f9; padding: 12px 24px; display: flex; align-items: center; justify-content: space-between;">
@@ -644,21 +2487,21 @@ export const generateProductBoxHtml = (product: ProductDetails, affiliateTag: st
              <span style="display:inline-block; width:6px; height:6px; background:#10b981; border-radius:50%;"></span> Expert Verified
           </div>
           <div style="${reset} font-size: 10px; font-weight: 800; text-transform: uppercase; color: #fff; background: linear-gradient(135deg, #3b82f6, #2563eb); padding: 5px 14px; border-radius: 99px; box-shadow: 0 2px 10px rgba(37, 99, 235, 0.2);">
-             ${product.award || "Top Choice"}
+             ${escapeHtml(product.award || "Top Choice")}
           </div>
       </div>
 
       <div class="amz-layout" style="${reset} display: flex; flex-wrap: wrap;">
         <!-- Image -->
         <div style="${reset} flex: 1; min-width: 300px; padding: 40px; display: flex; align-items: center; justify-content: center; background: #fff;">
-           <a href="${link}" target="_blank" rel="nofollow sponsored" style="display: block; transition: transform 0.3s cubic-bezier(0.175, 0.885, 0.32, 1.275);">
-             <img src="${product.imageUrl}" alt="${product.title}" style="max-width: 100%; height: auto; max-height: 240px; object-fit: contain; filter: drop-shadow(0 10px 15px rgba(0,0,0,0.1));" />
+           <a href="${href}" target="_blank" rel="nofollow sponsored" style="display: block; transition: transform 0.3s cubic-bezier(0.175, 0.885, 0.32, 1.275);">
+             <img src="${escapeUrl(product.imageUrl)}" alt="${escapeHtml(product.title)}" style="max-width: 100%; height: auto; max-height: 240px; object-fit: contain; filter: drop-shadow(0 10px 15px rgba(0,0,0,0.1));" />
            </a>
         </div>
         <!-- Info -->
         <div style="${reset} flex: 1.4; min-width: 320px; padding: 32px; display: flex; flex-direction: column; background: #fbfbfc;">
            <h3 style="${reset} font-size: 1.5rem; font-weight: 800; color: #0f172a; line-height: 1.25; margin-bottom: 12px; letter-spacing: -0.02em;">
-             <a href="${link}" target="_blank" rel="nofollow sponsored" style="text-decoration: none; color: #0f172a;">${product.title}</a>
+             <a href="${href}" target="_blank" rel="nofollow sponsored" style="text-decoration: none; color: #0f172a;">${escapeHtml(product.title)}</a>
            </h3>
            
            <div style="${reset} display: flex; align-items: center; gap: 10px; margin-bottom: 20px;">
@@ -669,14 +2512,14 @@ export const generateProductBoxHtml = (product: ProductDetails, affiliateTag: st
 
            <p style="${reset} font-size: 1rem; color: #475569; margin-bottom: 24px; line-height: 1.6; background: #fff; padding: 16px; border-radius: 12px; border: 1px solid #e2e8f0;">
               <span style="font-weight: 800; color: #0f172a; font-size: 11px; text-transform: uppercase; display: block; margin-bottom: 6px; letter-spacing: 0.5px;">The Verdict</span>
-              ${product.verdict}
+              ${escapeHtml(product.verdict)}
            </p>
 
            <!-- Specs Mini -->
            ${product.specs ? `<div style="${reset} display: grid; grid-template-columns: 1fr 1fr; gap: 8px; margin-bottom: 24px;">
               ${Object.entries(product.specs).slice(0,2).map(([k,v]) => `
                 <div style="font-size: 11px; color: #475569; background: #f1f5f9; padding: 6px 12px; border-radius: 8px;">
-                   <span style="font-weight:700; color:#1e293b;">${k}:</span> ${v}
+                   <span style="font-weight:700; color:#1e293b;">${escapeHtml(k)}:</span> ${escapeHtml(String(v))}
                 </div>
               `).join('')}
            </div>` : ''}
@@ -684,20 +2527,229 @@ export const generateProductBoxHtml = (product: ProductDetails, affiliateTag: st
            <div style="${reset} margin-top: auto; display: flex; align-items: center; justify-content: space-between; padding-top: 10px;">
               <div style="display:flex; flex-direction:column;">
                 <span style="font-size:10px; font-weight:700; color:#94a3b8; text-transform:uppercase;">Current Price</span>
-                <span style="font-size: 1.8rem; font-weight: 900; color: #0f172a; letter-spacing: -1px;">${displayPrice}</span>
+                <span style="font-size: 1.8rem; font-weight: 900; color: #0f172a; letter-spacing: -1px;">${escapeHtml(formatDisplayPrice(product))}</span>
+                ${renderPriceTimestamp(product)}
               </div>
-              <a href="${link}" target="_blank" rel="nofollow sponsored" class="amz-btn-pulse-${uniqueId}" style="${reset} background: #0f172a; color: white; padding: 14px 32px; border-radius: 14px; font-weight: 700; font-size: 14px; text-decoration: none; transition: transform 0.2s; display:inline-flex; align-items:center; gap:8px;">
+              <a href="${href}" target="_blank" rel="nofollow sponsored" class="amz-btn-pulse-${id}" style="${reset} background: #0f172a; color: white; padding: 14px 32px; border-radius: 14px; font-weight: 700; font-size: 14px; text-decoration: none; transition: transform 0.2s; display:inline-flex; align-items:center; gap:8px;">
                 Check Price <span style="font-size:16px;">&rarr;</span>
               </a>
            </div>
         </div>
+      </div>`;
+    },
+});
+
+registerProductBoxTemplate({
+    id: 'comparison_table',
+    label: 'Comparison Table',
+    description: 'Side-by-side table for listicles and roundups',
+    multiProduct: true,
+    stickyBar: true,
+    rootStyle: 'margin: 3rem auto; max-width: 900px; border-radius: 16px; border: 1px solid #e2e8f0; overflow-x: auto; background: #fff;',
+    render: ({ products, link, reset }) => `
+      <table style="width: 100%; border-collapse: collapse; font-family: -apple-system, system-ui, sans-serif; font-size: 14px; color: #1e293b;">
+        <thead>
+          <tr style="background: #f8fafc; text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.5px; color: #64748b;">
+            <th style="padding: 12px 16px;">Product</th>
+            <th style="padding: 12px 16px;">Best For</th>
+            <th style="padding: 12px 16px;">Price</th>
+            <th style="padding: 12px 16px;"></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${products.map(product => `
+          <tr style="border-top: 1px solid #f1f5f9;">
+            <td style="padding: 14px 16px;">
+              <div style="${reset} display: flex; align-items: center; gap: 12px;">
+                <img src="${escapeUrl(product.imageUrl)}" alt="${escapeHtml(product.title)}" style="width: 56px; height: 56px; object-fit: contain;" />
+                <a href="${link(product)}" target="_blank" rel="nofollow sponsored" style="font-weight: 700; color: #0f172a; text-decoration: none;">${escapeHtml(product.title)}</a>
+              </div>
+            </td>
+            <td style="padding: 14px 16px; font-size: 12px; font-weight: 700; color: #2563eb;">${escapeHtml(product.award || "Top Choice")}</td>
+            <td style="padding: 14px 16px; white-space: nowrap;">
+              <span style="font-weight: 800;">${escapeHtml(formatDisplayPrice(product))}</span>
+              ${product.prime ? `<span style="font-size: 10px; font-weight: 900; color: #00a8e1; font-style: italic; margin-left: 4px;">PRIME</span>` : ''}
+              <div>${renderPriceTimestamp(product)}</div>
+            </td>
+            <td style="padding: 14px 16px; text-align: right;">
+              <a href="${link(product)}" target="_blank" rel="nofollow sponsored" style="${reset} display: inline-block; background: #0f172a; color: #fff; padding: 8px 16px; border-radius: 10px; font-size: 12px; font-weight: 700; text-decoration: none; white-space: nowrap;">Check Price</a>
+            </td>
+          </tr>`).join('')}
+        </tbody>
+      </table>`,
+});
+
+registerProductBoxTemplate({
+    id: 'compact_card',
+    label: 'Compact Card',
+    description: 'Slim inline card that sits between paragraphs',
+    multiProduct: false,
+    stickyBar: true,
+    rootStyle: 'margin: 2rem auto; max-width: 680px; border-radius: 14px; border: 1px solid #e2e8f0; background: #fff; padding: 14px 18px;',
+    render: ({ products: [product], link, reset }) => `
+      <div style="${reset} display: flex; align-items: center; gap: 16px; flex-wrap: wrap;">
+        <img src="${escapeUrl(product.imageUrl)}" alt="${escapeHtml(product.title)}" style="width: 72px; height: 72px; object-fit: contain;" />
+        <div style="${reset} flex: 1; min-width: 200px;">
+          <div style="${reset} font-size: 10px; font-weight: 800; text-transform: uppercase; color: #2563eb;">${escapeHtml(product.award || "Top Choice")}</div>
+          <a href="${link(product)}" target="_blank" rel="nofollow sponsored" style="font-weight: 700; color: #0f172a; text-decoration: none; font-size: 15px;">${escapeHtml(product.title)}</a>
+          <div style="${reset} font-size: 13px; color: #475569; margin-top: 2px;">
+            <strong style="color: #0f172a;">${escapeHtml(formatDisplayPrice(product))}</strong>
+            ${product.prime ? `<span style="font-size: 10px; font-weight: 900; color: #00a8e1; font-style: italic; margin-left: 4px;">PRIME</span>` : ''}
+          </div>
+          ${renderPriceTimestamp(product)}
+        </div>
+        <a href="${link(product)}" target="_blank" rel="nofollow sponsored" style="${reset} background: #0f172a; color: #fff; padding: 10px 20px; border-radius: 10px; font-size: 13px; font-weight: 700; text-decoration: none;">View on Amazon</a>
+      </div>`,
+});
+
+registerProductBoxTemplate({
+    id: 'top_picks',
+    label: 'Top 3 Picks',
+    description: 'Ranked cards for the three best products',
+    multiProduct: true,
+    stickyBar: true,
+    rootStyle: 'margin: 3rem auto; max-width: 900px;',
+    render: ({ products, link, reset }) => `
+      <div style="${reset} display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 16px;">
+        ${products.slice(0, 3).map((product, i) => `
+        <div style="${reset} border: ${i === 0 ? '2px solid #2563eb' : '1px solid #e2e8f0'}; border-radius: 16px; padding: 20px; background: #fff; display: flex; flex-direction: column; align-items: center; text-align: center;">
+          <div style="${reset} font-size: 10px; font-weight: 800; text-transform: uppercase; color: #fff; background: ${i === 0 ? '#2563eb' : '#475569'}; padding: 4px 12px; border-radius: 99px; margin-bottom: 12px;">#${i + 1} ${escapeHtml(product.award || "Top Choice")}</div>
+          <img src="${escapeUrl(product.imageUrl)}" alt="${escapeHtml(product.title)}" style="max-width: 100%; height: 140px; object-fit: contain; margin-bottom: 12px;" />
+          <a href="${link(product)}" target="_blank" rel="nofollow sponsored" style="font-weight: 700; color: #0f172a; text-decoration: none; font-size: 14px; line-height: 1.3; margin-bottom: 8px;">${escapeHtml(product.title)}</a>
+          <div style="${reset} font-size: 1.2rem; font-weight: 900; color: #0f172a;">${escapeHtml(formatDisplayPrice(product))}</div>
+          ${renderPriceTimestamp(product)}
+          <a href="${link(product)}" target="_blank" rel="nofollow sponsored" style="${reset} margin-top: 14px; background: #0f172a; color: #fff; padding: 10px 20px; border-radius: 10px; font-size: 13px; font-weight: 700; text-decoration: none;">Check Price</a>
+        </div>`).join('')}
+      </div>`,
+});
+
+registerProductBoxTemplate({
+    id: 'minimal_cta',
+    label: 'Minimal CTA',
+    description: 'One line of text with an affiliate link',
+    multiProduct: false,
+    stickyBar: false,
+    rootStyle: 'margin: 1.5rem 0; padding: 12px 16px; border-left: 3px solid #0f172a; background: #f8fafc;',
+    render: ({ products: [product], link }) => `
+      <p style="margin: 0; font-size: 15px; color: #1e293b;">
+        <strong>${escapeHtml(product.award || "Our pick")}:</strong>
+        <a href="${link(product)}" target="_blank" rel="nofollow sponsored" style="color: #2563eb; font-weight: 700;">${escapeHtml(product.title)}</a>
+        &mdash; ${formatDisplayPrice(product) === "Check Price" ? 'check the current price on Amazon' : `${escapeHtml(formatDisplayPrice(product))} on Amazon`} &rarr;
+        ${renderPriceTimestamp(product)}
+      </p>`,
+});
+
+const renderStickyBar = (id: string, product: ProductDetails, href: string): string => `
+      <div id="${id}-sticky" style="${BOX_RESET} position: fixed; bottom: 0; left: 0; right: 0; background: rgba(255,255,255,0.9); backdrop-filter: blur(15px); padding: 12px 20px; border-top: 1px solid rgba(0,0,0,0.05); box-shadow: 0 -4px 30px rgba(0,0,0,0.1); z-index: 99999; display: none; justify-content: space-between; align-items: center; transform: translateY(100%); transition: transform 0.4s cubic-bezier(0.16, 1, 0.3, 1);">
+          <div style="${BOX_RESET} display: flex; flex-direction: column;">
+             <span style="font-size: 9px; text-transform: uppercase; color: #64748b; font-weight: 800; letter-spacing: 1px;">Available On Amazon</span>
+             <span style="font-weight: 900; color: #0f172a; font-size: 16px;">${escapeHtml(formatDisplayPrice(product))}</span>
+          </div>
+          <a href="${href}" target="_blank" rel="nofollow sponsored" style="${BOX_RESET} background: #000; color: white; padding: 10px 24px; border-radius: 99px; font-weight: 700; font-size: 13px; text-decoration: none; box-shadow: 0 4px 15px rgba(0,0,0,0.2);">
+             Check Deal
+          </a>
       </div>
+      <script>
+         (function(){
+            var bar = document.getElementById('${id}-sticky');
+            if(window.innerWidth < 768 && bar) {
+                bar.style.display = 'flex';
+                setTimeout(function(){ bar.style.transform = 'translateY(0)'; }, 800);
+            }
+         })();
+      </script>`;
+
+const buildBoxMeta = (products: ProductDetails[], template: ProductBoxTemplate): ProductBoxMeta | null => {
+    const items = (template.multiProduct ? products : products.slice(0, 1)).map(p => ({ ...p, asin: p.asin?.trim() || "" }));
+    if (items.length === 0) return null;
+    return {
+        version: PRODUCT_BOX_VERSION,
+        template: template.id,
+        asin: items[0].asin,
+        generatedAt: Date.now(),
+        product: items[0],
+        products: template.multiProduct ? items : undefined,
+    };
+};
+
+// Root element + metadata + schema + template body, without the Gutenberg wrapper (used directly by the preview)
+export const renderProductBox = (
+    products: ProductDetails[],
+    options: { affiliateTag: string; marketplace?: Marketplace; enableStickyBar?: boolean; template?: ProductBoxTemplateId }
+): string => {
+    const template = getProductBoxTemplate(options.template);
+    const marketplace = options.marketplace || MARKETPLACES.US;
+    const meta = buildBoxMeta(products, template);
+    if (!meta) return '';
+    const items = meta.products || [meta.product];
+    // Templates drop link() straight into href attributes
+    const link = (product: ProductDetails) => product.asin ? escapeUrl(buildAmazonLink(encodeURIComponent(product.asin), encodeURIComponent(options.affiliateTag), marketplace), '#') : "#";
+    const uniqueId = `amz-${Math.random().toString(36).substr(2, 9)}`;
+    const schemaHtml = items.filter(p => p.schema).map(p => `<script type="application/ld+json">${(p.schema || '').replace(/</g, '\\u003c')}</script>`).join('');
+    const stickyHtml = options.enableStickyBar !== false && template.stickyBar && items[0].asin ? renderStickyBar(uniqueId, items[0], link(items[0])) : '';
+
+    return `<div id="${uniqueId}" class="amz-sota-box amz-tpl-${template.id}" data-amz-asin="${escapeHtml(items[0].asin)}" data-amz-template="${template.id}" data-amz-version="${PRODUCT_BOX_VERSION}" data-amz-generated="${meta.generatedAt}" style="${BOX_RESET} ${template.rootStyle}">
+      <script type="application/json" class="amz-box-data">${serializeBoxMeta(meta)}</script>
+      ${schemaHtml}
+      ${template.render({ id: uniqueId, products: items, marketplace, link, reset: BOX_RESET })}
       ${stickyHtml}
-    </div>
+    </div>`;
+};
+
+export const generateProductBoxHtml = (
+    product: ProductDetails | ProductDetails[],
+    affiliateTag: string,
+    enableStickyBar: boolean = true,
+    marketplace: Marketplace = MARKETPLACES.US,
+    template: ProductBoxTemplateId = 'glass'
+): string => {
+  const body = renderProductBox(Array.isArray(product) ? product : [product], { affiliateTag, marketplace, enableStickyBar, template });
+  return `
+    <!-- wp:html -->
+    ${body}
     <!-- /wp:html -->
   `;
 };
 
+// Block and shortcode output carry only the data; the companion plugin renders them with the site's stylesheet
+export const PRODUCT_BLOCK_NAME = 'amzpilot/product';
+export const PRODUCT_SHORTCODE = 'amzpilot_product';
+
+const buildProductBlockAttrs = (config: AppConfig, products: ProductDetails[], templateId: ProductBoxTemplateId, enableStickyBar: boolean): ProductBlockAttrs | null => {
+    const template = getProductBoxTemplate(templateId);
+    const meta = buildBoxMeta(products, template);
+    if (!meta) return null;
+    const marketplace = getMarketplace(config);
+    return { ...meta, marketplace: marketplace.id, domain: marketplace.domain, tag: getAffiliateTag(config, marketplace), stickyBar: enableStickyBar && template.stickyBar };
+};
+
+// Base64 keeps quotes and brackets in product copy away from WordPress' shortcode attribute parser
+const encodeShortcodeData = (attrs: ProductBlockAttrs): string =>
+    btoa(Array.from(textEncoder.encode(JSON.stringify(attrs)), b => String.fromCharCode(b)).join(''));
+
+const decodeShortcodeData = (data: string): ProductBlockAttrs =>
+    JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(data), c => c.charCodeAt(0))));
+
+export const generateProductBoxMarkup = (
+    config: AppConfig,
+    product: ProductDetails | ProductDetails[],
+    template: ProductBoxTemplateId,
+    options: { mode?: BoxOutputMode; enableStickyBar?: boolean } = {}
+): string => {
+    const products = Array.isArray(product) ? product : [product];
+    const mode = options.mode || config.boxOutputMode || 'html';
+    const enableStickyBar = options.enableStickyBar ?? config.enableStickyBar;
+    if (mode === 'html') return generateProductBoxHtml(products, getAffiliateTag(config), enableStickyBar, getMarketplace(config), template);
+
+    const attrs = buildProductBlockAttrs(config, products, template, enableStickyBar);
+    if (!attrs) return '';
+    if (mode === 'block') return `\n<!-- wp:${PRODUCT_BLOCK_NAME} ${serializeBlockAttrs(attrs)} /-->\n`;
+    // asin and template are only there for people reading the editor; the plugin reads data, so anything odd is dropped
+    const asin = /^[A-Z0-9]{10}$/.test(attrs.asin) ? ` asin="${attrs.asin}"` : '';
+    const templateId = (attrs.template || '').replace(/[^a-z0-9_-]/gi, '');
+    return `\n<!-- wp:shortcode -->\n[${PRODUCT_SHORTCODE}${asin}${templateId ? ` template="${templateId}"` : ''} data="${encodeShortcodeData(attrs)}"]\n<!-- /wp:shortcode -->\n`;
+};
+
 // SOTA v22: ZERO DUPLICATES
 const stripExistingProductBox = (html: string): string => {
     if (!html) return "";
@@ -721,51 +2773,1446 @@ const stripExistingProductBox = (html: string): string => {
     }
 };
 
-export const insertIntoContent = (html: string, box: string, method: InsertionMethod, contextSnippet?: string): string => {
+/**
+ * GUTENBERG BLOCK MODEL
+ * Port of WordPress' default block parser (block-serialization-default-parser)
+ * plus the matching serializer. Content WordPress serialized itself round-trips
+ * byte-for-byte, so boxes land on real block boundaries, never inside a list,
+ * column or group by accident.
+ */
+const BLOCK_TOKENIZER = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*\/)?([a-z][a-z0-9_-]*)\s+({(?:(?=([^}]+|}+(?=})|(?!}\s+\/?-->)[^])*)\5|[^]*?)}\s+)?(\/)?-->/g;
+const CONCLUSION_HEADING_REGEX = /\b(conclusion|final (thoughts|verdict|words)|bottom line|wrapping up|summary|the verdict)\b/i;
+
+const freeformBlock = (html: string): ParsedBlock => ({ blockName: null, attrs: {}, innerBlocks: [], innerHTML: html, innerContent: [html] });
+
+const parseBlockAttrs = (json: string | null): Record<string, any> => {
+    if (!json) return {};
+    try { return JSON.parse(json); } catch (e) { return {}; }
+};
+
+export const parseBlocks = (document: string): ParsedBlock[] => {
+    const output: ParsedBlock[] = [];
+    const stack: { block: ParsedBlock; tokenStart: number; tokenLength: number; prevOffset: number; leadingHtmlStart: number | null }[] = [];
+    const tokenizer = new RegExp(BLOCK_TOKENIZER.source, 'g');
+    let offset = 0;
+
+    const addFreeform = (length?: number) => {
+        const html = length === undefined ? document.slice(offset) : document.slice(offset, offset + length);
+        if (html) output.push(freeformBlock(html));
+    };
+    const addInnerBlock = (block: ParsedBlock, tokenStart: number, tokenLength: number, lastOffset?: number) => {
+        const parent = stack[stack.length - 1];
+        parent.block.innerBlocks.push(block);
+        const html = document.slice(parent.prevOffset, tokenStart);
+        if (html) {
+            parent.block.innerHTML += html;
+            parent.block.innerContent.push(html);
+        }
+        parent.block.innerContent.push(null);
+        parent.prevOffset = lastOffset ?? tokenStart + tokenLength;
+    };
+    const addBlockFromStack = (endOffset?: number) => {
+        const { block, leadingHtmlStart, prevOffset, tokenStart } = stack.pop()!;
+        const html = endOffset === undefined ? document.slice(prevOffset) : document.slice(prevOffset, endOffset);
+        if (html) {
+            block.innerHTML += html;
+            block.innerContent.push(html);
+        }
+        if (leadingHtmlStart !== null) output.push(freeformBlock(document.slice(leadingHtmlStart, tokenStart)));
+        output.push(block);
+    };
+
+    while (true) {
+        const match = tokenizer.exec(document);
+        if (!match) {
+            if (stack.length === 0) addFreeform();
+            else while (stack.length > 0) addBlockFromStack();
+            return output;
+        }
+
+        const [token, closer, namespace, name, attrsJson, , voidSlash] = match;
+        const startOffset = match.index;
+        const tokenLength = token.length;
+        const delimiter = { name: (namespace || '') + name, attrs: attrsJson ? attrsJson.trimEnd() : null, void: !!voidSlash };
+        const newBlock = (): ParsedBlock => ({ blockName: (namespace || 'core/') + name, attrs: parseBlockAttrs(delimiter.attrs), innerBlocks: [], innerHTML: '', innerContent: [], delimiter });
+
+        if (voidSlash) {
+            if (stack.length === 0) {
+                if (startOffset > offset) addFreeform(startOffset - offset);
+                output.push(newBlock());
+            } else {
+                addInnerBlock(newBlock(), startOffset, tokenLength);
+            }
+        } else if (!closer) {
+            stack.push({ block: newBlock(), tokenStart: startOffset, tokenLength, prevOffset: startOffset + tokenLength, leadingHtmlStart: startOffset > offset ? offset : null });
+        } else if (stack.length === 0) {
+            // Closer without an opener: WordPress treats the rest as freeform
+            addFreeform();
+            return output;
+        } else if (stack.length === 1) {
+            addBlockFromStack(startOffset);
+        } else {
+            const top = stack.pop()!;
+            const html = document.slice(top.prevOffset, startOffset);
+            top.block.innerHTML += html;
+            top.block.innerContent.push(html);
+            top.prevOffset = startOffset + tokenLength;
+            addInnerBlock(top.block, top.tokenStart, top.tokenLength, startOffset + tokenLength);
+        }
+        offset = startOffset + tokenLength;
+    }
+};
+
+// Same escaping as WordPress' serializeAttributes, so attribute JSON can't close the comment
+const serializeBlockAttrs = (attrs: Record<string, any>): string =>
+    JSON.stringify(attrs)
+        .replace(/--/g, '\\u002d\\u002d')
+        .replace(/</g, '\\u003c')
+        .replace(/>/g, '\\u003e')
+        .replace(/&/g, '\\u0026')
+        .replace(/\\"/g, '\\u0022');
+
+export const serializeBlock = (block: ParsedBlock): string => {
+    if (!block.blockName) return block.innerHTML;
+    let inner = 0;
+    const content = block.innerContent.map(chunk => chunk === null ? serializeBlock(block.innerBlocks[inner++]) : chunk).join('');
+    const source = block.delimiter;
+    const sourceName = source && (source.name.includes('/') ? source.name : `core/${source.name}`) === block.blockName ? source.name : null;
+    const name = sourceName ?? block.blockName.replace(/^core\//, '');
+    // Keep the source spelling of attributes unless they were changed
+    const attrs = source?.attrs && JSON.stringify(parseBlockAttrs(source.attrs)) === JSON.stringify(block.attrs)
+        ? source.attrs
+        : Object.keys(block.attrs).length > 0 ? serializeBlockAttrs(block.attrs) : null;
+    const opener = `<!-- wp:${name}${attrs ? ` ${attrs}` : ''}`;
+    if (source ? source.void && content === '' : content === '') return `${opener} /-->`;
+    return `${opener} -->${content}<!-- /wp:${name} -->`;
+};
+
+export const serializeBlocks = (blocks: ParsedBlock[]): string => blocks.map(serializeBlock).join('');
+
+const normalizeHeadingText = (html: string): string =>
+    decodeHtmlEntities(html).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const isHeadingBlock = (block: ParsedBlock) => block.blockName === 'core/heading';
+
+interface BlockPlacement {
+    container: ParsedBlock | null; // null = top level
+    siblings: ParsedBlock[];
+    anchor: ParsedBlock | null;
+    mode: 'after' | 'before' | 'start' | 'end';
+}
+
+const collectBlocks = (blocks: ParsedBlock[], container: ParsedBlock | null = null, out: { block: ParsedBlock; container: ParsedBlock | null; siblings: ParsedBlock[] }[] = []) => {
+    blocks.forEach(block => {
+        out.push({ block, container, siblings: blocks });
+        collectBlocks(block.innerBlocks, block, out);
+    });
+    return out;
+};
+
+const matchHeading = <T extends { text: string }>(candidates: T[], snippet: string, taken: Set<T> = new Set()): T | null => {
+    const needle = normalizeHeadingText(snippet);
+    if (!needle) return null;
+    const words = needle.split(' ').filter(w => w.length > 2);
+    let best: { candidate: T; score: number } | null = null;
+    for (const candidate of candidates) {
+        if (!candidate.text || taken.has(candidate)) continue;
+        // Containment either way ("Best Overall: Foo 3000" vs "Foo 3000") beats word overlap
+        const headingWords = candidate.text.split(' ');
+        const score = candidate.text.includes(needle) || needle.includes(candidate.text) ? 1 : words.filter(w => headingWords.includes(w)).length / Math.max(1, words.length);
+        if (score >= 0.6 && (!best || score > best.score)) best = { candidate, score };
+    }
+    return best?.candidate ?? null;
+};
+
+const listHeadingBlocks = (blocks: ParsedBlock[]) =>
+    collectBlocks(blocks).filter(entry => isHeadingBlock(entry.block)).map(entry => ({ ...entry, text: normalizeHeadingText(entry.block.innerHTML) }));
+
+export const resolveBlockTarget = (blocks: ParsedBlock[], target: BlockTarget, takenHeadings?: Set<ParsedBlock>): BlockPlacement | null => {
+    const topLevel = blocks.filter(b => b.blockName !== null);
+    const after = (entry: { block: ParsedBlock; container: ParsedBlock | null; siblings: ParsedBlock[] }): BlockPlacement =>
+        ({ container: entry.container, siblings: entry.siblings, anchor: entry.block, mode: 'after' });
+
+    switch (target.type) {
+        case 'after_block': {
+            const block = topLevel[target.index];
+            return block ? { container: null, siblings: blocks, anchor: block, mode: 'after' } : null;
+        }
+        case 'after_heading': {
+            const heading = listHeadingBlocks(blocks)[target.index];
+            return heading ? after(heading) : null;
+        }
+        case 'after_heading_text': {
+            const candidates = listHeadingBlocks(blocks).map(h => ({ ...h, taken: takenHeadings?.has(h.block) }));
+            const heading = matchHeading(candidates.filter(h => !h.taken), target.text);
+            if (heading) takenHeadings?.add(heading.block);
+            return heading ? after(heading) : null;
+        }
+        case 'before_conclusion': {
+            const conclusion = [...topLevel].reverse().find(b => isHeadingBlock(b) && CONCLUSION_HEADING_REGEX.test(normalizeHeadingText(b.innerHTML)));
+            return conclusion ? { container: null, siblings: blocks, anchor: conclusion, mode: 'before' } : null;
+        }
+        case 'inside_group': {
+            const group = collectBlocks(blocks).filter(e => e.block.blockName === 'core/group')[target.index]?.block;
+            return group ? { container: group, siblings: group.innerBlocks, anchor: null, mode: target.position } : null;
+        }
+        case 'end':
+            return { container: null, siblings: blocks, anchor: null, mode: 'end' };
+    }
+};
+
+const insertAtPlacement = (placement: BlockPlacement, newBlocks: ParsedBlock[]) => {
+    const { container, siblings, anchor, mode } = placement;
+    const existing = siblings.length;
+    const at = mode === 'start' ? 0 : mode === 'end' ? existing : siblings.indexOf(anchor!) + (mode === 'after' ? 1 : 0);
+
+    if (!container) {
+        // Top level: blank-line freeform separators, as WordPress itself serializes
+        const separated = at === 0 || mode === 'before' ? newBlocks.flatMap(b => [b, freeformBlock('\n\n')]) : newBlocks.flatMap(b => [freeformBlock('\n\n'), b]);
+        siblings.splice(at, 0, ...separated);
+        return;
+    }
+
+    const nullPositions = container.innerContent.flatMap((chunk, i) => chunk === null ? [i] : []);
+    siblings.splice(at, 0, ...newBlocks);
+    if (existing === 0) {
+        // Empty container: split its markup just before the closing tag
+        const chunk = (container.innerContent.pop() as string) || '';
+        const split = chunk.lastIndexOf('</') === -1 ? chunk.length : chunk.lastIndexOf('</');
+        container.innerContent.push(chunk.slice(0, split), ...newBlocks.flatMap(() => ['\n', null]), '\n' + chunk.slice(split));
+    } else if (at < existing) {
+        container.innerContent.splice(nullPositions[at], 0, ...newBlocks.flatMap(() => [null, '\n\n']));
+    } else {
+        container.innerContent.splice(nullPositions[existing - 1] + 1, 0, ...newBlocks.flatMap(() => ['\n\n', null]));
+    }
+};
+
+const boxToBlocks = (box: string): ParsedBlock[] => parseBlocks(box.trim()).filter(b => b.blockName !== null || b.innerHTML.trim());
+
+const methodToBlockTarget = (blocks: ParsedBlock[], method: InsertionMethod, contextSnippet?: string): BlockTarget => {
+    const named = blocks.filter(b => b.blockName !== null).length;
+    switch (method) {
+        case 'top': return { type: 'after_block', index: 0 };
+        case 'smart_middle': return { type: 'after_block', index: Math.floor(named / 2) };
+        case 'after_h2': {
+            const index = listHeadingBlocks(blocks).findIndex(h => (h.block.attrs.level ?? 2) === 2);
+            return index === -1 ? { type: 'after_block', index: 0 } : { type: 'after_heading', index };
+        }
+        case 'context_match': return contextSnippet ? { type: 'after_heading_text', text: contextSnippet } : { type: 'end' };
+        case 'before_conclusion': return { type: 'before_conclusion' };
+        default: return { type: 'end' };
+    }
+};
+
+// Block content: every placement is resolved on the untouched tree first, then applied by reference
+const insertBoxesIntoBlocks = (html: string, entries: { box: string; target: BlockTarget }[], fallback: BlockTarget): { html: string; unmatched: number } => {
+    const blocks = parseBlocks(html);
+    const taken = new Set<ParsedBlock>();
+    let unmatched = 0;
+    const placements = entries.map(entry => {
+        let placement = resolveBlockTarget(blocks, entry.target, taken);
+        if (!placement) {
+            unmatched++;
+            placement = resolveBlockTarget(blocks, fallback) || resolveBlockTarget(blocks, { type: 'end' })!;
+        }
+        return { placement, blocks: boxToBlocks(entry.box) };
+    });
+    // Boxes sharing an anchor go in together, in entry order
+    const groups = new Map<string, { placement: BlockPlacement; blocks: ParsedBlock[] }>();
+    const anchorIds = new Map<ParsedBlock | null, number>();
+    placements.forEach(({ placement, blocks: newBlocks }) => {
+        if (!anchorIds.has(placement.anchor ?? placement.container)) anchorIds.set(placement.anchor ?? placement.container, anchorIds.size);
+        const key = `${anchorIds.get(placement.anchor ?? placement.container)}:${placement.mode}`;
+        const group = groups.get(key);
+        if (group) group.blocks.push(...newBlocks);
+        else groups.set(key, { placement, blocks: [...newBlocks] });
+    });
+    groups.forEach(({ placement, blocks: newBlocks }) => insertAtPlacement(placement, newBlocks));
+    return { html: serializeBlocks(blocks), unmatched };
+};
+
+// Headings the editor can target directly, in document order
+export const listBlockTargets = (html: string): { label: string; target: BlockTarget }[] => {
+    if (!html.includes('<!-- wp:')) return [];
+    const blocks = parseBlocks(html);
+    const targets: { label: string; target: BlockTarget }[] = listHeadingBlocks(blocks).map((h, index) => ({
+        label: `After "${decodeHtmlEntities(h.block.innerHTML).trim().slice(0, 60)}"`,
+        target: { type: 'after_heading', index },
+    }));
+    collectBlocks(blocks).filter(e => e.block.blockName === 'core/group').forEach((_, index) => {
+        targets.push({ label: `Inside group #${index + 1} (start)`, target: { type: 'inside_group', index, position: 'start' } });
+        targets.push({ label: `Inside group #${index + 1} (end)`, target: { type: 'inside_group', index, position: 'end' } });
+    });
+    if (resolveBlockTarget(blocks, { type: 'before_conclusion' })) targets.push({ label: 'Before conclusion', target: { type: 'before_conclusion' } });
+    return targets;
+};
+
+// Classic (non-block) content: every H2/H3 with the offset just past it
+const listHeadingInsertPoints = (html: string): { end: number; text: string }[] =>
+    [...html.matchAll(/<h([23])[^>]*>([\s\S]*?)<\/h\1>/gi)].map(m => ({ end: m.index! + m[0].length, text: normalizeHeadingText(m[2]) }));
+
+const findInsertionIndex = (html: string, method: InsertionMethod): number => {
+    const ps = [...html.matchAll(/<\/p>/gi)];
+    if (ps.length === 0) return html.length;
+    if (method === 'top') return ps[0].index! + 4;
+    if (method === 'smart_middle') return ps[Math.floor(ps.length/2)].index! + 4;
+    if (method === 'after_h2') {
+        const h2 = /<\/h2>/i.exec(html);
+        return h2 ? h2.index + 5 : ps[0].index! + 4;
+    }
+    if (method === 'before_conclusion') {
+        const conclusion = listHeadingInsertPoints(html).reverse().find(h => CONCLUSION_HEADING_REGEX.test(h.text));
+        if (conclusion) return html.lastIndexOf('<h', conclusion.end);
+    }
+    return html.length;
+};
+
+const spliceBoxes = (html: string, placements: { index: number; box: string }[]): string => {
+    // Group boxes that share an offset (keeping their order), then splice from the end
+    const byIndex = new Map<number, string[]>();
+    placements.forEach(p => byIndex.set(p.index, [...(byIndex.get(p.index) || []), p.box]));
+    return [...byIndex.entries()]
+        .sort((a, b) => b[0] - a[0])
+        .reduce((out, [index, boxes]) => out.substring(0, index) + `\n\n${boxes.join('\n\n')}\n\n` + out.substring(index), html);
+};
+
+export const insertIntoContent = (html: string, box: string, method: InsertionMethod, contextSnippet?: string, target?: BlockTarget): string => {
     // STEP 1: CLEAN
     // We must manually strip ANY existing box to prevent duplicates.
-    // Since DOMParser returns body innerHTML, we might lose <html> tags but for WP content snippets that is fine.
-    // However, to be safe with React string manipulation, let's use a regex that targets our specific ID pattern.
-    let cleanHtml = html.replace(/<!-- wp:html -->\s*<div id="amz-.*?" class="amz-sota-box[\s\S]*?<\/div>\s*<!-- \/wp:html -->/g, '');
-    cleanHtml = cleanHtml.replace(/<div id="amz-.*?" class="amz-sota-box[\s\S]*?<\/div>/g, '');
+    let cleanHtml = stripProductBoxes(html);
 
     if (!cleanHtml) cleanHtml = html; // Safety net
 
     // STEP 2: INSERT
-    if (method === 'context_match' && contextSnippet) {
-        const cleanSnippet = contextSnippet.replace(/[^\w\s]/g, '').substring(0, 30);
-        const regex = new RegExp(`(<h[23][^>]*>.*?${cleanSnippet}.*?</h[23]>)`, 'i');
-        const match = cleanHtml.match(regex);
-        if (match && match.index !== undefined) {
-             const insertPos = match.index + match[0].length;
-             return cleanHtml.substring(0, insertPos) + `\n\n${box}\n\n` + cleanHtml.substring(insertPos);
-        }
+    if (cleanHtml.includes('<!-- wp:')) {
+        const blocks = parseBlocks(cleanHtml);
+        return insertBoxesIntoBlocks(cleanHtml, [{ box, target: target ?? methodToBlockTarget(blocks, method, contextSnippet) }], { type: 'end' }).html;
     }
+    const heading = method === 'context_match' && contextSnippet ? matchHeading(listHeadingInsertPoints(cleanHtml), contextSnippet) : null;
+    return spliceBoxes(cleanHtml, [{ index: heading?.end ?? findInsertionIndex(cleanHtml, method), box }]);
+};
+
+// Listicles: one box per product, each after the H2/H3 its contextSnippet names.
+// Products whose heading can't be found go in together at the fallback position.
+export const insertProductBoxes = (
+    html: string,
+    entries: { box: string; contextSnippet?: string }[],
+    fallback: InsertionMethod = 'bottom'
+): { html: string; unmatched: number } => {
+    let cleanHtml = stripProductBoxes(html);
+    if (!cleanHtml) cleanHtml = html;
+
     if (cleanHtml.includes('<!-- wp:')) {
-        const blocks = [...cleanHtml.matchAll(/<!-- \/wp:(paragraph|group|image|heading|list) -->/gi)];
-        if (blocks.length === 0) return cleanHtml + "\n\n" + box; 
-        
-        let idx = cleanHtml.length;
-        if (method === 'top') idx = blocks[0].index! + blocks[0][0].length;
-        else if (method === 'smart_middle') idx = blocks[Math.floor(blocks.length / 2)].index! + blocks[Math.floor(blocks.length / 2)][0].length;
-        else if (method === 'after_h2') {
-             const h2 = [...cleanHtml.matchAll(/<!-- \/wp:heading -->/gi)];
-             idx = h2.length > 0 ? h2[0].index! + h2[0][0].length : blocks[0].index! + blocks[0][0].length;
-        } else if (method === 'bottom') {
-             idx = cleanHtml.length;
-        }
-        return cleanHtml.substring(0, idx) + `\n\n${box}\n\n` + cleanHtml.substring(idx);
-    } 
-    const ps = [...cleanHtml.matchAll(/<\/p>/gi)];
-    if (ps.length === 0) return cleanHtml + "\n\n" + box;
-    let idx = cleanHtml.length;
-    if (method === 'top') idx = ps[0].index! + 4;
-    else if (method === 'smart_middle') idx = ps[Math.floor(ps.length/2)].index! + 4;
-    else if (method === 'after_h2') {
-        const h2 = /<\/h2>/i.exec(cleanHtml);
-        idx = h2 ? h2.index + 5 : ps[0].index! + 4;
-    } else if (method === 'bottom') {
-        idx = cleanHtml.length;
-    }
-    return cleanHtml.substring(0, idx) + `\n\n${box}\n\n` + cleanHtml.substring(idx);
+        const blocks = parseBlocks(cleanHtml);
+        return insertBoxesIntoBlocks(
+            cleanHtml,
+            entries.map(e => ({ box: e.box, target: e.contextSnippet ? { type: 'after_heading_text', text: e.contextSnippet } : { type: 'end' } })),
+            methodToBlockTarget(blocks, fallback === 'context_match' ? 'bottom' : fallback)
+        );
+    }
+
+    // All offsets are taken from the clean content: boxes carry their own <h3> titles
+    const headings = listHeadingInsertPoints(cleanHtml);
+    const taken = new Set<{ end: number; text: string }>();
+    const fallbackIndex = findInsertionIndex(cleanHtml, fallback === 'context_match' ? 'bottom' : fallback);
+    let unmatched = 0;
+    const placements = entries.map(entry => {
+        const heading = entry.contextSnippet ? matchHeading(headings, entry.contextSnippet, taken) : null;
+        if (!heading) {
+            unmatched++;
+            return { index: fallbackIndex, box: entry.box };
+        }
+        taken.add(heading);
+        return { index: heading.end, box: entry.box };
+    });
+    return { html: spliceBoxes(cleanHtml, placements), unmatched };
+};
+
+// Several products with a single-product template become one box per heading;
+// a multi-product template gets them all in one box.
+export const applyProductsToContent = (
+    config: AppConfig,
+    html: string,
+    products: ProductDetails[],
+    method: InsertionMethod,
+    template: ProductBoxTemplateId = config.defaultBoxTemplate || 'glass',
+    target?: BlockTarget
+): { html: string; boxes: string[]; unmatched: number } => {
+    const render = (p: ProductDetails | ProductDetails[]) => generateProductBoxMarkup(config, p, template);
+    const disclose = (out: string) => config.autoDisclosure ? insertDisclosure(config, out) : out;
+    if (products.length > 1 && !getProductBoxTemplate(template).multiProduct) {
+        const boxes = products.map(p => render(p));
+        const result = insertProductBoxes(html, boxes.map((box, i) => ({ box, contextSnippet: products[i].contextSnippet })), method);
+        return { ...result, html: disclose(result.html), boxes };
+    }
+    const box = render(products.length > 1 ? products : products[0]);
+    return { html: disclose(insertIntoContent(html, box, method, products[0].contextSnippet, target)), boxes: [box], unmatched: 0 };
+};
+
+/**
+ * PRODUCT BOX METADATA
+ * Generated boxes carry their ProductDetails as an embedded JSON blob, so they
+ * can be located by balanced-tag scanning and read back exactly. Boxes from
+ * before the blob existed are recovered from their markup. Block and shortcode
+ * boxes carry the same metadata as their attributes.
+ */
+export const PRODUCT_BOX_VERSION = 2;
+const PRODUCT_BOX_OPEN_REGEX = /<div id="amz-[^"]*" class="amz-sota-box/g;
+// Serialized attributes escape "--", so the first "} /-->" always closes the comment
+const PRODUCT_BLOCK_REGEX = /<!-- wp:amzpilot\/product\s+\{[\s\S]*?\}\s+\/-->/g;
+const PRODUCT_SHORTCODE_REGEX = /\[amzpilot_product\b[^\]]*\]/g;
+
+// </script> inside a field would terminate the blob early
+const serializeBoxMeta = (meta: ProductBoxMeta): string => JSON.stringify(meta).replace(/</g, '\\u003c');
+
+// Take the Custom HTML / Shortcode block wrapper too, otherwise an empty block is left behind
+const withBlockWrapper = (html: string, start: number, end: number): { start: number; end: number } => {
+    const opener = html.slice(Math.max(0, start - 200), start).match(/<!-- wp:(html|shortcode) -->\s*$/);
+    const closer = opener && html.slice(end, end + 200).match(new RegExp(`^\\s*<!-- \\/wp:${opener[1]} -->`));
+    return opener && closer ? { start: start - opener[0].length, end: end + closer[0].length } : { start, end };
+};
+
+const findProductBoxRanges = (html: string): { start: number; end: number; format: BoxOutputMode }[] => {
+    const ranges: { start: number; end: number; format: BoxOutputMode }[] = [];
+    for (const open of html.matchAll(PRODUCT_BOX_OPEN_REGEX)) {
+        const start = open.index!;
+        if (ranges.length > 0 && start < ranges[ranges.length - 1].end) continue;
+        const tags = /<div\b|<\/div>/gi;
+        tags.lastIndex = start;
+        let depth = 0;
+        let end = -1;
+        let tag: RegExpExecArray | null;
+        while ((tag = tags.exec(html))) {
+            depth += tag[0].startsWith('</') ? -1 : 1;
+            if (depth === 0) { end = tag.index + tag[0].length; break; }
+        }
+        if (end === -1) continue;
+        ranges.push({ ...withBlockWrapper(html, start, end), format: 'html' });
+    }
+    for (const block of html.matchAll(PRODUCT_BLOCK_REGEX)) {
+        ranges.push({ start: block.index!, end: block.index! + block[0].length, format: 'block' });
+    }
+    for (const code of html.matchAll(PRODUCT_SHORTCODE_REGEX)) {
+        ranges.push({ ...withBlockWrapper(html, code.index!, code.index! + code[0].length), format: 'shortcode' });
+    }
+    // An inline box can quote a shortcode in its copy; the outer range wins
+    return ranges
+        .sort((a, b) => a.start - b.start)
+        .filter((range, i, all) => !all.slice(0, i).some(prev => range.start < prev.end));
+};
+
+const readProductBlockAttrs = (slice: string, format: BoxOutputMode): ProductBlockAttrs | null => {
+    try {
+        if (format === 'block') return (parseBlocks(slice).find(b => b.blockName === PRODUCT_BLOCK_NAME)?.attrs as ProductBlockAttrs) || null;
+        const data = slice.match(/\bdata="([^"]*)"/)?.[1];
+        return data ? decodeShortcodeData(data) : null;
+    } catch (e) {
+        console.warn("Unreadable product box attributes", e);
+        return null;
+    }
+};
+
+const parseLegacyProductBox = (box: Element): ProductDetails | null => {
+    const asin = box.querySelector('a[href*="/dp/"]')?.getAttribute('href')?.match(/\/dp\/([A-Z0-9]{10})/i)?.[1];
+    if (!asin) return null;
+
+    const verdictEl = box.querySelector('p')?.cloneNode(true) as HTMLElement | undefined;
+    verdictEl?.querySelector('span')?.remove();
+    const priceLabel = Array.from(box.querySelectorAll('span')).find(s => s.textContent?.trim() === 'Current Price');
+    const specs: Record<string, string> = {};
+    box.querySelectorAll('div[style*="grid-template-columns"] > div').forEach(el => {
+        const key = el.querySelector('span')?.textContent?.replace(/:$/, '').trim();
+        if (key) specs[key] = (el.textContent || '').replace(el.querySelector('span')!.textContent || '', '').trim();
+    });
+    const schemaText = box.querySelector('script[type="application/ld+json"]')?.textContent || undefined;
+    let rating = 0;
+    try { rating = schemaText ? Number(JSON.parse(schemaText).aggregateRating?.ratingValue) || 0 : 0; } catch (e) { /* keep 0 */ }
+
+    return {
+        asin: asin.toUpperCase(),
+        title: box.querySelector('h3')?.textContent?.trim() || '',
+        price: priceLabel?.nextElementSibling?.textContent?.trim() || 'Check Price',
+        imageUrl: box.querySelector('img')?.getAttribute('src') || constructAmazonImageUrl(asin),
+        verdict: verdictEl?.textContent?.trim(),
+        award: box.querySelector(':scope > div')?.lastElementChild?.textContent?.trim(),
+        prime: Array.from(box.querySelectorAll('span')).some(s => s.textContent?.trim() === 'PRIME'),
+        specs: Object.keys(specs).length ? specs : undefined,
+        rating,
+        schema: schemaText,
+    };
+};
+
+// Cheap enough to run over every scanned post before deciding what to fetch
+export const hasProductBoxes = (html?: string): boolean => !!html && findProductBoxRanges(html).length > 0;
+
+export const extractProductBoxes = (html: string): ParsedProductBox[] => {
+    if (!html) return [];
+    const parser = new DOMParser();
+    const boxes: ParsedProductBox[] = [];
+    for (const { start, end, format } of findProductBoxRanges(html)) {
+        const slice = html.slice(start, end);
+        if (format !== 'html') {
+            const attrs = readProductBlockAttrs(slice, format);
+            if (!attrs?.product) continue;
+            const { marketplace, domain, tag, stickyBar, ...meta } = attrs;
+            boxes.push({ ...meta, html: slice, start, end, legacy: false, stickyBar: !!stickyBar, format });
+            continue;
+        }
+        const box = parser.parseFromString(slice, 'text/html').querySelector('.amz-sota-box');
+        if (!box) continue;
+        const stickyBar = !!box.querySelector('[id$="-sticky"]');
+        const blob = box.querySelector('script.amz-box-data')?.textContent;
+        if (blob) {
+            try {
+                const meta = JSON.parse(blob) as ProductBoxMeta;
+                boxes.push({ ...meta, html: slice, start, end, legacy: false, stickyBar, format });
+                continue;
+            } catch (e) {
+                console.warn("Unreadable product box metadata, parsing markup instead", e);
+            }
+        }
+        const product = parseLegacyProductBox(box);
+        if (product) boxes.push({ version: 0, template: 'glass', asin: product.asin, generatedAt: 0, product, html: slice, start, end, legacy: true, stickyBar, format });
+    }
+    return boxes;
+};
+
+export const stripProductBoxes = (html: string): string => {
+    if (!html) return "";
+    // Splice from the end so earlier offsets stay valid
+    return findProductBoxRanges(html).reverse().reduce((out, { start, end }) => out.slice(0, start) + out.slice(end), html);
+};
+
+// Block and shortcode boxes render nothing outside WordPress; draw them inline for the in-app preview
+export const expandProductBoxesForPreview = (config: AppConfig, html: string): string =>
+    extractProductBoxes(html).filter(box => box.format !== 'html').reverse().reduce((out, box) =>
+        out.slice(0, box.start) + renderProductBox(box.products || [box.product], {
+            affiliateTag: getAffiliateTag(config),
+            marketplace: getMarketplace(config),
+            enableStickyBar: false,
+            template: box.template,
+        }) + out.slice(box.end), html);
+
+/**
+ * PRICE REFRESH JOB
+ * Re-prices boxes already live on the site: parse each box (inline, block or
+ * shortcode) back into ProductDetails, overlay current PA-API offers and
+ * regenerate it in place, in the format it was found in.
+ */
+const isUnavailable = (product: ProductDetails): boolean =>
+    product.price === 'Check Price' || /unavailable|out of stock|not available/i.test(product.availability || '');
+
+export const refreshProductBoxes = async (
+    config: AppConfig,
+    posts: BlogPost[],
+    onProgress?: (result: PriceRefreshResult) => void
+): Promise<PriceRefreshResult[]> => {
+    if (!hasAmazonApi(config)) throw new Error("Price refresh needs PA-API credentials (Amazon tab)");
+    const marketplace = getMarketplace(config);
+
+    return poolValues(await runConcurrent(posts, config.concurrencyLimit || 3, async (post) => {
+        const result: PriceRefreshResult = { postId: post.id, postTitle: post.title, url: post.url, boxes: [], pushed: false };
+        try {
+            const page = await loadPostContent(config, post);
+            result.postId = page.id || post.id;
+            const boxes = extractProductBoxes(page.content);
+            if (boxes.length === 0) {
+                result.error = "No parseable product boxes";
+                return result;
+            }
+
+            const live = await getAmazonItems(config, boxes.flatMap(b => (b.products || [b.product]).map(p => p.asin)));
+            const liveByAsin = new Map(live.map(p => [p.asin.toUpperCase(), p]));
+            let content = page.content;
+
+            for (const box of [...boxes].reverse()) {
+                const boxResults: PriceRefreshBox[] = [];
+                const refreshed = (box.products || [box.product]).map(old => {
+                    const current = liveByAsin.get(old.asin.toUpperCase());
+                    if (!current) {
+                        boxResults.push({ asin: old.asin, oldPrice: old.price, status: 'dead' });
+                        return old;
+                    }
+                    boxResults.push({
+                        asin: old.asin,
+                        oldPrice: old.price,
+                        newPrice: current.price,
+                        availability: current.availability,
+                        status: isUnavailable(current) ? 'unavailable' : current.price === old.price && current.prime === old.prime ? 'unchanged' : 'updated',
+                    });
+                    // Editorial copy stays; only the offer facts come from Amazon
+                    const next: ProductDetails = {
+                        ...old,
+                        price: current.price,
+                        prime: current.prime,
+                        rating: current.rating || old.rating,
+                        reviewCount: current.reviewCount,
+                        availability: current.availability,
+                        lastUpdated: current.lastUpdated,
+                    };
+                    if (old.schema) next.schema = generateJsonLd(next, marketplace);
+                    return next;
+                });
+                result.boxes.unshift(...boxResults);
+                // Unchanged boxes keep their markup, so a post whose prices all held is not rewritten
+                if (!boxResults.some(b => b.status === 'updated' || b.status === 'unavailable')) continue;
+                const html = generateProductBoxMarkup(config, refreshed, box.template || 'glass', { mode: box.format, enableStickyBar: box.stickyBar }).trim();
+                content = content.slice(0, box.start) + html + content.slice(box.end);
+            }
+
+            if (content !== page.content) {
+                await pushToWordPress(config, result.postId, content, post.restBase, { reason: 'refresh', postTitle: post.title });
+                result.pushed = true;
+            }
+        } catch (e: any) {
+            result.error = e.message;
+        }
+        onProgress?.(result);
+        return result;
+    }));
+};
+
+/**
+ * COMPLIANCE SCANNER
+ * Checks posts against the FTC disclosure rules and the Associates Operating
+ * Agreement: a visible disclosure, timestamped prices, PA-API served images,
+ * and tagged, sponsored Amazon links. Link and disclosure issues can be fixed
+ * in place; the rest need a price refresh or a manual edit.
+ */
+const DISCLOSURE_CLASS = 'amz-disclosure';
+const DISCLOSURE_TEXT_REGEX = /as an amazon associate|earn(s)? from qualifying purchases|affiliate (link|commission|disclosure)|(may )?earn (a )?(small )?commission|paid link/i;
+const AMAZON_IMAGE_HOST_REGEX = /(^|\.)(media-amazon\.com|ssl-images-amazon\.com|images-amazon\.com)$/i;
+// Amazon's image size suffix ("._AC_SL1500_.") on a file served from somewhere else means it was downloaded and re-hosted
+const AMAZON_IMAGE_FILE_REGEX = /\._(?:AC|SL|SX|SY|SS|UL|US|SR)[A-Z0-9_,]*_\.(?:jpe?g|png|webp|gif)(?:$|\?)/i;
+const PRICE_TEXT_REGEX = /(?:[$£€¥]|\bC\$|\bCA\$|\bEUR\b|\bUSD\b)\s?\d[\d.,]*|\d[\d.,]*\s?(?:€|EUR\b)/;
+const PRICE_TIMESTAMP_REGEX = /\b(price|prices)\b[^.]{0,40}\b(as of|updated|last checked)\b|\bas of \d/i;
+
+const ANCHOR_TAG_REGEX = /<a\b[^>]*>/gi;
+
+const readAttr = (tag: string, name: string): string | null =>
+    tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))?.slice(1).find(v => v !== undefined) ?? null;
+
+const writeAttr = (tag: string, name: string, value: string): string => {
+    const existing = new RegExp(`\\s${name}\\s*=\\s*(?:"[^"]*"|'[^']*')`, 'i');
+    const attr = ` ${name}="${value}"`;
+    return existing.test(tag) ? tag.replace(existing, attr) : tag.replace(/\s*\/?>$/, m => attr + m);
+};
+
+const parseUrl = (href: string): URL | null => {
+    try { return new URL(href.replace(/&amp;/g, '&')); } catch (e) { return null; }
+};
+
+// Marketplace storefront the link points at; short links (amzn.to) resolve server-side and carry their own tag
+const amazonMarketplaceFor = (url: URL | null): Marketplace | null =>
+    url ? Object.values(MARKETPLACES).find(m => url.hostname === m.domain || url.hostname.endsWith(`.${m.domain}`)) || null : null;
+
+const SHORT_LINK_HOST_REGEX = /^(?:www\.)?(?:amzn\.(?:to|eu|asia)|a\.co)$/i;
+
+const isShortLink = (url: URL | null): boolean => !!url && SHORT_LINK_HOST_REGEX.test(url.hostname);
+
+// By host only: a "?tag=" on a WordPress tag archive link is not an affiliate link
+const isAmazonHref = (href: string | null | undefined): boolean => {
+    const url = href ? parseUrl(href) : null;
+    return !!(amazonMarketplaceFor(url) || isShortLink(url));
+};
+
+const hasAmazonAnchors = (html: string): boolean =>
+    [...html.matchAll(ANCHOR_TAG_REGEX)].some(([tag]) => isAmazonHref(readAttr(tag, 'href')));
+
+const textOf = (html: string): string => decodeHtmlEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+export const hasDisclosure = (html: string): boolean =>
+    html.includes(DISCLOSURE_CLASS) || DISCLOSURE_TEXT_REGEX.test(textOf(html));
+
+export const renderDisclosure = (text: string, blockContent: boolean): string => {
+    const paragraph = `<p class="${DISCLOSURE_CLASS}"><em>${escapeHtml(text)}</em></p>`;
+    return blockContent
+        ? `<!-- wp:paragraph {"className":"${DISCLOSURE_CLASS}"} -->\n${paragraph}\n<!-- /wp:paragraph -->\n\n`
+        : `${paragraph}\n\n`;
+};
+
+// Disclosure goes first, before any affiliate link the reader can reach
+export const insertDisclosure = (config: AppConfig, html: string): string =>
+    hasDisclosure(html) ? html : renderDisclosure(config.disclosureText?.trim() || DEFAULT_DISCLOSURE_TEXT, html.includes('<!-- wp:')) + html.replace(/^\s+/, '');
+
+const scanLinks = (html: string): ComplianceIssue[] => {
+    const issues: ComplianceIssue[] = [];
+    for (const [tag] of html.matchAll(ANCHOR_TAG_REGEX)) {
+        const href = readAttr(tag, 'href');
+        if (!href || !isAmazonHref(href)) continue;
+        const url = parseUrl(href);
+        if (amazonMarketplaceFor(url) && !url!.searchParams.get('tag')) {
+            issues.push({ type: 'missing_tag', severity: 'error', message: 'Amazon link without an associate tag earns nothing', excerpt: href, fixable: true });
+        }
+        if (!/\bsponsored\b/i.test(readAttr(tag, 'rel') || '')) {
+            issues.push({ type: 'missing_sponsored_rel', severity: 'warning', message: 'Affiliate link is missing rel="sponsored"', excerpt: href, fixable: true });
+        }
+    }
+    return issues;
+};
+
+const scanImages = (html: string): ComplianceIssue[] => {
+    const issues: ComplianceIssue[] = [];
+    for (const [, src] of html.matchAll(/<img\b[^>]*?\ssrc\s*=\s*["']([^"']+)["']/gi)) {
+        const url = parseUrl(src);
+        if (!url) continue;
+        if (AMAZON_IMAGE_HOST_REGEX.test(url.hostname)) {
+            // /images/P/<ASIN> is the old widget URL, built from the ASIN rather than returned by PA-API
+            if (/\/images\/P\/[A-Z0-9]{10}/i.test(url.pathname)) {
+                issues.push({ type: 'hotlinked_image', severity: 'error', message: 'Amazon image hotlinked by ASIN instead of the PA-API image URL', excerpt: src, fixable: false });
+            }
+        } else if (AMAZON_IMAGE_FILE_REGEX.test(url.pathname)) {
+            issues.push({ type: 'cached_image', severity: 'error', message: 'Amazon product image re-hosted on your server; only PA-API URLs may be displayed', excerpt: src, fixable: false });
+        }
+    }
+    return issues;
+};
+
+const scanPrices = (html: string): ComplianceIssue[] => {
+    const issues: ComplianceIssue[] = [];
+    for (const box of extractProductBoxes(html)) {
+        for (const product of box.products || [box.product]) {
+            if (formatDisplayPrice(product) !== "Check Price" && !product.lastUpdated) {
+                issues.push({ type: 'price_without_timestamp', severity: 'error', message: `Box for ${product.asin} shows a price with no "as of" time; run Refresh Prices`, excerpt: product.price, fixable: false });
+            }
+        }
+    }
+    // Hand-written copy: any block of text that pairs a price with an Amazon link
+    for (const chunk of stripProductBoxes(html).split(/<\/(?:p|li|td|tr|h[1-6]|div|figure)>/i)) {
+        if (!hasAmazonAnchors(chunk)) continue;
+        const text = textOf(chunk);
+        const price = text.match(PRICE_TEXT_REGEX);
+        if (price && !PRICE_TIMESTAMP_REGEX.test(text)) {
+            issues.push({ type: 'price_without_timestamp', severity: 'warning', message: 'Price next to an Amazon link without a date/time', excerpt: text.slice(0, 120), fixable: false });
+        }
+    }
+    return issues;
+};
+
+export const scanCompliance = (html: string): ComplianceIssue[] => {
+    if (!html) return [];
+    const issues: ComplianceIssue[] = [];
+    if (hasAmazonAnchors(html) || findProductBoxRanges(html).length > 0) {
+        if (!hasDisclosure(html)) issues.push({ type: 'missing_disclosure', severity: 'error', message: 'Affiliate links but no FTC / Amazon Associates disclosure', fixable: true });
+    }
+    return [...issues, ...scanLinks(html), ...scanImages(html), ...scanPrices(html)];
+};
+
+// Tags untagged storefront links with the matching marketplace's tag and adds rel="nofollow sponsored"
+export const fixAffiliateLinks = (config: AppConfig, html: string): string =>
+    html.replace(ANCHOR_TAG_REGEX, tag => {
+        const href = readAttr(tag, 'href');
+        if (!href || !isAmazonHref(href)) return tag;
+        let next = tag;
+        const url = parseUrl(href);
+        const marketplace = amazonMarketplaceFor(url);
+        const affiliateTag = marketplace && getAffiliateTag(config, marketplace);
+        if (url && affiliateTag && !url.searchParams.get('tag')) {
+            url.searchParams.set('tag', affiliateTag);
+            next = writeAttr(next, 'href', href.includes('&amp;') ? url.toString().replace(/&/g, '&amp;') : url.toString());
+        }
+        const rel = (readAttr(next, 'rel') || '').split(/\s+/).filter(Boolean);
+        if (!rel.includes('sponsored')) {
+            next = writeAttr(next, 'rel', [...new Set([...rel, 'nofollow', 'sponsored'])].join(' '));
+        }
+        return next;
+    });
+
+export const fixCompliance = (config: AppConfig, html: string): string => {
+    const fixed = fixAffiliateLinks(config, html);
+    return scanCompliance(fixed).some(i => i.type === 'missing_disclosure') ? insertDisclosure(config, fixed) : fixed;
+};
+
+export const runComplianceScan = async (
+    config: AppConfig,
+    posts: BlogPost[],
+    options: { fix: boolean },
+    onProgress?: (report: ComplianceReport) => void
+): Promise<ComplianceReport[]> =>
+    runConcurrent(posts, config.concurrencyLimit || 3, async (post) => {
+        const report: ComplianceReport = { postId: post.id, postTitle: post.title, url: post.url, issues: [], fixed: 0 };
+        try {
+            const page = await loadPostContent(config, post);
+            report.postId = page.id || post.id;
+            report.issues = scanCompliance(page.content);
+            if (options.fix && report.issues.some(i => i.fixable)) {
+                const content = fixCompliance(config, page.content);
+                const remaining = scanCompliance(content);
+                report.fixed = report.issues.length - remaining.length;
+                if (content !== page.content) {
+                    await pushToWordPress(config, report.postId, content, post.restBase, { reason: 'compliance', postTitle: post.title });
+                    report.issues = remaining;
+                }
+            }
+        } catch (e: any) {
+            report.error = e.message;
+        }
+        onProgress?.(report);
+        return report;
+    }).then(poolValues);
+
+/**
+ * AFFILIATE LINK AUDITOR
+ * Every Amazon link in a post, short links followed, classified against our
+ * own tags. "Has an Amazon link" is not "earns us money": someone else's tag,
+ * no tag or a dead ASIN all leave the post unmonetized.
+ */
+const ASIN_PATH_REGEX = /\/(?:dp|gp\/product|gp\/aw\/d|exec\/obidos\/ASIN|o\/ASIN)\/([A-Z0-9]{10})(?:[/?#]|$)/i;
+
+const ownAffiliateTags = (config: AppConfig): Set<string> =>
+    new Set([config.amazonTag, ...Object.values(config.amazonTags || {})].map(t => t?.trim()).filter(Boolean) as string[]);
+
+// Distinct Amazon hrefs in anchor order, with how often each appears
+export const extractAmazonLinks = (html: string): { href: string; count: number }[] => {
+    const counts = new Map<string, number>();
+    for (const [tag] of (html || '').matchAll(ANCHOR_TAG_REGEX)) {
+        const href = readAttr(tag, 'href');
+        if (!href || !isAmazonHref(href)) continue;
+        counts.set(href, (counts.get(href) || 0) + 1);
+    }
+    return [...counts.entries()].map(([href, count]) => ({ href, count }));
+};
+
+// The browser can't see cross-origin redirects; the relay (or allorigins, if allowed) reports the final URL
+const resolveShortLink = async (config: AppConfig, href: string): Promise<string | null> => {
+    const cacheKey = `link_${CacheService.generateHash(href)}`;
+    const cached = CacheService.get<string>(cacheKey);
+    if (cached) return cached;
+    const target = href.replace(/&amp;/g, '&');
+    const relay = getRelay(config);
+    if (!relay && !config.allowPublicProxies) return null;
+    try {
+        let resolved: string | null | undefined;
+        if (relay) {
+            const res = await withRetry(() => relayFetch(relay, target.replace(/^http:/i, 'https:')), 2, 1000);
+            await res.body?.cancel();
+            // Amazon often answers the last hop with an anti-bot 503/404; the URL it redirected to is still the answer
+            resolved = res.headers.get('X-Relay-Final-Url');
+        } else {
+            const res = await withRetry(() => rateLimitedFetch('proxy:api.allorigins.win', `https://api.allorigins.win/get?url=${encodeURIComponent(target)}`), 2, 1000);
+            resolved = res.ok ? (await res.json())?.status?.url : null;
+        }
+        if (!resolved || isShortLink(parseUrl(resolved))) return null;
+        CacheService.set(cacheKey, resolved);
+        return resolved;
+    } catch (e) {
+        console.warn(`Could not resolve ${href}`, e);
+        return null;
+    }
+};
+
+// Dead ASINs are per storefront: a product gone from amazon.com can still sell on amazon.de
+const deadAsinKey = (marketplaceId: string, asin: string): string => `${marketplaceId}:${asin}`;
+
+const classifyLink = (config: AppConfig, href: string, count: number, resolvedUrl: string | null, deadAsins: Set<string>): AuditedLink => {
+    const target = parseUrl(resolvedUrl || href);
+    const marketplace = amazonMarketplaceFor(target);
+    if (!target || !marketplace) return { href, count, status: 'unresolved' };
+    const asin = target.pathname.match(ASIN_PATH_REGEX)?.[1]?.toUpperCase();
+    const tag = target.searchParams.get('tag') || undefined;
+    const link: AuditedLink = { href, count, asin, tag, marketplace: marketplace.id, status: 'tagged' };
+    if (resolvedUrl) link.resolvedUrl = resolvedUrl;
+    if (asin && deadAsins.has(deadAsinKey(marketplace.id, asin))) link.status = 'dead_asin';
+    else if (!tag) link.status = 'untagged';
+    // Another marketplace's tag earns nothing on this storefront either
+    else if (tag !== getAffiliateTag(config, marketplace)) link.status = 'wrong_tag';
+    return link;
+};
+
+export const auditPostLinks = async (config: AppConfig, html: string, knownDead: Set<string> = new Set()): Promise<AuditedLink[]> => {
+    const found = extractAmazonLinks(html);
+    const resolved = await Promise.all(found.map(l => isShortLink(parseUrl(l.href)) ? resolveShortLink(config, l.href) : Promise.resolve(null)));
+
+    // ASINs a storefront's PA-API doesn't return are gone there. Each storefront is asked about its own
+    // links only, and storefronts we can't query (no keys, no tag for them) never mark anything dead.
+    const deadAsins = new Set(knownDead);
+    const byMarketplace = new Map<Marketplace, Set<string>>();
+    found.forEach((l, i) => {
+        const target = parseUrl(resolved[i] || l.href);
+        const marketplace = amazonMarketplaceFor(target);
+        const asin = target?.pathname.match(ASIN_PATH_REGEX)?.[1]?.toUpperCase();
+        if (!marketplace || !asin || knownDead.has(deadAsinKey(marketplace.id, asin)) || !hasAmazonApiFor(config, marketplace)) return;
+        byMarketplace.set(marketplace, (byMarketplace.get(marketplace) || new Set()).add(asin));
+    });
+    for (const [marketplace, asins] of byMarketplace) {
+        try {
+            const live = new Set((await getAmazonItems({ ...config, marketplace: marketplace.id }, [...asins])).map(p => p.asin.toUpperCase()));
+            asins.forEach(a => { if (!live.has(a)) deadAsins.add(deadAsinKey(marketplace.id, a)); });
+        } catch (e) {
+            console.warn(`PA-API lookup failed for ${marketplace.domain}; not marking its ASINs dead`, e);
+        }
+    }
+    return found.map((l, i) => classifyLink(config, l.href, l.count, resolved[i], deadAsins));
+};
+
+export const runLinkAudit = async (
+    config: AppConfig,
+    posts: BlogPost[],
+    onProgress?: (result: LinkAuditResult) => void
+): Promise<LinkAuditResult[]> => {
+    const deadAsins = new Set<string>(); // Shared so an ASIN linked from many posts is looked up once it's known dead
+    return poolValues(await runConcurrent(posts, config.concurrencyLimit || 3, async (post) => {
+        const result: LinkAuditResult = { postId: post.id, postTitle: post.title, url: post.url, links: [] };
+        try {
+            const page = await loadPostContent(config, post);
+            result.postId = page.id || post.id;
+            result.links = await auditPostLinks(config, page.content, deadAsins);
+            result.links.filter(l => l.status === 'dead_asin' && l.asin && l.marketplace).forEach(l => deadAsins.add(deadAsinKey(l.marketplace!, l.asin!)));
+        } catch (e: any) {
+            result.error = e.message;
+        }
+        onProgress?.(result);
+        return result;
+    }));
+};
+
+// Re-tags wrong_tag / untagged links with our tag for their marketplace. Short links can't be
+// re-tagged, so they are replaced by a direct storefront link. Dead ASINs are left for a human.
+export const rewriteAffiliateLinks = (config: AppConfig, html: string, links: AuditedLink[]): { html: string; rewritten: number } => {
+    const byHref = new Map(links.filter(l => l.status === 'wrong_tag' || l.status === 'untagged').map(l => [l.href, l]));
+    let rewritten = 0;
+    const out = html.replace(ANCHOR_TAG_REGEX, tag => {
+        const href = readAttr(tag, 'href');
+        const link = href ? byHref.get(href) : undefined;
+        const marketplace = link?.marketplace && MARKETPLACES[link.marketplace];
+        const url = link && parseUrl(link.resolvedUrl || link.href);
+        if (!link || !marketplace || !url) return tag;
+        const affiliateTag = getAffiliateTag(config, marketplace);
+        if (!affiliateTag) return tag;
+        let next: string;
+        if (link.resolvedUrl && link.asin) {
+            next = buildAmazonLink(link.asin, affiliateTag, marketplace);
+        } else {
+            url.searchParams.set('tag', affiliateTag);
+            next = url.toString();
+        }
+        rewritten += 1;
+        const rewrittenTag = writeAttr(tag, 'href', href!.includes('&amp;') ? next.replace(/&/g, '&amp;') : next);
+        const rel = (readAttr(rewrittenTag, 'rel') || '').split(/\s+/).filter(Boolean);
+        return rel.includes('sponsored') ? rewrittenTag : writeAttr(rewrittenTag, 'rel', [...new Set([...rel, 'nofollow', 'sponsored'])].join(' '));
+    });
+    return { html: out, rewritten };
+};
+
+export const runLinkRewrite = async (
+    config: AppConfig,
+    posts: BlogPost[],
+    onProgress?: (result: LinkAuditResult) => void
+): Promise<LinkAuditResult[]> =>
+    runConcurrent(posts, config.concurrencyLimit || 3, async (post) => {
+        const result: LinkAuditResult = { postId: post.id, postTitle: post.title, url: post.url, links: post.linkAudit?.links || [], rewritten: 0 };
+        try {
+            const page = await loadPostContent(config, post);
+            result.postId = page.id || post.id;
+            // Re-audit live content: the stored audit may be stale, and its hrefs must match exactly
+            result.links = await auditPostLinks(config, page.content);
+            const { html, rewritten } = rewriteAffiliateLinks(config, page.content, result.links);
+            if (rewritten > 0) {
+                await pushToWordPress(config, result.postId, html, post.restBase, { reason: 'link_rewrite', postTitle: post.title });
+                result.rewritten = rewritten;
+                result.links = await auditPostLinks(config, html);
+            }
+        } catch (e: any) {
+            result.error = e.message;
+        }
+        onProgress?.(result);
+        return result;
+    }).then(poolValues);
+
+// Autopilot skip test: only links that actually pay us (or a box we placed) count as monetized
+export const hasOwnAffiliateLinks = (config: AppConfig, html: string, audit?: AuditedLink[]): boolean => {
+    if (findProductBoxRanges(html).length > 0) return true;
+    if (audit) return audit.some(l => l.status === 'tagged');
+    const ownTags = ownAffiliateTags(config);
+    return extractAmazonLinks(html).some(({ href }) => {
+        const url = parseUrl(href);
+        // Unresolved short links get the benefit of the doubt until the auditor has followed them
+        return isShortLink(url) || ownTags.has(url?.searchParams.get('tag') || '');
+    });
+};
+
+/**
+ * COMPANION PLUGIN
+ * WordPress plugin that renders amzpilot/product blocks and [amzpilot_product]
+ * shortcodes server-side. Generated from the same block attributes the app
+ * writes, so the styling lives in one stylesheet on the site and survives kses.
+ */
+export const COMPANION_PLUGIN_VERSION = '1.0.0';
+const COMPANION_PLUGIN_SLUG = 'amzpilot-blocks';
+
+// block.json attribute types; keyed by ProductBlockAttrs so a new field can't be forgotten here
+const PRODUCT_BLOCK_ATTRIBUTE_TYPES: Record<keyof ProductBlockAttrs, 'string' | 'number' | 'boolean' | 'object' | 'array'> = {
+    version: 'number',
+    template: 'string',
+    asin: 'string',
+    generatedAt: 'number',
+    product: 'object',
+    products: 'array',
+    marketplace: 'string',
+    domain: 'string',
+    tag: 'string',
+    stickyBar: 'boolean',
+};
+
+// Server-side layout per template; custom templates fall back by product count
+const PLUGIN_LAYOUTS: Record<string, 'card' | 'table' | 'grid' | 'inline'> = {
+    glass: 'card',
+    compact_card: 'card',
+    comparison_table: 'table',
+    top_picks: 'grid',
+    minimal_cta: 'inline',
+};
+
+const pluginLayoutMap = (): string =>
+    getProductBoxTemplates()
+        .map(t => `\t'${t.id.replace(/[^a-z0-9_-]/gi, '')}' => '${PLUGIN_LAYOUTS[t.id] || (t.multiProduct ? 'table' : 'card')}',`)
+        .join('\n');
+
+const generatePluginPhp = (): string => `<?php
+/**
+ * Plugin Name: AmzPilot Product Boxes
+ * Description: Renders AmzPilot product boxes from the amzpilot/product block and the [amzpilot_product] shortcode.
+ * Version: ${COMPANION_PLUGIN_VERSION}
+ * Requires at least: 5.8
+ * Requires PHP: 7.4
+ * License: GPL-2.0-or-later
+ *
+ * Generated by AmzPilot. Edit style.css to restyle every box on the site.
+ */
+
+if ( ! defined( 'ABSPATH' ) ) {
+\texit;
+}
+
+const AMZPILOT_LAYOUTS = array(
+${pluginLayoutMap()}
+);
+
+function amzpilot_register() {
+\tregister_block_type( __DIR__, array( 'render_callback' => 'amzpilot_render_box' ) );
+\tadd_shortcode( '${PRODUCT_SHORTCODE}', 'amzpilot_shortcode' );
+}
+add_action( 'init', 'amzpilot_register' );
+
+function amzpilot_shortcode( $atts ) {
+\t$atts = shortcode_atts( array( 'data' => '' ), $atts, '${PRODUCT_SHORTCODE}' );
+\t$data = json_decode( base64_decode( $atts['data'] ), true );
+\tif ( ! is_array( $data ) ) {
+\t\treturn '';
+\t}
+\twp_enqueue_style( 'amzpilot-product-style' );
+\treturn amzpilot_render_box( $data );
+}
+
+function amzpilot_field( $product, $key, $fallback = '' ) {
+\treturn isset( $product[ $key ] ) && '' !== $product[ $key ] ? $product[ $key ] : $fallback;
+}
+
+function amzpilot_price( $product ) {
+\t$price = (string) amzpilot_field( $product, 'price' );
+\tif ( '' === $price || false !== stripos( $price, 'not specified' ) || false !== stripos( $price, 'check price' ) ) {
+\t\treturn 'Check Price';
+\t}
+\treturn $price;
+}
+
+// Amazon requires a date/time next to any displayed price
+function amzpilot_price_date( $product ) {
+\tif ( empty( $product['lastUpdated'] ) || 'Check Price' === amzpilot_price( $product ) ) {
+\t\treturn '';
+\t}
+\treturn '<span class="amz-price-date">Price as of ' . esc_html( gmdate( 'Y-m-d H:i', (int) floor( $product['lastUpdated'] / 1000 ) ) ) . ' UTC</span>';
+}
+
+function amzpilot_link( $product, $attributes ) {
+\treturn esc_url( 'https://www.' . $attributes['domain'] . '/dp/' . rawurlencode( $product['asin'] ) . '?tag=' . rawurlencode( $attributes['tag'] ) );
+}
+
+function amzpilot_anchor( $product, $attributes, $class, $inner ) {
+\treturn '<a class="' . esc_attr( $class ) . '" href="' . amzpilot_link( $product, $attributes ) . '" target="_blank" rel="nofollow sponsored">' . $inner . '</a>';
+}
+
+function amzpilot_image( $product ) {
+\treturn '<img src="' . esc_url( amzpilot_field( $product, 'imageUrl' ) ) . '" alt="' . esc_attr( amzpilot_field( $product, 'title' ) ) . '" loading="lazy" />';
+}
+
+function amzpilot_prime( $product ) {
+\treturn ! empty( $product['prime'] ) ? '<span class="amz-prime">PRIME</span>' : '';
+}
+
+function amzpilot_render_card( $product, $attributes ) {
+\t$out  = '<div class="amz-card">';
+\t$out .= amzpilot_anchor( $product, $attributes, 'amz-media', amzpilot_image( $product ) );
+\t$out .= '<div class="amz-info">';
+\t$out .= '<span class="amz-award">' . esc_html( amzpilot_field( $product, 'award', 'Top Choice' ) ) . '</span>';
+\t$out .= '<h3 class="amz-title">' . amzpilot_anchor( $product, $attributes, '', esc_html( amzpilot_field( $product, 'title' ) ) ) . '</h3>';
+\t$out .= amzpilot_prime( $product );
+\tif ( ! empty( $product['verdict'] ) ) {
+\t\t$out .= '<p class="amz-verdict"><span>The Verdict</span>' . esc_html( $product['verdict'] ) . '</p>';
+\t}
+\tif ( ! empty( $product['specs'] ) && is_array( $product['specs'] ) ) {
+\t\t$out .= '<div class="amz-specs">';
+\t\tforeach ( array_slice( $product['specs'], 0, 2, true ) as $key => $value ) {
+\t\t\t$out .= '<div><strong>' . esc_html( $key ) . ':</strong> ' . esc_html( $value ) . '</div>';
+\t\t}
+\t\t$out .= '</div>';
+\t}
+\t$out .= '<div class="amz-buy"><div class="amz-price"><span>' . esc_html( amzpilot_price( $product ) ) . '</span>' . amzpilot_price_date( $product ) . '</div>';
+\t$out .= amzpilot_anchor( $product, $attributes, 'amz-cta', 'Check Price' ) . '</div>';
+\treturn $out . '</div></div>';
+}
+
+function amzpilot_render_table( $products, $attributes ) {
+\t$out = '<table class="amz-table"><thead><tr><th>Product</th><th>Best For</th><th>Price</th><th></th></tr></thead><tbody>';
+\tforeach ( $products as $product ) {
+\t\t$out .= '<tr>';
+\t\t$out .= '<td><div class="amz-table-product">' . amzpilot_image( $product ) . amzpilot_anchor( $product, $attributes, 'amz-title', esc_html( amzpilot_field( $product, 'title' ) ) ) . '</div></td>';
+\t\t$out .= '<td class="amz-award">' . esc_html( amzpilot_field( $product, 'award', 'Top Choice' ) ) . '</td>';
+\t\t$out .= '<td class="amz-price"><span>' . esc_html( amzpilot_price( $product ) ) . '</span>' . amzpilot_prime( $product ) . amzpilot_price_date( $product ) . '</td>';
+\t\t$out .= '<td>' . amzpilot_anchor( $product, $attributes, 'amz-cta', 'Check Price' ) . '</td>';
+\t\t$out .= '</tr>';
+\t}
+\treturn $out . '</tbody></table>';
+}
+
+function amzpilot_render_grid( $products, $attributes ) {
+\t$out = '<div class="amz-grid">';
+\tforeach ( array_slice( $products, 0, 3 ) as $i => $product ) {
+\t\t$out .= '<div class="amz-pick' . ( 0 === $i ? ' amz-pick-first' : '' ) . '">';
+\t\t$out .= '<span class="amz-award">#' . ( $i + 1 ) . ' ' . esc_html( amzpilot_field( $product, 'award', 'Top Choice' ) ) . '</span>';
+\t\t$out .= amzpilot_image( $product );
+\t\t$out .= amzpilot_anchor( $product, $attributes, 'amz-title', esc_html( amzpilot_field( $product, 'title' ) ) );
+\t\t$out .= '<div class="amz-price"><span>' . esc_html( amzpilot_price( $product ) ) . '</span>' . amzpilot_price_date( $product ) . '</div>';
+\t\t$out .= amzpilot_anchor( $product, $attributes, 'amz-cta', 'Check Price' );
+\t\t$out .= '</div>';
+\t}
+\treturn $out . '</div>';
+}
+
+function amzpilot_render_inline( $product, $attributes ) {
+\t$price = amzpilot_price( $product );
+\t$out   = '<p class="amz-inline"><strong>' . esc_html( amzpilot_field( $product, 'award', 'Our pick' ) ) . ':</strong> ';
+\t$out  .= amzpilot_anchor( $product, $attributes, 'amz-title', esc_html( amzpilot_field( $product, 'title' ) ) );
+\t$out  .= ' &mdash; ' . ( 'Check Price' === $price ? 'check the current price on Amazon' : esc_html( $price ) . ' on Amazon' ) . ' &rarr; ';
+\treturn $out . amzpilot_price_date( $product ) . '</p>';
+}
+
+function amzpilot_render_sticky( $product, $attributes ) {
+\t$out  = '<div class="amz-sticky"><div><span class="amz-sticky-label">Available On Amazon</span>';
+\t$out .= '<span class="amz-sticky-price">' . esc_html( amzpilot_price( $product ) ) . '</span></div>';
+\treturn $out . amzpilot_anchor( $product, $attributes, 'amz-sticky-cta', 'Check Deal' ) . '</div>';
+}
+
+function amzpilot_render_box( $attributes ) {
+\t$attributes = wp_parse_args(
+\t\t$attributes,
+\t\tarray(
+\t\t\t'template'  => 'glass',
+\t\t\t'product'   => array(),
+\t\t\t'products'  => array(),
+\t\t\t'domain'    => 'amazon.com',
+\t\t\t'tag'       => '',
+\t\t\t'stickyBar' => false,
+\t\t)
+\t);
+\t$products = ! empty( $attributes['products'] ) ? $attributes['products'] : array( $attributes['product'] );
+\t$products = array_values(
+\t\tarray_filter(
+\t\t\t$products,
+\t\t\tfunction ( $product ) {
+\t\t\t\treturn is_array( $product ) && ! empty( $product['asin'] );
+\t\t\t}
+\t\t)
+\t);
+\tif ( ! $products ) {
+\t\treturn '';
+\t}
+
+\t$template = sanitize_key( $attributes['template'] );
+\t$layout   = array_key_exists( $template, AMZPILOT_LAYOUTS ) ? AMZPILOT_LAYOUTS[ $template ] : 'card';
+\t$out      = '<div class="amz-sota-box amz-tpl-' . esc_attr( $template ) . ' amz-layout-' . esc_attr( $layout ) . '" data-amz-asin="' . esc_attr( $products[0]['asin'] ) . '">';
+
+\tforeach ( $products as $product ) {
+\t\t$schema = ! empty( $product['schema'] ) ? json_decode( $product['schema'], true ) : null;
+\t\tif ( is_array( $schema ) ) {
+\t\t\t$out .= '<script type="application/ld+json">' . wp_json_encode( $schema ) . '</script>';
+\t\t}
+\t}
+
+\tswitch ( $layout ) {
+\t\tcase 'table':
+\t\t\t$out .= amzpilot_render_table( $products, $attributes );
+\t\t\tbreak;
+\t\tcase 'grid':
+\t\t\t$out .= amzpilot_render_grid( $products, $attributes );
+\t\t\tbreak;
+\t\tcase 'inline':
+\t\t\t$out .= amzpilot_render_inline( $products[0], $attributes );
+\t\t\tbreak;
+\t\tdefault:
+\t\t\t$out .= amzpilot_render_card( $products[0], $attributes );
+\t}
+
+\tif ( $attributes['stickyBar'] ) {
+\t\t$out .= amzpilot_render_sticky( $products[0], $attributes );
+\t}
+\treturn $out . '</div>';
+}
+`;
+
+const generatePluginBlockJson = (): string => JSON.stringify({
+    $schema: 'https://schemas.wp.org/trunk/block.json',
+    apiVersion: 2,
+    name: PRODUCT_BLOCK_NAME,
+    version: COMPANION_PLUGIN_VERSION,
+    title: 'AmzPilot Product Box',
+    category: 'widgets',
+    icon: 'cart',
+    description: 'Amazon product box managed by AmzPilot. Rendered on the server from the stored product data.',
+    supports: { html: false },
+    attributes: Object.fromEntries(Object.entries(PRODUCT_BLOCK_ATTRIBUTE_TYPES).map(([key, type]) => [key, { type }])),
+    editorScript: 'file:./index.js',
+    style: 'file:./style.css',
+}, null, 2);
+
+// Plain ES5 against the wp.* globals, so the plugin needs no build step
+const PLUGIN_EDITOR_JS = `( function ( blocks, element, blockEditor, serverSideRender ) {
+\tvar el = element.createElement;
+
+\tblocks.registerBlockType( '${PRODUCT_BLOCK_NAME}', {
+\t\tedit: function ( props ) {
+\t\t\treturn el(
+\t\t\t\t'div',
+\t\t\t\tblockEditor.useBlockProps(),
+\t\t\t\tel( serverSideRender, { block: '${PRODUCT_BLOCK_NAME}', attributes: props.attributes } )
+\t\t\t);
+\t\t},
+\t\t// Dynamic block: the markup comes from render_callback
+\t\tsave: function () {
+\t\t\treturn null;
+\t\t},
+\t} );
+} )( window.wp.blocks, window.wp.element, window.wp.blockEditor, window.wp.serverSideRender );
+`;
+
+const PLUGIN_ASSET_PHP = `<?php return array(
+\t'dependencies' => array( 'wp-blocks', 'wp-element', 'wp-block-editor', 'wp-server-side-render' ),
+\t'version'      => '${COMPANION_PLUGIN_VERSION}',
+);
+`;
+
+const PLUGIN_STYLE_CSS = `/* AmzPilot product boxes. Every block and shortcode box on the site uses these rules. */
+.amz-sota-box { box-sizing: border-box; font-family: -apple-system, system-ui, sans-serif; line-height: 1.5; color: #1e293b; margin: 3rem auto; max-width: 850px; }
+.amz-sota-box *, .amz-sota-box *::before, .amz-sota-box *::after { box-sizing: inherit; }
+.amz-sota-box a { text-decoration: none; }
+.amz-sota-box img { max-width: 100%; height: auto; object-fit: contain; }
+.amz-sota-box .amz-award { display: inline-block; font-size: 10px; font-weight: 800; text-transform: uppercase; letter-spacing: 0.5px; color: #2563eb; }
+.amz-sota-box .amz-title { font-weight: 700; color: #0f172a; }
+.amz-sota-box .amz-prime { font-size: 10px; font-weight: 900; color: #00a8e1; font-style: italic; margin-left: 4px; }
+.amz-sota-box .amz-price span { font-weight: 900; color: #0f172a; }
+.amz-sota-box .amz-price-date { display: block; font-size: 9px; color: #94a3b8; }
+.amz-sota-box .amz-cta { display: inline-block; background: #0f172a; color: #fff; padding: 10px 20px; border-radius: 10px; font-size: 13px; font-weight: 700; white-space: nowrap; }
+.amz-sota-box .amz-cta:hover { background: #1e293b; }
+
+/* Card (glass, compact_card) */
+.amz-layout-card { border: 1px solid rgba(0, 0, 0, 0.06); border-radius: 24px; background: #fff; box-shadow: 0 25px 50px -12px rgba(0, 0, 0, 0.1); overflow: hidden; }
+.amz-card { display: flex; flex-wrap: wrap; }
+.amz-card .amz-media { flex: 1; min-width: 260px; padding: 32px; display: flex; align-items: center; justify-content: center; }
+.amz-card .amz-media img { max-height: 240px; }
+.amz-card .amz-info { flex: 1.4; min-width: 280px; padding: 32px; display: flex; flex-direction: column; background: #fbfbfc; }
+.amz-card .amz-title { font-size: 1.5rem; line-height: 1.25; margin: 8px 0 12px; }
+.amz-card .amz-verdict { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 16px; color: #475569; margin: 16px 0; }
+.amz-card .amz-verdict span { display: block; font-size: 11px; font-weight: 800; text-transform: uppercase; color: #0f172a; margin-bottom: 6px; }
+.amz-card .amz-specs { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; margin-bottom: 16px; font-size: 11px; }
+.amz-card .amz-specs div { background: #f1f5f9; padding: 6px 12px; border-radius: 8px; }
+.amz-card .amz-buy { margin-top: auto; display: flex; align-items: center; justify-content: space-between; gap: 12px; }
+.amz-card .amz-price span { font-size: 1.8rem; }
+.amz-tpl-compact_card { max-width: 680px; border-radius: 14px; box-shadow: none; border-color: #e2e8f0; margin: 2rem auto; }
+.amz-tpl-compact_card .amz-media { flex: 0 0 auto; min-width: 0; padding: 14px; }
+.amz-tpl-compact_card .amz-media img { width: 72px; height: 72px; }
+.amz-tpl-compact_card .amz-info { padding: 14px 18px; background: #fff; }
+.amz-tpl-compact_card .amz-title { font-size: 15px; margin: 0; }
+.amz-tpl-compact_card .amz-verdict, .amz-tpl-compact_card .amz-specs { display: none; }
+.amz-tpl-compact_card .amz-price span { font-size: 13px; }
+
+/* Table (comparison_table) */
+.amz-layout-table { max-width: 900px; border: 1px solid #e2e8f0; border-radius: 16px; background: #fff; overflow-x: auto; }
+.amz-table { width: 100%; border-collapse: collapse; font-size: 14px; margin: 0; }
+.amz-table th { background: #f8fafc; text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.5px; color: #64748b; padding: 12px 16px; }
+.amz-table td { border-top: 1px solid #f1f5f9; padding: 14px 16px; vertical-align: middle; }
+.amz-table .amz-table-product { display: flex; align-items: center; gap: 12px; }
+.amz-table .amz-table-product img { width: 56px; height: 56px; }
+.amz-table td:last-child { text-align: right; }
+
+/* Grid (top_picks) */
+.amz-layout-grid { max-width: 900px; }
+.amz-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 16px; }
+.amz-pick { border: 1px solid #e2e8f0; border-radius: 16px; padding: 20px; background: #fff; display: flex; flex-direction: column; align-items: center; text-align: center; gap: 8px; }
+.amz-pick img { height: 140px; }
+.amz-pick .amz-award { color: #fff; background: #475569; padding: 4px 12px; border-radius: 99px; }
+.amz-pick-first { border: 2px solid #2563eb; }
+.amz-pick-first .amz-award { background: #2563eb; }
+
+/* Inline (minimal_cta) */
+.amz-layout-inline { margin: 1.5rem 0; padding: 12px 16px; border-left: 3px solid #0f172a; background: #f8fafc; max-width: none; }
+.amz-inline { margin: 0; font-size: 15px; }
+.amz-inline .amz-title { color: #2563eb; }
+
+/* Mobile sticky bar */
+.amz-sticky { display: none; }
+@media (max-width: 767px) {
+\t.amz-sticky { display: flex; position: fixed; bottom: 0; left: 0; right: 0; z-index: 99999; justify-content: space-between; align-items: center; padding: 12px 20px; background: rgba(255, 255, 255, 0.95); border-top: 1px solid rgba(0, 0, 0, 0.05); box-shadow: 0 -4px 30px rgba(0, 0, 0, 0.1); }
+\t.amz-sticky-label { display: block; font-size: 9px; text-transform: uppercase; color: #64748b; font-weight: 800; letter-spacing: 1px; }
+\t.amz-sticky-price { font-weight: 900; color: #0f172a; font-size: 16px; }
+\t.amz-sticky-cta { background: #000; color: #fff; padding: 10px 24px; border-radius: 99px; font-weight: 700; font-size: 13px; }
+}
+`;
+
+export const generateCompanionPlugin = (): CompanionPluginFile[] => [
+    { path: `${COMPANION_PLUGIN_SLUG}/${COMPANION_PLUGIN_SLUG}.php`, content: generatePluginPhp() },
+    { path: `${COMPANION_PLUGIN_SLUG}/block.json`, content: generatePluginBlockJson() },
+    { path: `${COMPANION_PLUGIN_SLUG}/index.js`, content: PLUGIN_EDITOR_JS },
+    { path: `${COMPANION_PLUGIN_SLUG}/index.asset.php`, content: PLUGIN_ASSET_PHP },
+    { path: `${COMPANION_PLUGIN_SLUG}/style.css`, content: PLUGIN_STYLE_CSS },
+];
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let c = 0xFFFFFFFF;
+    for (const b of bytes) c = CRC32_TABLE[(c ^ b) & 0xFF] ^ (c >>> 8);
+    return (c ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Stored (uncompressed) ZIP: all WordPress' "Upload Plugin" needs, without a dependency
+export const createZipArchive = (files: CompanionPluginFile[]): Blob => {
+    const local: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+    for (const file of files) {
+        const name = textEncoder.encode(file.path);
+        const data = textEncoder.encode(file.content);
+        const crc = crc32(data);
+        const header = new DataView(new ArrayBuffer(30));
+        header.setUint32(0, 0x04034b50, true);
+        header.setUint16(4, 20, true);
+        header.setUint16(6, 0x0800, true); // UTF-8 names
+        header.setUint16(12, 0x21, true); // 1980-01-01
+        header.setUint32(14, crc, true);
+        header.setUint32(18, data.length, true);
+        header.setUint32(22, data.length, true);
+        header.setUint16(26, name.length, true);
+        local.push(new Uint8Array(header.buffer), name, data);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014b50, true);
+        entry.setUint16(4, 20, true);
+        entry.setUint16(6, 20, true);
+        entry.setUint16(8, 0x0800, true);
+        entry.setUint16(14, 0x21, true);
+        entry.setUint32(16, crc, true);
+        entry.setUint32(20, data.length, true);
+        entry.setUint32(24, data.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + data.length;
+    }
+    const centralSize = central.reduce((n, part) => n + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    return new Blob([...local, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+/**
+ * DRY-RUN REPORTS
+ * The autopilot chain without the write: what would change, where, and why.
+ */
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
+};
+
+// Describes where the box landed using the visible text just before it
+export const describeInsertionPoint = (after: string, box: string): string => {
+    const idx = after.indexOf(box.trim());
+    if (idx === -1) return 'Unknown';
+    const precedingText = after.substring(Math.max(0, idx - 600), idx).replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    const percent = Math.round((idx / Math.max(1, after.length)) * 100);
+    return precedingText ? `${percent}% into post, after: "…${precedingText.slice(-80)}"` : 'Top of post';
+};
+
+export const createDryRunEntry = (
+    post: BlogPost,
+    result: { product: ProductDetails; confidence: number; method: InsertionMethod; before: string; box: string; after?: string; outcome: DryRunEntry['outcome']; reason?: string }
+): DryRunEntry => {
+    const after = result.after ?? insertIntoContent(result.before, result.box, result.method, result.product.contextSnippet);
+    return {
+        postId: post.id,
+        postTitle: post.title,
+        url: post.url,
+        outcome: result.outcome,
+        reason: result.reason,
+        product: result.product,
+        confidence: result.confidence,
+        insertionMethod: result.method,
+        insertionPoint: describeInsertionPoint(after, result.box),
+        before: result.before,
+        after,
+        diff: computeLineDiff(result.before, after),
+    };
+};
+
+const csvCell = (value: unknown): string => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export const exportDryRunCsv = (report: DryRunReport): string => {
+    const header = ['Post ID', 'Title', 'URL', 'Outcome', 'Reason', 'ASIN', 'Product', 'Price', 'Confidence', 'Insertion Method', 'Insertion Point', 'Lines Added', 'Lines Removed'];
+    const rows = report.entries.map(e => [
+        e.postId, e.postTitle, e.url, e.outcome, e.reason, e.product?.asin, e.product?.title, e.product?.price, e.confidence,
+        e.insertionMethod, e.insertionPoint,
+        e.diff?.filter(d => d.type === 'add').length ?? '', e.diff?.filter(d => d.type === 'remove').length ?? ''
+    ]);
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const exportDryRunHtml = (report: DryRunReport): string => {
+    const outcomeColor = { would_publish: '#10b981', needs_review: '#f59e0b', skipped: '#94a3b8' };
+    const sections = report.entries.map(e => `
+      <section style="border:1px solid #e2e8f0;border-radius:12px;padding:20px;margin-bottom:24px;">
+        <h2 style="margin:0 0 4px;font-size:18px;">${escapeHtml(e.postTitle)}</h2>
+        <a href="${escapeHtml(e.url)}" style="font-size:12px;color:#64748b;">${escapeHtml(e.url)}</a>
+        <p style="margin:12px 0;font-size:13px;">
+          <strong style="color:${outcomeColor[e.outcome]};text-transform:uppercase;">${e.outcome.replace('_', ' ')}</strong>
+          ${e.reason ? ` &middot; ${escapeHtml(e.reason)}` : ''}
+          ${e.confidence !== undefined ? ` &middot; Confidence ${e.confidence}%` : ''}
+        </p>
+        ${e.product ? `<p style="font-size:13px;margin:4px 0;"><strong>${escapeHtml(e.product.asin)}</strong> &mdash; ${escapeHtml(e.product.title)} (${escapeHtml(e.product.price)})</p>` : ''}
+        ${e.insertionPoint ? `<p style="font-size:12px;color:#475569;margin:4px 0;">${escapeHtml(e.insertionMethod || '')}: ${escapeHtml(e.insertionPoint)}</p>` : ''}
+        ${e.diff?.length ? `<pre style="background:#0f172a;color:#e2e8f0;font-size:11px;padding:12px;border-radius:8px;overflow:auto;max-height:400px;">${e.diff.map(d =>
+            `<span style="color:${d.type === 'add' ? '#86efac' : '#fca5a5'}">${d.type === 'add' ? '+' : '-'} ${escapeHtml(d.text)}</span>`).join('\n')}</pre>` : ''}
+      </section>`).join('');
+    const count = (outcome: DryRunEntry['outcome']) => report.entries.filter(e => e.outcome === outcome).length;
+    return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="UTF-8"><title>AmzPilot Dry Run ${new Date(report.createdAt).toLocaleString()}</title></head>
+<body style="font-family:-apple-system,system-ui,sans-serif;max-width:1000px;margin:40px auto;padding:0 20px;color:#0f172a;">
+  <h1 style="margin-bottom:4px;">Autopilot Dry Run</h1>
+  <p style="color:#64748b;margin-top:0;">${escapeHtml(report.siteUrl)} &middot; ${new Date(report.createdAt).toLocaleString()} &middot; Auto-publish threshold ${report.threshold}%</p>
+  <p><strong>${count('would_publish')}</strong> would publish &middot; <strong>${count('needs_review')}</strong> need review &middot; <strong>${count('skipped')}</strong> skipped</p>
+  ${sections}
+</body></html>`;
 };
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // utils.ts reads localStorage and window.location at call time
+    environment: 'happy-dom',
+    include: ['tests/**/*.test.ts'],
+  },
+});